@@ -4,27 +4,41 @@
 import * as fs from "fs";
 import * as os from "os";
 import * as path from "path";
+import { CliError, ExitCode } from "./utils/errors.js";
+import { decryptJson, encryptJson, isEncryptedEnvelope, writeFileAtomic, type KeySource } from "./utils/secure-file.js";
 
-const CONFIG_DIR = path.join(os.homedir(), ".jgoogle");
-const ACCOUNTS_FILE = path.join(CONFIG_DIR, "accounts.json");
+const DEFAULT_CONFIG_DIR = path.join(os.homedir(), ".jgoogle");
 
 // OAuth credentials from environment (embedded at build time)
 // Project: joseph-481914
-const EMBEDDED_CREDENTIALS = {
-  clientId: process.env['GOOGLE_CLIENT_ID'] || "",
-  clientSecret: process.env['GOOGLE_CLIENT_SECRET'] || ""
-};
+// Read lazily so a .env loaded by the CLI after module import is honored
+function getEmbeddedCredentials(): ClientCredentials {
+  return {
+    clientId: process.env['GOOGLE_CLIENT_ID'] || "",
+    clientSecret: process.env['GOOGLE_CLIENT_SECRET'] || ""
+  };
+}
 
 export interface OAuth2Credentials {
   clientId: string;
   clientSecret: string;
   refreshToken: string;
   accessToken?: string;
+  expiryDate?: number;  // Access token expiry, ms since epoch
 }
 
 export interface EmailAccount {
   email: string;
   oauth2: OAuth2Credentials;
+  scopes?: string[];      // Granted scope URLs; unset for accounts added before scopes were recorded
+  needsReauth?: boolean;  // Set when Google rejects the refresh token (invalid_grant)
+  reauthReason?: string;
+}
+
+// Account selection settings stored next to accounts.json
+export interface AccountSettings {
+  defaultAccount?: string;
+  aliases: Record<string, string>;  // alias -> email
 }
 
 export interface ClientCredentials {
@@ -32,68 +46,234 @@ export interface ClientCredentials {
   clientSecret: string;
 }
 
+export interface AccountStorageOptions {
+  configDir?: string;               // Defaults to ~/.jgoogle
+  credentials?: ClientCredentials;  // Defaults to GOOGLE_CLIENT_ID/GOOGLE_CLIENT_SECRET
+  passphrase?: string;              // Defaults to JGOOGLE_PASSPHRASE; key file is used when unset
+  keyFile?: string;                 // Defaults to JGOOGLE_KEY_FILE, then <configDir>/key
+}
+
+// Account store that cannot be read (corrupted file, wrong passphrase/key)
+export class AccountStorageError extends CliError {
+  constructor(message: string) {
+    super(message, ExitCode.AUTH_ERROR);
+  }
+}
+
 export class AccountStorage {
   private accounts = new Map<string, EmailAccount>();
+  private settings: AccountSettings = { aliases: {} };
+  private loaded = false;
+  private configDir: string;
+  private accountsFile: string;
+  private settingsFile: string;
 
-  constructor() {
-    this.ensureConfigDir();
-    this.loadAccounts();
+  constructor(private options: AccountStorageOptions = {}) {
+    this.configDir = options.configDir || DEFAULT_CONFIG_DIR;
+    this.accountsFile = path.join(this.configDir, "accounts.json");
+    this.settingsFile = path.join(this.configDir, "settings.json");
   }
 
   private ensureConfigDir(): void {
-    if (!fs.existsSync(CONFIG_DIR)) {
-      fs.mkdirSync(CONFIG_DIR, { recursive: true });
+    if (!fs.existsSync(this.configDir)) {
+      fs.mkdirSync(this.configDir, { recursive: true, mode: 0o700 });
     }
   }
 
+  // Files are read on first use so errors surface where callers handle them
+  private ensureLoaded(): void {
+    if (this.loaded) return;
+    this.loadAccounts();
+    this.loadSettings();
+    this.loaded = true;
+  }
+
+  private keySource(): KeySource {
+    return {
+      passphrase: this.options.passphrase ?? process.env['JGOOGLE_PASSPHRASE'],
+      keyFile: this.options.keyFile || process.env['JGOOGLE_KEY_FILE'] || path.join(this.configDir, "key"),
+    };
+  }
+
   private loadAccounts(): void {
-    if (fs.existsSync(ACCOUNTS_FILE)) {
+    if (!fs.existsSync(this.accountsFile)) return;
+
+    const data = this.readJson(this.accountsFile);
+    const legacy = Array.isArray(data);
+    let accounts: unknown = data;
+    if (!legacy) {
+      if (!isEncryptedEnvelope(data)) {
+        throw this.corrupted(this.accountsFile, "unrecognized format");
+      }
       try {
-        const data = JSON.parse(fs.readFileSync(ACCOUNTS_FILE, "utf8"));
-        for (const account of data) {
-          this.accounts.set(account.email, account);
-        }
-      } catch {
-        // Ignore parse errors
+        accounts = decryptJson(data, this.keySource());
+      } catch (e) {
+        throw new AccountStorageError(`Cannot decrypt ${this.accountsFile}: ${e instanceof Error ? e.message : e}`);
       }
     }
+    if (!Array.isArray(accounts)) {
+      throw this.corrupted(this.accountsFile, "expected a list of accounts");
+    }
+
+    for (const account of accounts as EmailAccount[]) {
+      this.accounts.set(account.email, account);
+    }
+    if (legacy) {
+      // Plaintext file from an older version: re-save encrypted, without
+      // backing up the plaintext, and drop any backup an older version left
+      this.saveAccounts({ backup: false });
+      fs.rmSync(`${this.accountsFile}.bak`, { force: true });
+    }
   }
 
-  private saveAccounts(): void {
-    fs.writeFileSync(
-      ACCOUNTS_FILE,
-      JSON.stringify(Array.from(this.accounts.values()), null, 2)
+  private saveAccounts(options: { backup: boolean } = { backup: true }): void {
+    this.ensureConfigDir();
+    writeFileAtomic(
+      this.accountsFile,
+      encryptJson(Array.from(this.accounts.values()), this.keySource()),
+      options
+    );
+  }
+
+  private loadSettings(): void {
+    if (!fs.existsSync(this.settingsFile)) return;
+    const data = this.readJson(this.settingsFile) as Partial<AccountSettings> | null;
+    if (typeof data !== "object" || data === null) {
+      throw this.corrupted(this.settingsFile, "expected an object");
+    }
+    this.settings = { defaultAccount: data.defaultAccount, aliases: data.aliases || {} };
+  }
+
+  private saveSettings(): void {
+    this.ensureConfigDir();
+    writeFileAtomic(this.settingsFile, JSON.stringify(this.settings, null, 2), { backup: true });
+  }
+
+  private readJson(file: string): unknown {
+    try {
+      return JSON.parse(fs.readFileSync(file, "utf8"));
+    } catch (e) {
+      throw this.corrupted(file, e instanceof Error ? e.message : String(e));
+    }
+  }
+
+  private corrupted(file: string, detail: string): AccountStorageError {
+    const backup = fs.existsSync(`${file}.bak`) ? ` Restore it from ${file}.bak or move` : " Move";
+    return new AccountStorageError(
+      `${file} is corrupted (${detail}).${backup} it aside and re-add accounts. Refusing to overwrite it.`
     );
   }
 
   addAccount(account: EmailAccount): void {
+    this.ensureLoaded();
     this.accounts.set(account.email, account);
     this.saveAccounts();
   }
 
   getAccount(email: string): EmailAccount | undefined {
+    this.ensureLoaded();
     return this.accounts.get(email);
   }
 
   getAllAccounts(): EmailAccount[] {
+    this.ensureLoaded();
     return Array.from(this.accounts.values());
   }
 
   deleteAccount(email: string): boolean {
+    this.ensureLoaded();
     const deleted = this.accounts.delete(email);
-    if (deleted) this.saveAccounts();
+    if (deleted) {
+      this.saveAccounts();
+      this.forgetAccountSettings(email);
+    }
     return deleted;
   }
 
+  // Persist tokens from a refresh; a successful refresh also clears needsReauth
+  updateTokens(email: string, tokens: Partial<OAuth2Credentials>): void {
+    this.ensureLoaded();
+    const account = this.accounts.get(email);
+    if (!account) return;
+    const defined = Object.fromEntries(Object.entries(tokens).filter(([, v]) => v !== undefined));
+    account.oauth2 = { ...account.oauth2, ...defined };
+    delete account.needsReauth;
+    delete account.reauthReason;
+    this.saveAccounts();
+  }
+
+  markNeedsReauth(email: string, reason: string): void {
+    this.ensureLoaded();
+    const account = this.accounts.get(email);
+    if (!account) return;
+    account.needsReauth = true;
+    account.reauthReason = reason;
+    delete account.oauth2.accessToken;
+    delete account.oauth2.expiryDate;
+    this.saveAccounts();
+  }
+
   hasAccount(email: string): boolean {
+    this.ensureLoaded();
     return this.accounts.has(email);
   }
 
+  getDefaultAccount(): string | undefined {
+    this.ensureLoaded();
+    return this.settings.defaultAccount;
+  }
+
+  setDefaultAccount(email: string | undefined): void {
+    this.ensureLoaded();
+    this.settings.defaultAccount = email;
+    this.saveSettings();
+  }
+
+  getAliases(): Record<string, string> {
+    this.ensureLoaded();
+    return { ...this.settings.aliases };
+  }
+
+  setAlias(alias: string, email: string): void {
+    this.ensureLoaded();
+    this.settings.aliases[alias] = email;
+    this.saveSettings();
+  }
+
+  removeAlias(alias: string): boolean {
+    this.ensureLoaded();
+    if (!(alias in this.settings.aliases)) return false;
+    delete this.settings.aliases[alias];
+    this.saveSettings();
+    return true;
+  }
+
+  // Resolve an email or alias to an account email. Without a name, falls back
+  // to JGOOGLE_ACCOUNT, then the default account. Returns undefined if unknown.
+  resolveAccount(name?: string): string | undefined {
+    this.ensureLoaded();
+    const target = name || process.env['JGOOGLE_ACCOUNT'] || this.settings.defaultAccount;
+    if (!target) return undefined;
+    if (this.accounts.has(target)) return target;
+    const aliased = this.settings.aliases[target];
+    return aliased && this.accounts.has(aliased) ? aliased : undefined;
+  }
+
+  private forgetAccountSettings(email: string): void {
+    if (this.settings.defaultAccount === email) {
+      this.settings.defaultAccount = undefined;
+    }
+    for (const [alias, target] of Object.entries(this.settings.aliases)) {
+      if (target === email) delete this.settings.aliases[alias];
+    }
+    this.saveSettings();
+  }
+
   getCredentials(): ClientCredentials {
-    return EMBEDDED_CREDENTIALS;
+    return this.options.credentials || getEmbeddedCredentials();
   }
 
   getConfigDir(): string {
-    return CONFIG_DIR;
+    return this.configDir;
   }
 }
@@ -0,0 +1,94 @@
+// ABOUTME: Shared OAuth2 clients per account for Gmail, Calendar, and Drive
+// ABOUTME: Persists refreshed access tokens and flags revoked grants for re-auth
+
+import { OAuth2Client, type OAuth2ClientOptions } from "google-auth-library";
+import { AccountStorage } from "./account-storage.js";
+import { DEFAULT_SCOPES, MissingScopeError, hasScope, toScopeUrls, type ScopeName } from "./scopes.js";
+import { CliError, ExitCode, getErrorReason } from "./utils/errors.js";
+
+export interface AuthClientsOptions {
+  tokenUrl?: string;  // OAuth token endpoint override, e.g. a local fake server in tests
+}
+
+// OAuth2Client that reports invalid_grant (revoked or expired refresh token)
+class AccountOAuth2Client extends OAuth2Client {
+  constructor(options: OAuth2ClientOptions, private onInvalidGrant: (message: string) => void) {
+    super(options);
+  }
+
+  protected async refreshTokenNoCache(refreshToken?: string | null) {
+    try {
+      return await super.refreshTokenNoCache(refreshToken);
+    } catch (e) {
+      if (getErrorReason(e) === "invalid_grant") {
+        this.onInvalidGrant(e instanceof Error ? e.message : String(e));
+      }
+      throw e;
+    }
+  }
+}
+
+const sharedClients = new WeakMap<AccountStorage, AuthClients>();
+
+export class AuthClients {
+  private clients = new Map<string, OAuth2Client>();
+
+  constructor(
+    private accountStorage: AccountStorage,
+    private options: AuthClientsOptions = {}
+  ) {}
+
+  // One AuthClients per account store, so services built on the same store
+  // share a single OAuth2Client (and token refresh) per account
+  static for(accountStorage: AccountStorage): AuthClients {
+    let clients = sharedClients.get(accountStorage);
+    if (!clients) {
+      clients = new AuthClients(accountStorage);
+      sharedClients.set(accountStorage, clients);
+    }
+    return clients;
+  }
+
+  // Pre-flight check so commands fail with the missing scope instead of a 403.
+  // Accounts added before scopes were recorded have the default scopes.
+  requireScope(email: string, scope: ScopeName): void {
+    const account = this.accountStorage.getAccount(email);
+    if (!account) throw new CliError(`Account '${email}' not found`, ExitCode.AUTH_ERROR);
+    const granted = account.scopes || toScopeUrls(DEFAULT_SCOPES);
+    if (!hasScope(granted, scope)) {
+      throw new MissingScopeError(email, scope);
+    }
+  }
+
+  get(email: string): OAuth2Client {
+    if (!this.clients.has(email)) {
+      const account = this.accountStorage.getAccount(email);
+      if (!account) throw new CliError(`Account '${email}' not found`, ExitCode.AUTH_ERROR);
+
+      const client = new AccountOAuth2Client(
+        {
+          clientId: account.oauth2.clientId,
+          clientSecret: account.oauth2.clientSecret,
+          redirectUri: "http://localhost",
+          endpoints: this.options.tokenUrl ? { oauth2TokenUrl: this.options.tokenUrl } : undefined,
+        },
+        (message) => this.accountStorage.markNeedsReauth(email, message)
+      );
+      client.setCredentials({
+        refresh_token: account.oauth2.refreshToken,
+        access_token: account.oauth2.accessToken,
+        expiry_date: account.oauth2.expiryDate,
+      });
+      client.on("tokens", (tokens) => {
+        this.accountStorage.updateTokens(email, {
+          accessToken: tokens.access_token || undefined,
+          expiryDate: tokens.expiry_date || undefined,
+          refreshToken: tokens.refresh_token || undefined,
+        });
+      });
+
+      this.clients.set(email, client);
+    }
+    return this.clients.get(email)!;
+  }
+}
@@ -3,23 +3,82 @@
 // ABOUTME: Routes commands to Gmail, Calendar, and Drive services
 
 import * as dotenv from "dotenv";
-dotenv.config(); // Load .env for local dev (credentials embedded at compile time)
+dotenv.config({ quiet: true }); // Load .env for local dev (credentials embedded at compile time)
 
 import * as fs from "fs";
 import * as path from "path";
-import * as os from "os";
 import { parseArgs } from "util";
+import { fileURLToPath } from "url";
 import { AccountStorage } from "./account-storage.js";
 import { OAuthFlow } from "./oauth-flow.js";
+import { DEFAULT_SCOPES, SCOPES, parseScopeNames, toScopeName, toScopeUrls } from "./scopes.js";
 import { GmailService } from "./services/gmail.js";
 import { CalendarService } from "./services/calendar.js";
 import { DriveService } from "./services/drive.js";
-import { ExitCode, exitWithCode } from "./utils/errors.js";
-
+import { MailCache } from "./services/mail-cache.js";
+import { MailChanges } from "./services/mail-changes.js";
+import { EXPORT_FORMATS, MailExport, type ExportFormat } from "./services/mail-export.js";
+import { MailMerge, loadRows, loadTemplate, type MergeResult } from "./services/mail-merge.js";
+import { MailUnsubscribe, type UnsubscribeResult } from "./services/mail-unsubscribe.js";
+import { SendQueue, type QueueEntry } from "./services/send-queue.js";
+import { ExitCode, classifyError, exitWithCode, exitWithError, setJsonErrors } from "./utils/errors.js";
+import { maxAttemptsFromEnv } from "./utils/retry.js";
+import {
+  FILTER_FORMATS,
+  describeAction,
+  describeCriteria,
+  filterFormatFor,
+  formatFilters,
+  parseFilters,
+  type FilterFormat,
+  type FilterSpec,
+} from "./utils/filters.js";
+import { Output, OUTPUT_FORMATS, isOutputFormat, type Column } from "./utils/output.js";
+import { formatAddress, htmlToText, parseAddressList, type RawHeader } from "./utils/mime.js";
+import { sanitizeFilename, writeNewFile } from "./utils/files.js";
+import { escapeHtml, renderMarkdown } from "./utils/markdown.js";
+import type {
+  ThreadSummary,
+  FilterImportResult,
+  Label,
+  LabelColor,
+  MailChange,
+  Draft,
+  MessageDetail,
+  MessageSource,
+  SavedAttachment,
+  SendAs,
+  VacationSettings,
+} from "./services/gmail.js";
+import type { CalendarInfo, AclEntry, EventInfo } from "./services/calendar.js";
+import type { FileInfo, Permission } from "./services/drive.js";
+import type { ServiceOptions } from "./services/service-options.js";
+
+// JGOOGLE_API_ROOT_URL points the services at another endpoint (used by the test suite)
+const serviceOptions: ServiceOptions = {
+  rootUrl: process.env["JGOOGLE_API_ROOT_URL"] || undefined,
+  retry: {
+    maxAttempts: maxAttemptsFromEnv(),
+    onRetry: (error, attempt, delayMs) => {
+      if (output.structured) return;
+      const reason = error instanceof Error ? error.message : String(error);
+      console.error(`[RETRY] ${reason}; attempt ${attempt + 1} in ${(delayMs / 1000).toFixed(1)}s`);
+    },
+  },
+};
 const accountStorage = new AccountStorage();
-const gmailService = new GmailService(accountStorage);
-const calendarService = new CalendarService(accountStorage);
-const driveService = new DriveService(accountStorage);
+const gmailService = new GmailService(accountStorage, serviceOptions);
+const calendarService = new CalendarService(accountStorage, serviceOptions);
+const driveService = new DriveService(accountStorage, serviceOptions);
+const mailMerge = new MailMerge(gmailService);
+const mailExport = new MailExport(gmailService);
+const mailChanges = new MailChanges(gmailService, accountStorage);
+const mailCache = new MailCache(gmailService, accountStorage);
+const sendQueue = new SendQueue(gmailService, accountStorage);
+const mailUnsubscribe = new MailUnsubscribe(gmailService);
+let output = new Output();
+
+const SERVICES = ["mail", "cal", "drive"];
 
 function usage(): void {
   console.error(`
@@ -32,22 +91,79 @@ USAGE
   jgoogle <email> cal <command> [options]      Calendar operations
   jgoogle <email> drive <command> [options]    Drive operations
 
+  <email> may be an alias, or omitted to use $JGOOGLE_ACCOUNT or the default account:
+  jgoogle work mail search ...                 Via alias
+  jgoogle mail search ...                      Via default account
+
+GLOBAL OPTIONS
+
+  --format <tsv|table|json|ndjson>             Output format (default: tsv)
+  --json                                       Shorthand for --format json
+                                               (json/ndjson also write errors to stderr as JSON)
+  JGOOGLE_MAX_ATTEMPTS=<n>                     Attempts per API call on rate limits/5xx (default 5)
+
 ACCOUNT COMMANDS
 
-  jgoogle accounts list                        List configured accounts
-  jgoogle accounts add <email> [--manual]      Add account (--manual for browserless OAuth)
+  jgoogle accounts list                        List accounts (STATUS needs-reauth: run accounts add again)
+  jgoogle accounts add <email> [--manual] [--scopes S]  Add account (--manual for browserless OAuth)
+  jgoogle accounts reauth <email> --scopes S   Grant more scopes (incremental authorization)
   jgoogle accounts remove <email>              Remove account
+  jgoogle accounts default [email|--clear]     Show, set or clear the default account
+  jgoogle accounts alias <name> <email>        Add a short alias for an account
+  jgoogle accounts unalias <name>              Remove an alias
+
+SCOPES (for --scopes, comma-separated)
+
+  ${Object.keys(SCOPES).join(", ")}
+  Default: ${DEFAULT_SCOPES.join(", ")}. Writes need mail:modify (labels), mail:settings (filters, settings), cal:write, drive:write.
 
 GMAIL COMMANDS (jgoogle <email> mail ...)
 
   search <query> [--max N] [--page TOKEN]  Search threads
-  thread <threadId>                        Get thread with messages
+  search <query> --offline [--max N]       Search the local cache (words, from:, subject:, "phrases")
+  thread <threadId> [--offline]            Get thread with messages
+  message <messageId> [--raw|--headers] [--save FILE|DIR]  Source, all headers, sizes, auth results
+  attachments <threadId|messageId> [--out DIR] [--match GLOB]  Download attachments
   labels list                              List all labels
-  labels <threadIds...> [--add L] [--remove L]  Modify labels
+  labels <threadIds...> [--add L] [--remove L]  Modify labels (names or IDs, comma-separated)
+  labels create <name> [--bg #hex --text #hex]  Create label ("Parent/Child" nests)
+  labels rename <label> <newName>          Rename label and its nested labels
+  labels delete <label>                    Delete label
+  labels color <label> --bg #hex [--text #hex]  Set label color
+  filters list                             List filters
+  filters create [--from F] [--to T] [--subject S] [--query Q] [--has-attachment] [--larger 5M]
+    [--add-label L] [--archive] [--mark-read] [--star] [--forward E] [--create-labels]
+  filters delete <filterIds...>            Delete filters
+  filters export [--as json|yaml|xml] [--out FILE]  Export filters (label names, no IDs)
+  filters import <file> [--as json|yaml|xml] [--accounts a,b|all] [--dry-run]
+                                           Create missing filters and labels
+  settings vacation get|off [--accounts a,b|all]  Show or turn off the vacation responder
+  settings vacation set --subject <s> --body <b>|--body-file F [--html|--markdown]
+    [--start YYYY-MM-DD] [--end YYYY-MM-DD] [--contacts-only] [--domain-only] [--accounts a,b|all]
+  settings signature get|set [--body b|--body-file F] [--html|--markdown] [--from ADDRESS] [--accounts]
+  settings sendas list [--accounts a,b|all]  List send-as addresses
   drafts list                              List drafts
+  drafts show <draftId>                    Show draft headers, body and attachments
+  drafts create --to <emails> --subject <s> [--body b] [--cc] [--bcc] [--attach FILE] [--reply-to MSG]
+  drafts update <draftId> [--to] [--subject] [--body] [--cc] [--bcc] [--attach FILE] [--clear-attachments]
   drafts delete <draftId>                  Delete draft
   drafts send <draftId>                    Send draft
   send --to <emails> --subject <s> --body <b>  Send email
+    [--body-file F|-] [--html|--markdown] [--inline IMG] [--attach F] [--from ALIAS] [--cc] [--bcc]
+    [--at TIME]                            Queue for later, e.g. --at 2026-10-20T09:00 (local time)
+  queue list                               Queued messages and their results
+  queue cancel <ids...>                    Cancel queued messages
+  queue run [--accounts a,b|all]           Send the messages that are due (run it from cron)
+  unsubscribe <query> [--dry-run] [--archive] [--label L] [--max N]  Unsubscribe from the senders found
+  changes [--since historyId] [--reset]    Added/deleted messages and label changes since the checkpoint
+  watch [--interval SEC] [--label L]       Print new messages as NDJSON until interrupted
+  sync [--query Q] [--max N] [--full]      Fill or update the local cache for --offline
+  export <query> --out <file.mbox|dir> [--as mbox|eml] [--max N]
+                                           Export raw messages; re-run to resume
+  merge --template <file> --data <csv|json> [--draft] [--dry-run] [--delay MS] [--log FILE]
+                                           Personalized send per row ({{field}} placeholders)
+  reply <messageId> --body <b> [--all] [--draft]  Reply (--all: also original To/Cc)
+  forward <messageId> --to <emails> [--body <note>] [--draft]  Forward with attachments
   url <threadIds...>                       Generate Gmail URLs
 
 CALENDAR COMMANDS (jgoogle <email> cal ...)
@@ -79,7 +195,9 @@ EXAMPLES
 
 DATA STORAGE
 
-  ~/.jgoogle/accounts.json      Account tokens
+  ~/.jgoogle/accounts.json      Account tokens (AES-256-GCM encrypted, mode 0600)
+  ~/.jgoogle/key                Encryption key (unless JGOOGLE_PASSPHRASE is set)
+  ~/.jgoogle/settings.json      Default account and aliases
   ~/.jgoogle/downloads/         Downloaded files
 `);
 }
@@ -98,38 +216,166 @@ function formatDate(dateStr: string): string {
   return date.toISOString().replace("T", " ").substring(0, 16);
 }
 
+const fileColumns: Column<FileInfo>[] = [
+  { header: "ID", value: (f) => f.id },
+  { header: "NAME", value: (f) => f.name },
+  { header: "TYPE", value: (f) => (f.mimeType.includes("folder") ? "folder" : "file") },
+  { header: "SIZE", value: (f) => formatSize(f.size) },
+  { header: "MODIFIED", value: (f) => formatDate(f.modifiedTime) },
+];
+
+// Strip global output flags (--format X, --format=X, --json) from anywhere in argv
+function extractGlobalOptions(args: string[]): string[] {
+  const rest: string[] = [];
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    let format: string | undefined;
+    if (arg === "--json") {
+      format = "json";
+    } else if (arg === "--format") {
+      format = args[++i];
+    } else if (arg.startsWith("--format=")) {
+      format = arg.slice("--format=".length);
+    } else {
+      rest.push(arg);
+      continue;
+    }
+    if (!format || !isOutputFormat(format)) {
+      exitWithCode(ExitCode.INVALID_INPUT, `Invalid --format: ${format ?? ""}. Use: ${OUTPUT_FORMATS.join(", ")}`);
+    }
+    output = new Output(format);
+    setJsonErrors(output.structured);
+  }
+  return rest;
+}
+
+// Run the OAuth flow and store the account; returns the granted scope names
+async function authorizeAccount(email: string, scopes: string[], manual = false): Promise<string[]> {
+  const creds = accountStorage.getCredentials();
+  const oauthFlow = new OAuthFlow(creds.clientId, creds.clientSecret);
+  const authorization = await oauthFlow.authorize({ manual, scopes, loginHint: email });
+  accountStorage.addAccount({
+    email,
+    oauth2: { clientId: creds.clientId, clientSecret: creds.clientSecret, refreshToken: authorization.refreshToken },
+    scopes: authorization.scopes,
+  });
+  return authorization.scopes.map(toScopeName);
+}
+
 async function handleAccounts(args: string[]): Promise<void> {
   const action = args[0];
 
   if (action === "list") {
     const accounts = accountStorage.getAllAccounts();
-    if (accounts.length === 0) {
+    if (accounts.length === 0 && !output.structured) {
       console.log("No accounts configured. Run: jgoogle accounts add <email>");
-    } else {
-      for (const acc of accounts) {
-        console.log(acc.email);
-      }
+      return;
     }
+    const defaultAccount = accountStorage.getDefaultAccount();
+    const aliases = Object.entries(accountStorage.getAliases());
+    output.list(
+      accounts.map((acc) => ({
+        email: acc.email,
+        status: acc.needsReauth ? "needs-reauth" : "ok",
+        reauthReason: acc.reauthReason,
+        scopes: (acc.scopes || toScopeUrls(DEFAULT_SCOPES)).map(toScopeName),
+        default: acc.email === defaultAccount,
+        aliases: aliases.filter(([, email]) => email === acc.email).map(([alias]) => alias),
+      })),
+      [
+        { header: "EMAIL", value: (a) => a.email },
+        { header: "STATUS", value: (a) => a.status },
+        { header: "DEFAULT", value: (a) => (a.default ? "*" : "") },
+        { header: "ALIASES", value: (a) => a.aliases.join(",") },
+        { header: "SCOPES", value: (a) => a.scopes.join(",") },
+      ]
+    );
     return;
   }
 
-  if (action === "add") {
-    const email = args[1];
-    const manual = args.includes("--manual");
+  if (action === "default") {
+    const target = args[1];
+    if (!target) {
+      const current = accountStorage.getDefaultAccount();
+      output.item({ defaultAccount: current ?? null }, () => console.log(current || "No default account set"));
+      return;
+    }
+    if (target === "--clear") {
+      accountStorage.setDefaultAccount(undefined);
+      output.done("Default account cleared");
+      return;
+    }
+    const email = accountStorage.resolveAccount(target);
     if (!email) {
-      exitWithCode(ExitCode.INVALID_INPUT, "Missing email address");
+      exitWithCode(ExitCode.NOT_FOUND, `Account '${target}' not found`);
+    }
+    accountStorage.setDefaultAccount(email);
+    output.done(`Default account: ${email}`, { defaultAccount: email });
+    return;
+  }
+
+  if (action === "alias") {
+    const alias = args[1];
+    const target = args[2];
+    if (!alias || !target) {
+      exitWithCode(ExitCode.INVALID_INPUT, "Usage: jgoogle accounts alias <name> <email>");
     }
-    if (accountStorage.hasAccount(email)) {
-      exitWithCode(ExitCode.INVALID_INPUT, `Account '${email}' already exists`);
+    if (alias.includes("@") || alias === "accounts" || SERVICES.includes(alias)) {
+      exitWithCode(ExitCode.INVALID_INPUT, `Invalid alias: ${alias}`);
     }
-    const creds = accountStorage.getCredentials();
-    const oauthFlow = new OAuthFlow(creds.clientId, creds.clientSecret);
-    const refreshToken = await oauthFlow.authorize(manual);
-    accountStorage.addAccount({
-      email,
-      oauth2: { clientId: creds.clientId, clientSecret: creds.clientSecret, refreshToken },
+    if (!accountStorage.hasAccount(target)) {
+      exitWithCode(ExitCode.NOT_FOUND, `Account '${target}' not found`);
+    }
+    accountStorage.setAlias(alias, target);
+    output.done(`Alias '${alias}' -> ${target}`, { alias, email: target });
+    return;
+  }
+
+  if (action === "unalias") {
+    const alias = args[1];
+    if (!alias) {
+      exitWithCode(ExitCode.INVALID_INPUT, "Missing alias");
+    }
+    if (!accountStorage.removeAlias(alias)) {
+      exitWithCode(ExitCode.NOT_FOUND, `Alias '${alias}' not found`);
+    }
+    output.done(`Alias '${alias}' removed`, { alias });
+    return;
+  }
+
+  if (action === "add" || action === "reauth") {
+    const { values, positionals } = parseArgs({
+      args: args.slice(1),
+      options: { manual: { type: "boolean" }, scopes: { type: "string" } },
+      allowPositionals: true,
     });
-    console.log(`Account '${email}' added`);
+    const requested = parseScopeNames(values.scopes || "");
+
+    if (action === "add") {
+      const email = positionals[0];
+      if (!email) {
+        exitWithCode(ExitCode.INVALID_INPUT, "Missing email address");
+      }
+      // Re-adding is how an account flagged by a revoked grant is re-authorized
+      if (accountStorage.hasAccount(email) && !accountStorage.getAccount(email)!.needsReauth) {
+        exitWithCode(ExitCode.INVALID_INPUT, `Account '${email}' already exists`);
+      }
+      const scopes = await authorizeAccount(email, toScopeUrls([...DEFAULT_SCOPES, ...requested]), values.manual);
+      output.done(`Account '${email}' added`, { email, scopes });
+      return;
+    }
+
+    if (!positionals[0]) {
+      exitWithCode(ExitCode.INVALID_INPUT, "Missing email address");
+    }
+    const email = accountStorage.resolveAccount(positionals[0]);
+    if (!email) {
+      exitWithCode(ExitCode.NOT_FOUND, `Account '${positionals[0]}' not found`);
+    }
+    // Incremental authorization: keep what was granted and add the new scopes
+    const granted = accountStorage.getAccount(email)!.scopes || toScopeUrls(DEFAULT_SCOPES);
+    const scopes = await authorizeAccount(email, [...new Set([...granted, ...toScopeUrls(requested)])], values.manual);
+    output.done(`Account '${email}' re-authorized. Scopes: ${scopes.join(", ")}`, { email, scopes });
     return;
   }
 
@@ -139,7 +385,7 @@ async function handleAccounts(args: string[]): Promise<void> {
       exitWithCode(ExitCode.INVALID_INPUT, "Missing email address");
     }
     if (accountStorage.deleteAccount(email)) {
-      console.log(`Account '${email}' removed`);
+      output.done(`Account '${email}' removed`, { email });
     } else {
       exitWithCode(ExitCode.NOT_FOUND, `Account '${email}' not found`);
     }
@@ -149,6 +395,336 @@ async function handleAccounts(args: string[]): Promise<void> {
   exitWithCode(ExitCode.INVALID_INPUT, `Unknown accounts action: ${action}`);
 }
 
+// Headers worth seeing first when checking how a message was delivered
+const SOURCE_HEADERS = ["Message-ID", "Date", "From", "To", "Cc", "Subject", "Return-Path", "List-Id", "List-Unsubscribe"];
+
+function printMessageSource(source: MessageSource): void {
+  const values = (name: string) =>
+    source.headers.filter((h) => h.name.toLowerCase() === name.toLowerCase()).map((h) => h.value.replace(/\s+/g, " "));
+  console.log(`ID: ${source.id}`);
+  console.log(`Thread: ${source.threadId}`);
+  console.log(`Received by Gmail: ${formatDate(source.date.toISOString())}`);
+  console.log(`Size: ${formatSize(source.size)} (headers ${formatSize(source.headerSize)}, body ${formatSize(source.size - source.headerSize)})`);
+  console.log(`Labels: ${source.labels.join(", ")}`);
+  for (const name of SOURCE_HEADERS) {
+    for (const value of values(name)) console.log(`${name}: ${value}`);
+  }
+  for (const name of ["Authentication-Results", "DKIM-Signature", "Received"]) {
+    const found = values(name);
+    if (found.length === 0) continue;
+    console.log(`\n${name}${name === "Received" ? " (newest first)" : ""}:`);
+    found.forEach((value, i) => console.log(`  ${i + 1}. ${value}`));
+  }
+}
+
+// --save FILE, or --save DIR for DIR/<messageId>.eml
+// Never overwrites: a directory gets "<id> (1).eml" like downloads, a named file must not exist
+function saveMessageSource(target: string, source: MessageSource): string {
+  const isDir = fs.existsSync(target) && fs.statSync(target).isDirectory();
+  if (!isDir && fs.existsSync(target)) {
+    exitWithCode(ExitCode.INVALID_INPUT, `${target} already exists`);
+  }
+  const file = isDir
+    ? writeNewFile(target, `${sanitizeFilename(source.id)}.eml`, source.raw)
+    : writeNewFile(path.dirname(target), path.basename(target), source.raw);
+  fs.utimesSync(file, source.date, source.date);
+  return file;
+}
+
+function printMessage(msg: MessageDetail): void {
+  console.log(`From: ${msg.from}`);
+  console.log(`To: ${msg.to}`);
+  if (msg.cc) console.log(`Cc: ${msg.cc}`);
+  if (msg.bcc) console.log(`Bcc: ${msg.bcc}`);
+  console.log(`Date: ${msg.date}`);
+  console.log(`Subject: ${msg.subject}`);
+  console.log(`Labels: ${msg.labels.join(", ")}`);
+  if (msg.attachments.length > 0) {
+    console.log(`Attachments: ${msg.attachments.map((a) => a.filename).join(", ")}`);
+  }
+  console.log(`\n${msg.body}\n`);
+}
+
+// Options shared by send and drafts create/update
+const COMPOSE_OPTIONS = {
+  to: { type: "string" },
+  subject: { type: "string" },
+  body: { type: "string" },
+  "body-file": { type: "string" },
+  html: { type: "boolean" },
+  markdown: { type: "boolean" },
+  from: { type: "string" },
+  cc: { type: "string" },
+  bcc: { type: "string" },
+  attach: { type: "string", multiple: true },
+  inline: { type: "string", multiple: true },
+} as const;
+
+// Comma-separated addresses; quoted display names may contain commas
+function addressList(value: string | undefined): string[] | undefined {
+  return value === undefined ? undefined : parseAddressList(value).map(formatAddress);
+}
+
+// Body from --body or --body-file (- reads stdin), taken as HTML with --html
+// or rendered to HTML with --markdown. The text part is derived from it.
+function composeBody(values: {
+  body?: string;
+  "body-file"?: string;
+  html?: boolean;
+  markdown?: boolean;
+}): { body?: string; html?: string } {
+  if (values.html && values.markdown) {
+    exitWithCode(ExitCode.INVALID_INPUT, "Use either --html or --markdown");
+  }
+  const file = values["body-file"];
+  const source = file !== undefined ? fs.readFileSync(file === "-" ? 0 : file, "utf8") : values.body;
+  if (source === undefined) return {};
+  if (values.markdown) return { body: source, html: renderMarkdown(source) };
+  if (values.html) return { body: htmlToText(source), html: source };
+  return { body: source };
+}
+
+// --bg/--text hex colors; text defaults to black
+function labelColor(bg: string | undefined, text: string | undefined): LabelColor | undefined {
+  if (bg === undefined && text === undefined) return undefined;
+  const color = { background: (bg || "#ffffff").toLowerCase(), text: (text || "#000000").toLowerCase() };
+  if (![color.background, color.text].every((c) => /^#[0-9a-f]{6}$/.test(c))) {
+    exitWithCode(ExitCode.INVALID_INPUT, "Colors must be hex values like #4a86e8");
+  }
+  return color;
+}
+
+// Sizes like 500000, 200K or 5M, in bytes
+function byteSize(value: string | undefined): number | undefined {
+  if (value === undefined) return undefined;
+  const match = /^(\d+(?:\.\d+)?)\s*([KMG]?)B?$/i.exec(value.trim());
+  if (!match) {
+    exitWithCode(ExitCode.INVALID_INPUT, `Invalid size: ${value}. Use bytes or a K/M/G suffix`);
+  }
+  const unit = { "": 1, K: 1024, M: 1024 ** 2, G: 1024 ** 3 }[match[2].toUpperCase()]!;
+  return Math.round(Number(match[1]) * unit);
+}
+
+// --as wins; otherwise the file extension decides
+function filterFormat(format: string | undefined, file: string | undefined): FilterFormat {
+  if (format === undefined) return file && file !== "-" ? filterFormatFor(file) : "json";
+  if (!(FILTER_FORMATS as string[]).includes(format)) {
+    exitWithCode(ExitCode.INVALID_INPUT, `Invalid format: ${format}. Use: ${FILTER_FORMATS.join(", ")}`);
+  }
+  return format as FilterFormat;
+}
+
+// --accounts a,b (emails or aliases) or "all"; defaults to the command's account
+function targetAccounts(email: string, list: string | undefined): string[] {
+  if (list === undefined) return [email];
+  if (list === "all") return accountStorage.getAllAccounts().map((a) => a.email);
+  return list.split(",").map((name) => name.trim()).filter(Boolean).map((name) => {
+    const account = accountStorage.resolveAccount(name);
+    if (!account) {
+      exitWithCode(ExitCode.NOT_FOUND, `Unknown account or alias '${name}'. Run: jgoogle accounts list`);
+    }
+    return account;
+  });
+}
+
+// YYYY-MM-DD is a whole local day, so an end date includes that day;
+// anything else is read as a date and time
+function vacationTime(value: string | undefined, end: boolean): string | undefined {
+  if (value === undefined) return undefined;
+  const day = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  const date = day ? new Date(Number(day[1]), Number(day[2]) - 1, Number(day[3]) + (end ? 1 : 0)) : new Date(value);
+  if (isNaN(date.getTime())) {
+    exitWithCode(ExitCode.INVALID_INPUT, `Invalid date: ${value}. Use YYYY-MM-DD or an ISO date and time`);
+  }
+  return date.toISOString();
+}
+
+// One line of text for HTML settings in table output
+function settingText(html: string | undefined): string {
+  return html ? htmlToText(html).replace(/\s+/g, " ").trim() : "";
+}
+
+type AccountResult<T> = Partial<T> & { account: string; status: "ok" | "failed"; error?: string };
+
+// Run a settings change on every account, continuing past failures (e.g. an
+// account without mail:settings) so each account's outcome is reported
+async function eachAccount<T extends object>(
+  accounts: string[],
+  fn: (account: string) => Promise<T>
+): Promise<AccountResult<T>[]> {
+  const results: AccountResult<T>[] = [];
+  for (const account of accounts) {
+    try {
+      results.push({ account, status: "ok", ...(await fn(account)) });
+    } catch (e) {
+      results.push({ account, status: "failed", error: classifyError(e).message } as AccountResult<T>);
+    }
+  }
+  return results;
+}
+
+function exitOnAccountFailures(results: AccountResult<object>[]): void {
+  const failed = results.filter((r) => r.status === "failed").length;
+  if (failed > 0) {
+    exitWithCode(ExitCode.API_ERROR, `${failed} of ${results.length} accounts failed`);
+  }
+}
+
+const vacationColumns: Column<AccountResult<VacationSettings>>[] = [
+  { header: "ACCOUNT", value: (v) => v.account },
+  { header: "STATUS", value: (v) => v.status },
+  { header: "ENABLED", value: (v) => (v.status === "failed" ? "" : v.enabled ? "yes" : "no") },
+  { header: "START", value: (v) => formatDate(v.start || "") },
+  { header: "END", value: (v) => formatDate(v.end || "") },
+  { header: "SUBJECT", value: (v) => v.subject },
+  { header: "MESSAGE", value: (v) => (v.html ? settingText(v.html) : (v.text || "").replace(/\s+/g, " ").trim()) },
+  { header: "ERROR", value: (v) => v.error },
+];
+
+const signatureColumns: Column<AccountResult<SendAs>>[] = [
+  { header: "ACCOUNT", value: (s) => s.account },
+  { header: "STATUS", value: (s) => s.status },
+  { header: "SEND_AS", value: (s) => s.email },
+  { header: "SIGNATURE", value: (s) => settingText(s.signature) },
+  { header: "ERROR", value: (s) => s.error },
+];
+
+// --at for scheduled sends; a time without an offset is local time
+function sendTime(value: string): Date {
+  const at = new Date(value);
+  if (isNaN(at.getTime())) {
+    exitWithCode(ExitCode.INVALID_INPUT, `Invalid --at time: ${value}. Use e.g. 2026-10-20T09:00`);
+  }
+  if (at.getTime() <= Date.now()) {
+    exitWithCode(ExitCode.INVALID_INPUT, `--at ${value} is in the past`);
+  }
+  return at;
+}
+
+const queueColumns: Column<QueueEntry>[] = [
+  { header: "ID", value: (q) => q.id },
+  { header: "AT", value: (q) => formatDate(q.at) },
+  { header: "STATUS", value: (q) => q.status },
+  { header: "TO", value: (q) => q.to.join(", ") },
+  { header: "SUBJECT", value: (q) => q.subject },
+  { header: "MESSAGE_ID", value: (q) => q.messageId },
+  { header: "ERROR", value: (q) => q.error },
+];
+
+async function handleSettings(email: string, args: string[]): Promise<void> {
+  const [area, action] = args;
+
+  if (area === "vacation") {
+    const { values } = parseArgs({
+      args: args.slice(2),
+      options: {
+        subject: COMPOSE_OPTIONS.subject,
+        body: COMPOSE_OPTIONS.body,
+        "body-file": COMPOSE_OPTIONS["body-file"],
+        html: COMPOSE_OPTIONS.html,
+        markdown: COMPOSE_OPTIONS.markdown,
+        start: { type: "string" },
+        end: { type: "string" },
+        "contacts-only": { type: "boolean" },
+        "domain-only": { type: "boolean" },
+        accounts: { type: "string" },
+      },
+    });
+    const accounts = targetAccounts(email, values.accounts);
+    let results: AccountResult<VacationSettings>[] = [];
+
+    if (action === "get") {
+      results = await eachAccount(accounts, (account) => gmailService.getVacation(account));
+    } else if (action === "set") {
+      const { body, html } = composeBody(values);
+      if (!body) {
+        exitWithCode(
+          ExitCode.INVALID_INPUT,
+          "Usage: mail settings vacation set --subject <s> --body <b>|--body-file F [--html|--markdown] [--start DATE] [--end DATE]"
+        );
+      }
+      const settings: VacationSettings = {
+        enabled: true,
+        subject: values.subject,
+        text: body,
+        html,
+        start: vacationTime(values.start, false),
+        end: vacationTime(values.end, true),
+        contactsOnly: values["contacts-only"] || false,
+        domainOnly: values["domain-only"] || false,
+      };
+      results = await eachAccount(accounts, (account) => gmailService.setVacation(account, settings));
+    } else if (action === "off") {
+      results = await eachAccount(accounts, (account) => gmailService.disableVacation(account));
+    } else {
+      exitWithCode(ExitCode.INVALID_INPUT, "Usage: mail settings vacation get|set|off [--accounts a,b|all]");
+    }
+    output.list(results, vacationColumns);
+    exitOnAccountFailures(results);
+    return;
+  }
+
+  if (area === "signature") {
+    const { values } = parseArgs({
+      args: args.slice(2),
+      options: {
+        body: COMPOSE_OPTIONS.body,
+        "body-file": COMPOSE_OPTIONS["body-file"],
+        html: COMPOSE_OPTIONS.html,
+        markdown: COMPOSE_OPTIONS.markdown,
+        from: COMPOSE_OPTIONS.from,
+        accounts: { type: "string" },
+      },
+    });
+    const accounts = targetAccounts(email, values.accounts);
+    let results: AccountResult<SendAs>[] = [];
+
+    if (action === "get") {
+      results = await eachAccount(accounts, (account) => gmailService.getSignature(account, values.from));
+    } else if (action === "set") {
+      const { body, html } = composeBody(values);
+      if (body === undefined) {
+        exitWithCode(
+          ExitCode.INVALID_INPUT,
+          "Usage: mail settings signature set --body <b>|--body-file F [--html|--markdown] [--from ADDRESS]"
+        );
+      }
+      // Gmail signatures are HTML; plain text keeps its line breaks
+      const signature = html ?? escapeHtml(body).replace(/\r?\n/g, "<br>");
+      results = await eachAccount(accounts, (account) => gmailService.setSignature(account, signature, values.from));
+    } else {
+      exitWithCode(ExitCode.INVALID_INPUT, "Usage: mail settings signature get|set [--from ADDRESS] [--accounts a,b|all]");
+    }
+    output.list(results, signatureColumns);
+    exitOnAccountFailures(results);
+    return;
+  }
+
+  if (area === "sendas" && action === "list") {
+    const { values } = parseArgs({ args: args.slice(2), options: { accounts: { type: "string" } } });
+    const results = await eachAccount(targetAccounts(email, values.accounts), async (account) => ({
+      sendAs: await gmailService.listSendAs(account),
+    }));
+    // One row per send-as address, or one for an account that failed
+    const rows: AccountResult<SendAs>[] = results.flatMap(({ sendAs, ...result }) =>
+      sendAs ? sendAs.map((s) => ({ ...result, ...s })) : [result]
+    );
+    output.list(rows, [
+      { header: "ACCOUNT", value: (s) => s.account },
+      { header: "EMAIL", value: (s) => s.email },
+      { header: "NAME", value: (s) => s.displayName },
+      { header: "DEFAULT", value: (s) => (s.isDefault ? "yes" : "") },
+      { header: "STATUS", value: (s) => (s.status === "failed" ? "failed" : s.isPrimary ? "primary" : s.verificationStatus) },
+      { header: "REPLY_TO", value: (s) => s.replyTo },
+      { header: "ERROR", value: (s) => s.error },
+    ]);
+    exitOnAccountFailures(results);
+    return;
+  }
+
+  exitWithCode(ExitCode.INVALID_INPUT, "Usage: mail settings vacation|signature|sendas ...");
+}
+
 async function handleMail(email: string, args: string[]): Promise<void> {
   const command = args[0];
 
@@ -159,22 +735,19 @@ async function handleMail(email: string, args: string[]): Promise<void> {
     }
     const { values } = parseArgs({
       args: args.slice(2),
-      options: { max: { type: "string" }, page: { type: "string" } },
+      options: { max: { type: "string" }, page: { type: "string" }, offline: { type: "boolean" } },
       allowPositionals: true,
     });
-    const result = await gmailService.searchThreads(
-      email,
-      query,
-      parseInt(values.max || "10"),
-      values.page
-    );
-    console.log("ID\tDATE\tFROM\tSUBJECT\tLABELS");
-    for (const t of result.threads) {
-      console.log(`${t.id}\t${formatDate(t.date)}\t${t.from}\t${t.subject}\t${t.labels.join(",")}`);
-    }
-    if (result.nextPageToken) {
-      console.log(`\n# Next page: --page ${result.nextPageToken}`);
-    }
+    const result = values.offline
+      ? { threads: mailCache.search(email, query, parseInt(values.max || "10")), nextPageToken: undefined }
+      : await gmailService.searchThreads(email, query, parseInt(values.max || "10"), values.page);
+    output.list<ThreadSummary>(result.threads, [
+      { header: "ID", value: (t) => t.id },
+      { header: "DATE", value: (t) => formatDate(t.date) },
+      { header: "FROM", value: (t) => t.from },
+      { header: "SUBJECT", value: (t) => t.subject },
+      { header: "LABELS", value: (t) => t.labels.join(",") },
+    ], result.nextPageToken);
     return;
   }
 
@@ -183,30 +756,130 @@ async function handleMail(email: string, args: string[]): Promise<void> {
     if (!threadId) {
       exitWithCode(ExitCode.INVALID_INPUT, "Missing thread ID");
     }
-    const thread = await gmailService.getThread(email, threadId);
-    console.log(`Thread: ${thread.id}\n`);
-    for (const msg of thread.messages) {
-      console.log(`--- Message ${msg.id} ---`);
-      console.log(`From: ${msg.from}`);
-      console.log(`To: ${msg.to}`);
-      console.log(`Date: ${msg.date}`);
-      console.log(`Subject: ${msg.subject}`);
-      console.log(`Labels: ${msg.labels.join(", ")}`);
-      if (msg.attachments.length > 0) {
-        console.log(`Attachments: ${msg.attachments.map((a) => a.filename).join(", ")}`);
+    const { values } = parseArgs({ args: args.slice(2), options: { offline: { type: "boolean" } } });
+    const thread = values.offline ? mailCache.getThread(email, threadId) : await gmailService.getThread(email, threadId);
+    output.item(thread, () => {
+      console.log(`Thread: ${thread.id}\n`);
+      for (const msg of thread.messages) {
+        console.log(`--- Message ${msg.id} ---`);
+        printMessage(msg);
       }
-      console.log(`\n${msg.body}\n`);
+    });
+    return;
+  }
+
+  if (command === "message") {
+    const { values, positionals } = parseArgs({
+      args: args.slice(1),
+      options: { raw: { type: "boolean" }, headers: { type: "boolean" }, save: { type: "string" } },
+      allowPositionals: true,
+    });
+    const messageId = positionals[0];
+    if (!messageId) {
+      exitWithCode(ExitCode.INVALID_INPUT, "Usage: mail message <messageId> [--raw|--headers] [--save FILE|DIR]");
+    }
+    if (values.raw && values.headers) {
+      exitWithCode(ExitCode.INVALID_INPUT, "Use either --raw or --headers");
+    }
+    const source = await gmailService.getMessageSource(email, messageId);
+
+    if (values.save) {
+      const file = saveMessageSource(values.save, source);
+      if (!values.raw && !values.headers) {
+        output.done(`Saved: ${file}`, { id: source.id, path: file, size: source.size });
+        return;
+      }
+      if (!output.structured) console.error(`Saved: ${file}`);
+    }
+    if (values.raw) {
+      process.stdout.write(source.raw);
+      return;
+    }
+    if (values.headers) {
+      output.list<RawHeader>(source.headers, [
+        { header: "NAME", value: (h) => h.name },
+        { header: "VALUE", value: (h) => h.value.replace(/\s+/g, " ") },
+      ]);
+      return;
+    }
+    const { id, threadId, labels, date, size, headerSize, headers } = source;
+    output.item(
+      { id, threadId, labels, receivedAt: date.toISOString(), size, headerSize, headers },
+      () => printMessageSource(source)
+    );
+    return;
+  }
+
+  if (command === "attachments") {
+    const { values, positionals } = parseArgs({
+      args: args.slice(1),
+      options: { out: { type: "string" }, match: { type: "string" } },
+      allowPositionals: true,
+    });
+    const id = positionals[0];
+    if (!id) {
+      exitWithCode(ExitCode.INVALID_INPUT, "Missing message or thread ID");
     }
+    const saved = await gmailService.downloadAttachments(email, id, { outDir: values.out, match: values.match });
+    output.list<SavedAttachment>(saved, [
+      { header: "MESSAGE_ID", value: (a) => a.messageId },
+      { header: "FILENAME", value: (a) => a.filename },
+      { header: "SIZE", value: (a) => formatSize(a.size) },
+      { header: "PATH", value: (a) => a.path },
+    ]);
     return;
   }
 
   if (command === "labels") {
-    if (args[1] === "list") {
+    const subCmd = args[1];
+    if (subCmd === "list") {
       const labels = await gmailService.listLabels(email);
-      console.log("ID\tNAME\tTYPE");
-      for (const l of labels) {
-        console.log(`${l.id}\t${l.name}\t${l.type}`);
+      output.list<Label>(labels, [
+        { header: "ID", value: (l) => l.id },
+        { header: "NAME", value: (l) => l.name },
+        { header: "TYPE", value: (l) => l.type },
+        { header: "COLOR", value: (l) => l.color && `${l.color.background}/${l.color.text}` },
+      ]);
+      return;
+    }
+    if (subCmd === "create" || subCmd === "color") {
+      const { values, positionals } = parseArgs({
+        args: args.slice(2),
+        options: { bg: { type: "string" }, text: { type: "string" } },
+        allowPositionals: true,
+      });
+      if (!positionals[0]) {
+        exitWithCode(ExitCode.INVALID_INPUT, `Usage: mail labels ${subCmd} <label> ${subCmd === "color" ? "--bg <#hex>" : "[--bg <#hex>]"} [--text <#hex>]`);
+      }
+      const color = labelColor(values.bg, values.text);
+      if (subCmd === "create") {
+        const label = await gmailService.createLabel(email, positionals[0], color);
+        output.done(`Created label ${label.name}`, { ...label });
+        return;
+      }
+      if (!color) {
+        exitWithCode(ExitCode.INVALID_INPUT, "Missing --bg color");
+      }
+      const label = await gmailService.setLabelColor(email, positionals[0], color);
+      output.done(`Set color of ${label.name}`, { ...label });
+      return;
+    }
+    if (subCmd === "rename") {
+      const [label, newName] = args.slice(2);
+      if (!label || !newName) {
+        exitWithCode(ExitCode.INVALID_INPUT, "Usage: mail labels rename <label> <newName>");
+      }
+      const renamed = await gmailService.renameLabel(email, label, newName);
+      output.done(`Renamed ${renamed.length} label${renamed.length === 1 ? "" : "s"}`, { labels: renamed });
+      return;
+    }
+    if (subCmd === "delete") {
+      const label = args[2];
+      if (!label) {
+        exitWithCode(ExitCode.INVALID_INPUT, "Usage: mail labels delete <label>");
       }
+      const deleted = await gmailService.deleteLabel(email, label);
+      output.done(`Deleted label ${deleted.name}`, { ...deleted });
       return;
     }
     // Modify labels on threads
@@ -218,10 +891,148 @@ async function handleMail(email: string, args: string[]): Promise<void> {
     if (positionals.length === 0) {
       exitWithCode(ExitCode.INVALID_INPUT, "Missing thread IDs");
     }
-    const addLabels = values.add?.split(",") || [];
-    const removeLabels = values.remove?.split(",") || [];
+    const addLabels = values.add?.split(",").map((l) => l.trim()).filter(Boolean) || [];
+    const removeLabels = values.remove?.split(",").map((l) => l.trim()).filter(Boolean) || [];
     await gmailService.modifyLabels(email, positionals, addLabels, removeLabels);
-    console.log("Labels modified");
+    output.done("Labels modified", { threadIds: positionals, added: addLabels, removed: removeLabels });
+    return;
+  }
+
+  if (command === "filters") {
+    const subCmd = args[1];
+    if (subCmd === "list") {
+      const filters = await gmailService.listFilters(email);
+      output.list<FilterSpec>(filters, [
+        { header: "ID", value: (f) => f.id },
+        { header: "CRITERIA", value: (f) => describeCriteria(f.criteria) },
+        { header: "ACTIONS", value: (f) => describeAction(f.action) },
+      ]);
+      return;
+    }
+    if (subCmd === "create") {
+      const { values } = parseArgs({
+        args: args.slice(2),
+        options: {
+          from: { type: "string" },
+          to: { type: "string" },
+          subject: { type: "string" },
+          query: { type: "string" },
+          "negated-query": { type: "string" },
+          "has-attachment": { type: "boolean" },
+          "exclude-chats": { type: "boolean" },
+          larger: { type: "string" },
+          smaller: { type: "string" },
+          "add-label": { type: "string", multiple: true },
+          "remove-label": { type: "string", multiple: true },
+          archive: { type: "boolean" },
+          "mark-read": { type: "boolean" },
+          star: { type: "boolean" },
+          trash: { type: "boolean" },
+          "never-spam": { type: "boolean" },
+          important: { type: "boolean" },
+          "never-important": { type: "boolean" },
+          forward: { type: "string" },
+          "create-labels": { type: "boolean" },
+        },
+      });
+      const [filter] = parseFilters(JSON.stringify([{
+        criteria: {
+          from: values.from,
+          to: values.to,
+          subject: values.subject,
+          query: values.query,
+          negatedQuery: values["negated-query"],
+          hasAttachment: values["has-attachment"],
+          excludeChats: values["exclude-chats"],
+          larger: byteSize(values.larger),
+          smaller: byteSize(values.smaller),
+        },
+        action: {
+          addLabels: values["add-label"],
+          removeLabels: values["remove-label"],
+          archive: values.archive,
+          markRead: values["mark-read"],
+          star: values.star,
+          trash: values.trash,
+          neverSpam: values["never-spam"],
+          important: values.important,
+          neverImportant: values["never-important"],
+          forward: values.forward,
+        },
+      }]), "json");
+      const filterId = await gmailService.createFilter(email, filter, { createLabels: values["create-labels"] });
+      output.done(`Filter created: ${filterId}`, { filterId });
+      return;
+    }
+    if (subCmd === "delete") {
+      const filterIds = args.slice(2);
+      if (filterIds.length === 0) {
+        exitWithCode(ExitCode.INVALID_INPUT, "Usage: mail filters delete <filterIds...>");
+      }
+      for (const filterId of filterIds) {
+        await gmailService.deleteFilter(email, filterId);
+      }
+      output.done(`Deleted ${filterIds.length} filter${filterIds.length === 1 ? "" : "s"}`, { filterIds });
+      return;
+    }
+    if (subCmd === "export") {
+      const { values } = parseArgs({
+        args: args.slice(2),
+        options: { as: { type: "string" }, out: { type: "string" } },
+      });
+      const format = filterFormat(values.as, values.out);
+      const text = formatFilters(await gmailService.listFilters(email), format);
+      if (!values.out) {
+        process.stdout.write(text);
+        return;
+      }
+      fs.writeFileSync(values.out, text);
+      output.done(`Filters exported to ${values.out}`, { path: values.out, format });
+      return;
+    }
+    if (subCmd === "import") {
+      const { values, positionals } = parseArgs({
+        args: args.slice(2),
+        options: {
+          as: { type: "string" },
+          accounts: { type: "string" },
+          "dry-run": { type: "boolean" },
+        },
+        allowPositionals: true,
+      });
+      const file = positionals[0];
+      if (!file) {
+        exitWithCode(ExitCode.INVALID_INPUT, "Usage: mail filters import <file> [--as json|yaml|xml] [--accounts a,b|all] [--dry-run]");
+      }
+      const filters = parseFilters(fs.readFileSync(file === "-" ? 0 : file, "utf8"), filterFormat(values.as, file));
+      const accounts = targetAccounts(email, values.accounts);
+
+      const results: (FilterImportResult & { account: string })[] = [];
+      for (const account of accounts) {
+        const imported = await gmailService.importFilters(account, filters, { dryRun: values["dry-run"] });
+        results.push(...imported.map((r) => ({ account, ...r })));
+      }
+      output.list(results, [
+        { header: "ACCOUNT", value: (r) => r.account },
+        { header: "N", value: (r) => r.index },
+        { header: "STATUS", value: (r) => r.status },
+        { header: "CRITERIA", value: (r) => describeCriteria(r.filter.criteria) },
+        { header: "ACTIONS", value: (r) => describeAction(r.filter.action) },
+        { header: "NEW_LABELS", value: (r) => r.newLabels.join(",") },
+        { header: "ID", value: (r) => r.id },
+        { header: "ERROR", value: (r) => r.error },
+      ]);
+      const failed = results.filter((r) => r.status === "failed").length;
+      if (failed > 0) {
+        exitWithCode(ExitCode.API_ERROR, `${failed} of ${results.length} filters failed`);
+      }
+      return;
+    }
+    exitWithCode(ExitCode.INVALID_INPUT, "Usage: mail filters list|create|delete|export|import");
+  }
+
+  if (command === "settings") {
+    await handleSettings(email, args.slice(1));
     return;
   }
 
@@ -229,10 +1040,10 @@ async function handleMail(email: string, args: string[]): Promise<void> {
     const subCmd = args[1];
     if (subCmd === "list") {
       const drafts = await gmailService.listDrafts(email);
-      console.log("ID\tMESSAGE_ID");
-      for (const d of drafts) {
-        console.log(`${d.id}\t${d.messageId || ""}`);
-      }
+      output.list<Draft>(drafts, [
+        { header: "ID", value: (d) => d.id },
+        { header: "MESSAGE_ID", value: (d) => d.messageId },
+      ]);
       return;
     }
     if (subCmd === "delete") {
@@ -241,7 +1052,7 @@ async function handleMail(email: string, args: string[]): Promise<void> {
         exitWithCode(ExitCode.INVALID_INPUT, "Missing draft ID");
       }
       await gmailService.deleteDraft(email, draftId);
-      console.log("Draft deleted");
+      output.done("Draft deleted", { draftId });
       return;
     }
     if (subCmd === "send") {
@@ -250,7 +1061,67 @@ async function handleMail(email: string, args: string[]): Promise<void> {
         exitWithCode(ExitCode.INVALID_INPUT, "Missing draft ID");
       }
       const messageId = await gmailService.sendDraft(email, draftId);
-      console.log(`Sent: ${messageId}`);
+      output.done(`Sent: ${messageId}`, { messageId });
+      return;
+    }
+    if (subCmd === "show") {
+      const draftId = args[2];
+      if (!draftId) {
+        exitWithCode(ExitCode.INVALID_INPUT, "Missing draft ID");
+      }
+      const draft = await gmailService.showDraft(email, draftId);
+      output.item(draft, () => {
+        console.log(`Draft: ${draft.id}${draft.threadId ? ` (thread ${draft.threadId})` : ""}\n`);
+        printMessage(draft.message);
+      });
+      return;
+    }
+    if (subCmd === "create") {
+      const { values } = parseArgs({
+        args: args.slice(2),
+        options: { ...COMPOSE_OPTIONS, "reply-to": { type: "string" } },
+        allowPositionals: true,
+      });
+      if (!values.to || !values.subject) {
+        exitWithCode(ExitCode.INVALID_INPUT, "--to and --subject are required");
+      }
+      const { body, html } = composeBody(values);
+      const draftId = await gmailService.createDraft(email, addressList(values.to)!, values.subject, body || "", {
+        from: values.from,
+        cc: addressList(values.cc),
+        bcc: addressList(values.bcc),
+        html,
+        inline: values.inline,
+        attachments: values.attach,
+        replyToMessageId: values["reply-to"],
+      });
+      output.done(`Draft created: ${draftId}`, { draftId });
+      return;
+    }
+    if (subCmd === "update") {
+      const { values, positionals } = parseArgs({
+        args: args.slice(2),
+        options: { ...COMPOSE_OPTIONS, "clear-attachments": { type: "boolean" } },
+        allowPositionals: true,
+      });
+      const draftId = positionals[0];
+      if (!draftId) {
+        exitWithCode(ExitCode.INVALID_INPUT, "Missing draft ID");
+      }
+      const { body, html } = composeBody(values);
+      const updatedId = await gmailService.updateDraft(email, draftId, {
+        from: values.from,
+        to: addressList(values.to),
+        cc: addressList(values.cc),
+        bcc: addressList(values.bcc),
+        subject: values.subject,
+        body,
+        html,
+        inline: values.inline,
+        attachments: values.attach,
+        clearAttachments: values["clear-attachments"],
+      });
+      output.done(`Draft updated: ${updatedId}`, { draftId: updatedId });
       return;
     }
     exitWithCode(ExitCode.INVALID_INPUT, `Unknown drafts command: ${subCmd}`);
@@ -258,34 +1129,330 @@ async function handleMail(email: string, args: string[]): Promise<void> {
 
   if (command === "send") {
     const { values } = parseArgs({
+      args: args.slice(1),
+      options: { ...COMPOSE_OPTIONS, "reply-to": { type: "string" }, at: { type: "string" } },
+      allowPositionals: true,
+    });
+    const { body, html } = composeBody(values);
+    if (!values.to || !values.subject || body === undefined) {
+      exitWithCode(ExitCode.INVALID_INPUT, "--to, --subject, and --body (or --body-file) are required");
+    }
+    const sendOptions = {
+      from: values.from,
+      cc: addressList(values.cc),
+      bcc: addressList(values.bcc),
+      html,
+      inline: values.inline,
+      attachments: values.attach,
+      replyToMessageId: values["reply-to"],
+    };
+    if (values.at !== undefined) {
+      const at = sendTime(values.at);
+      const entry = await sendQueue.add(
+        email,
+        { to: addressList(values.to)!, subject: values.subject, body, options: sendOptions },
+        at
+      );
+      output.done(`Queued: ${entry.id} for ${formatDate(entry.at)} UTC. Send it with "mail queue run"`, {
+        id: entry.id,
+        at: entry.at,
+      });
+      return;
+    }
+    const messageId = await gmailService.sendMessage(email, addressList(values.to)!, values.subject, body, sendOptions);
+    output.done(`Sent: ${messageId}`, { messageId });
+    return;
+  }
+
+  if (command === "queue") {
+    const subCmd = args[1];
+    if (subCmd === "list") {
+      output.list(sendQueue.list(email), queueColumns);
+      return;
+    }
+    if (subCmd === "cancel") {
+      const ids = args.slice(2);
+      if (ids.length === 0) {
+        exitWithCode(ExitCode.INVALID_INPUT, "Usage: mail queue cancel <ids...>");
+      }
+      for (const id of ids) await sendQueue.cancel(email, id);
+      output.done(`Cancelled ${ids.length} message${ids.length === 1 ? "" : "s"}`, { ids });
+      return;
+    }
+    if (subCmd === "run") {
+      const { values } = parseArgs({ args: args.slice(2), options: { accounts: { type: "string" } } });
+      const results: QueueEntry[] = [];
+      for (const account of targetAccounts(email, values.accounts)) {
+        results.push(...(await sendQueue.run(account)));
+      }
+      output.list(results, [{ header: "ACCOUNT", value: (q) => q.account }, ...queueColumns]);
+      const failed = results.filter((r) => r.status !== "sent").length;
+      if (failed > 0) {
+        exitWithCode(ExitCode.API_ERROR, `${failed} of ${results.length} queued messages were not sent`);
+      }
+      return;
+    }
+    exitWithCode(ExitCode.INVALID_INPUT, "Usage: mail queue list|cancel|run");
+  }
+
+  if (command === "changes") {
+    const { values } = parseArgs({
+      args: args.slice(1),
+      options: { since: { type: "string" }, reset: { type: "boolean" } },
+    });
+    const result = await mailChanges.changes(email, { since: values.since, reset: values.reset });
+    output.item(result, () => {
+      if (!result.from) {
+        console.log(`Checkpoint set at history ID ${result.historyId}. Run again to see changes after it.`);
+        return;
+      }
+      output.list<MailChange>(result.changes, [
+        { header: "HISTORY_ID", value: (c) => c.historyId },
+        { header: "TYPE", value: (c) => c.type },
+        { header: "MESSAGE_ID", value: (c) => c.messageId },
+        { header: "THREAD_ID", value: (c) => c.threadId },
+        { header: "LABELS", value: (c) => c.labels.join(",") },
+      ]);
+      console.error(`# History ID: ${result.historyId}${result.checkpointSet ? " (checkpoint saved)" : ""}`);
+    });
+    return;
+  }
+
+  if (command === "watch") {
+    const { values } = parseArgs({
+      args: args.slice(1),
+      options: { interval: { type: "string", default: "60" }, label: { type: "string" } },
+    });
+    const interval = Number(values.interval);
+    if (!(interval > 0)) {
+      exitWithCode(ExitCode.INVALID_INPUT, "--interval must be a positive number of seconds");
+    }
+    // Ctrl-C ends the loop after the current poll; the checkpoint is already saved
+    const stop = new AbortController();
+    process.once("SIGINT", () => stop.abort());
+    process.once("SIGTERM", () => stop.abort());
+    await mailChanges.watch(email, {
+      intervalMs: interval * 1000,
+      label: values.label,
+      signal: stop.signal,
+      onEvent: (event) => console.log(JSON.stringify(event)),
+    });
+    return;
+  }
+
+  if (command === "sync") {
+    const { values } = parseArgs({
+      args: args.slice(1),
+      options: { query: { type: "string" }, max: { type: "string" }, full: { type: "boolean" } },
+    });
+    const max = values.max === undefined ? undefined : Number(values.max);
+    if (max !== undefined && !(Number.isInteger(max) && max > 0)) {
+      exitWithCode(ExitCode.INVALID_INPUT, "--max must be a positive whole number");
+    }
+    const result = await mailCache.sync(email, {
+      query: values.query,
+      maxMessages: max,
+      full: values.full,
+      onProgress: (p) => {
+        if (!output.structured) console.error(`Cached ${p.added} messages`);
+      },
+    });
+    output.done(
+      `${result.rebuilt ? "History had expired; rebuilt the cache. " : ""}` +
+        `${result.added} added, ${result.removed} removed, ${result.updated} updated; ${result.messages} messages cached`,
+      { ...result }
+    );
+    return;
+  }
+
+  if (command === "export") {
+    const { values, positionals } = parseArgs({
       args: args.slice(1),
       options: {
-        to: { type: "string" },
-        subject: { type: "string" },
-        body: { type: "string" },
-        cc: { type: "string" },
-        bcc: { type: "string" },
-        attach: { type: "string", multiple: true },
-        "reply-to": { type: "string" },
+        as: { type: "string", default: "mbox" },
+        out: { type: "string" },
+        max: { type: "string" },
       },
       allowPositionals: true,
     });
-    if (!values.to || !values.subject || !values.body) {
-      exitWithCode(ExitCode.INVALID_INPUT, "--to, --subject, and --body are required");
+    const query = positionals.join(" ");
+    if (!values.out) {
+      exitWithCode(ExitCode.INVALID_INPUT, "Usage: mail export <query> --out <file.mbox|dir> [--as mbox|eml]");
     }
-    const messageId = await gmailService.sendMessage(
-      email,
-      values.to.split(","),
-      values.subject,
-      values.body,
-      {
-        cc: values.cc?.split(","),
-        bcc: values.bcc?.split(","),
-        attachments: values.attach,
-        replyToMessageId: values["reply-to"],
-      }
+    if (!(EXPORT_FORMATS as readonly string[]).includes(values.as)) {
+      exitWithCode(ExitCode.INVALID_INPUT, `Invalid format: ${values.as}. Use: ${EXPORT_FORMATS.join(", ")}`);
+    }
+    const max = values.max === undefined ? undefined : Number(values.max);
+    if (max !== undefined && !(Number.isInteger(max) && max > 0)) {
+      exitWithCode(ExitCode.INVALID_INPUT, "--max must be a positive whole number");
+    }
+    const result = await mailExport.run(email, query, {
+      format: values.as as ExportFormat,
+      out: values.out,
+      maxMessages: max,
+      onProgress: (p) => {
+        if (!output.structured) console.error(`Exported ${p.exported} (${p.skipped} already done)`);
+      },
+    });
+    output.done(
+      `Exported ${result.exported} messages to ${result.path}${result.skipped ? ` (${result.skipped} already exported)` : ""}`,
+      { ...result }
     );
-    console.log(`Sent: ${messageId}`);
+    return;
+  }
+
+  if (command === "unsubscribe") {
+    const { values, positionals } = parseArgs({
+      args: args.slice(1),
+      options: {
+        "dry-run": { type: "boolean" },
+        max: { type: "string" },
+        archive: { type: "boolean" },
+        label: { type: "string" },
+      },
+      allowPositionals: true,
+    });
+    const query = positionals.join(" ");
+    if (!query) {
+      exitWithCode(ExitCode.INVALID_INPUT, "Usage: mail unsubscribe <query> [--dry-run] [--archive] [--label L] [--max N]");
+    }
+    const max = values.max === undefined ? undefined : Number(values.max);
+    if (max !== undefined && !(Number.isInteger(max) && max > 0)) {
+      exitWithCode(ExitCode.INVALID_INPUT, "--max must be a positive whole number");
+    }
+    const subscriptions = await mailUnsubscribe.scan(email, query, max);
+    const results = await mailUnsubscribe.run(email, subscriptions, {
+      dryRun: values["dry-run"],
+      archive: values.archive,
+      label: values.label,
+    });
+    output.list<UnsubscribeResult>(results, [
+      { header: "SENDER", value: (r) => r.sender },
+      { header: "MESSAGES", value: (r) => r.messages },
+      { header: "METHOD", value: (r) => r.method },
+      { header: "STATUS", value: (r) => r.status },
+      {
+        header: "DETAIL",
+        value: (r) => r.error || (r.method === "mailto" ? `mailto:${r.mailto!.to.join(",")}` : r.oneClick || r.url),
+      },
+    ]);
+    const failed = results.filter((r) => r.status === "failed").length;
+    if (failed > 0) {
+      exitWithCode(ExitCode.API_ERROR, `${failed} of ${results.length} senders could not be unsubscribed`);
+    }
+    return;
+  }
+
+  if (command === "merge") {
+    const { values } = parseArgs({
+      args: args.slice(1),
+      options: {
+        template: { type: "string" },
+        data: { type: "string" },
+        html: { type: "boolean" },
+        markdown: { type: "boolean" },
+        draft: { type: "boolean" },
+        "dry-run": { type: "boolean" },
+        delay: { type: "string" },
+        log: { type: "string" },
+      },
+      allowPositionals: true,
+    });
+    if (!values.template || !values.data) {
+      exitWithCode(ExitCode.INVALID_INPUT, "Usage: mail merge --template <file> --data <csv|json>");
+    }
+    if (values.html && values.markdown) {
+      exitWithCode(ExitCode.INVALID_INPUT, "Use either --html or --markdown");
+    }
+    const delayMs = values.delay === undefined ? 1000 : Number(values.delay);
+    if (!Number.isInteger(delayMs) || delayMs < 0) {
+      exitWithCode(ExitCode.INVALID_INPUT, "--delay must be a whole number of milliseconds");
+    }
+    const template = loadTemplate(values.template, values.html ? "html" : values.markdown ? "markdown" : "text");
+    const planned = mailMerge.plan(template, loadRows(values.data));
+    const results = await mailMerge.run(email, planned, {
+      draft: values.draft,
+      dryRun: values["dry-run"],
+      delayMs,
+      logFile: values.log,
+      onResult: (r) => {
+        if (!output.structured) console.error(`[${r.row}/${planned.length}] ${r.status} ${r.to}${r.error ? `: ${r.error}` : ""}`);
+      },
+    });
+    output.list<MergeResult>(results, [
+      { header: "ROW", value: (r) => r.row },
+      { header: "TO", value: (r) => r.to },
+      { header: "SUBJECT", value: (r) => r.subject },
+      { header: "STATUS", value: (r) => r.status },
+      { header: "ID", value: (r) => r.id },
+      { header: "ERROR", value: (r) => r.error },
+    ]);
+    const failed = results.filter((r) => r.status === "failed").length;
+    if (failed > 0) {
+      exitWithCode(ExitCode.API_ERROR, `${failed} of ${results.length} rows failed`);
+    }
+    return;
+  }
+
+  if (command === "reply") {
+    const { values, positionals } = parseArgs({
+      args: args.slice(1),
+      options: {
+        body: COMPOSE_OPTIONS.body,
+        "body-file": COMPOSE_OPTIONS["body-file"],
+        from: COMPOSE_OPTIONS.from,
+        cc: COMPOSE_OPTIONS.cc,
+        bcc: COMPOSE_OPTIONS.bcc,
+        attach: COMPOSE_OPTIONS.attach,
+        all: { type: "boolean" },
+        draft: { type: "boolean" },
+      },
+      allowPositionals: true,
+    });
+    const messageId = positionals[0];
+    const { body } = composeBody(values);
+    if (!messageId || body === undefined) {
+      exitWithCode(ExitCode.INVALID_INPUT, "Usage: mail reply <messageId> --body <b> [--all]");
+    }
+    const id = await gmailService.reply(email, messageId, body, {
+      all: values.all,
+      from: values.from,
+      cc: addressList(values.cc),
+      bcc: addressList(values.bcc),
+      attachments: values.attach,
+      draft: values.draft,
+    });
+    output.done(values.draft ? `Draft created: ${id}` : `Sent: ${id}`, values.draft ? { draftId: id } : { messageId: id });
+    return;
+  }
+
+  if (command === "forward") {
+    const { values, positionals } = parseArgs({
+      args: args.slice(1),
+      options: {
+        to: COMPOSE_OPTIONS.to,
+        body: COMPOSE_OPTIONS.body,
+        "body-file": COMPOSE_OPTIONS["body-file"],
+        from: COMPOSE_OPTIONS.from,
+        cc: COMPOSE_OPTIONS.cc,
+        bcc: COMPOSE_OPTIONS.bcc,
+        attach: COMPOSE_OPTIONS.attach,
+        draft: { type: "boolean" },
+      },
+      allowPositionals: true,
+    });
+    const messageId = positionals[0];
+    if (!messageId || !values.to) {
+      exitWithCode(ExitCode.INVALID_INPUT, "Usage: mail forward <messageId> --to <emails> [--body <note>]");
+    }
+    const id = await gmailService.forward(email, messageId, addressList(values.to)!, composeBody(values).body, {
+      from: values.from,
+      cc: addressList(values.cc),
+      bcc: addressList(values.bcc),
+      attachments: values.attach,
+      draft: values.draft,
+    });
+    output.done(values.draft ? `Draft created: ${id}` : `Sent: ${id}`, values.draft ? { draftId: id } : { messageId: id });
     return;
   }
 
@@ -294,9 +1461,8 @@ async function handleMail(email: string, args: string[]): Promise<void> {
     if (threadIds.length === 0) {
       exitWithCode(ExitCode.INVALID_INPUT, "Missing thread IDs");
     }
-    for (const id of threadIds) {
-      console.log(gmailService.getThreadUrl(email, id));
-    }
+    const urls = threadIds.map((id) => ({ id, url: gmailService.getThreadUrl(email, id) }));
+    output.item(urls, () => urls.forEach((u) => console.log(u.url)));
     return;
   }
 
@@ -308,20 +1474,22 @@ async function handleCal(email: string, args: string[]): Promise<void> {
 
   if (command === "calendars") {
     const calendars = await calendarService.listCalendars(email);
-    console.log("ID\tNAME\tROLE");
-    for (const c of calendars) {
-      console.log(`${c.id}\t${c.name}\t${c.role}`);
-    }
+    output.list<CalendarInfo>(calendars, [
+      { header: "ID", value: (c) => c.id },
+      { header: "NAME", value: (c) => c.name },
+      { header: "ROLE", value: (c) => c.role },
+    ]);
     return;
   }
 
   if (command === "acl") {
     const calendarId = args[1] || "primary";
     const acl = await calendarService.getCalendarAcl(email, calendarId);
-    console.log("ID\tROLE\tSCOPE");
-    for (const a of acl) {
-      console.log(`${a.id}\t${a.role}\t${a.scope.type}:${a.scope.value || ""}`);
-    }
+    output.list<AclEntry>(acl, [
+      { header: "ID", value: (a) => a.id },
+      { header: "ROLE", value: (a) => a.role },
+      { header: "SCOPE", value: (a) => `${a.scope.type}:${a.scope.value || ""}` },
+    ]);
     return;
   }
 
@@ -345,13 +1513,12 @@ async function handleCal(email: string, args: string[]): Promise<void> {
       timeMax: values.to,
       query: values.q,
     });
-    console.log("ID\tSTART\tEND\tSUMMARY");
-    for (const e of result.events) {
-      console.log(`${e.id}\t${e.start}\t${e.end}\t${e.summary}`);
-    }
-    if (result.nextPageToken) {
-      console.log(`\n# Next page: --page ${result.nextPageToken}`);
-    }
+    output.list<EventInfo>(result.events, [
+      { header: "ID", value: (e) => e.id },
+      { header: "START", value: (e) => e.start },
+      { header: "END", value: (e) => e.end },
+      { header: "SUMMARY", value: (e) => e.summary },
+    ], result.nextPageToken);
     return;
   }
 
@@ -362,16 +1529,18 @@ async function handleCal(email: string, args: string[]): Promise<void> {
       exitWithCode(ExitCode.INVALID_INPUT, "Missing calendar ID or event ID");
     }
     const event = await calendarService.getEvent(email, calendarId, eventId);
-    console.log(`ID: ${event.id}`);
-    console.log(`Summary: ${event.summary}`);
-    console.log(`Start: ${event.start}`);
-    console.log(`End: ${event.end}`);
-    if (event.location) console.log(`Location: ${event.location}`);
-    if (event.description) console.log(`Description: ${event.description}`);
-    if (event.attendees) {
-      console.log(`Attendees: ${event.attendees.map((a) => `${a.email} (${a.responseStatus})`).join(", ")}`);
-    }
-    if (event.htmlLink) console.log(`Link: ${event.htmlLink}`);
+    output.item(event, () => {
+      console.log(`ID: ${event.id}`);
+      console.log(`Summary: ${event.summary}`);
+      console.log(`Start: ${event.start}`);
+      console.log(`End: ${event.end}`);
+      if (event.location) console.log(`Location: ${event.location}`);
+      if (event.description) console.log(`Description: ${event.description}`);
+      if (event.attendees) {
+        console.log(`Attendees: ${event.attendees.map((a) => `${a.email} (${a.responseStatus})`).join(", ")}`);
+      }
+      if (event.htmlLink) console.log(`Link: ${event.htmlLink}`);
+    });
     return;
   }
 
@@ -405,8 +1574,10 @@ async function handleCal(email: string, args: string[]): Promise<void> {
       attendees: values.attendees?.split(","),
       allDay: values.allday,
     });
-    console.log(`Created: ${event.id}`);
-    if (event.htmlLink) console.log(`Link: ${event.htmlLink}`);
+    output.item(event, () => {
+      console.log(`Created: ${event.id}`);
+      if (event.htmlLink) console.log(`Link: ${event.htmlLink}`);
+    });
     return;
   }
 
@@ -438,7 +1609,7 @@ async function handleCal(email: string, args: string[]): Promise<void> {
       attendees: values.attendees?.split(","),
       allDay: values.allday,
     });
-    console.log(`Updated: ${event.id}`);
+    output.item(event, () => console.log(`Updated: ${event.id}`));
     return;
   }
 
@@ -449,7 +1620,7 @@ async function handleCal(email: string, args: string[]): Promise<void> {
       exitWithCode(ExitCode.INVALID_INPUT, "Missing calendar ID or event ID");
     }
     await calendarService.deleteEvent(email, calendarId, eventId);
-    console.log("Event deleted");
+    output.done("Event deleted", { calendarId, eventId });
     return;
   }
 
@@ -463,16 +1634,18 @@ async function handleCal(email: string, args: string[]): Promise<void> {
       exitWithCode(ExitCode.INVALID_INPUT, "Calendar IDs and --start, --end are required");
     }
     const result = await calendarService.getFreeBusy(email, positionals, values.start, values.end);
-    for (const [calId, busy] of result) {
-      console.log(`\n${calId}:`);
-      if (busy.length === 0) {
-        console.log("  Free");
-      } else {
-        for (const b of busy) {
-          console.log(`  Busy: ${b.start} - ${b.end}`);
+    output.item(Object.fromEntries(result), () => {
+      for (const [calId, busy] of result) {
+        console.log(`\n${calId}:`);
+        if (busy.length === 0) {
+          console.log("  Free");
+        } else {
+          for (const b of busy) {
+            console.log(`  Busy: ${b.start} - ${b.end}`);
+          }
         }
       }
-    }
+    });
     return;
   }
 
@@ -499,14 +1672,7 @@ async function handleDrive(email: string, args: string[]): Promise<void> {
       pageToken: values.page,
       query: values.query,
     });
-    console.log("ID\tNAME\tTYPE\tSIZE\tMODIFIED");
-    for (const f of result.files) {
-      const type = f.mimeType.includes("folder") ? "folder" : "file";
-      console.log(`${f.id}\t${f.name}\t${type}\t${formatSize(f.size)}\t${formatDate(f.modifiedTime)}`);
-    }
-    if (result.nextPageToken) {
-      console.log(`\n# Next page: --page ${result.nextPageToken}`);
-    }
+    output.list(result.files, fileColumns, result.nextPageToken);
     return;
   }
 
@@ -526,14 +1692,7 @@ async function handleDrive(email: string, args: string[]): Promise<void> {
       parseInt(values.max || "20"),
       values.page
     );
-    console.log("ID\tNAME\tTYPE\tSIZE\tMODIFIED");
-    for (const f of result.files) {
-      const type = f.mimeType.includes("folder") ? "folder" : "file";
-      console.log(`${f.id}\t${f.name}\t${type}\t${formatSize(f.size)}\t${formatDate(f.modifiedTime)}`);
-    }
-    if (result.nextPageToken) {
-      console.log(`\n# Next page: --page ${result.nextPageToken}`);
-    }
+    output.list(result.files, fileColumns, result.nextPageToken);
     return;
   }
 
@@ -543,13 +1702,15 @@ async function handleDrive(email: string, args: string[]): Promise<void> {
       exitWithCode(ExitCode.INVALID_INPUT, "Missing file ID");
     }
     const file = await driveService.getFile(email, fileId);
-    console.log(`ID: ${file.id}`);
-    console.log(`Name: ${file.name}`);
-    console.log(`Type: ${file.mimeType}`);
-    console.log(`Size: ${formatSize(file.size)}`);
-    console.log(`Modified: ${file.modifiedTime}`);
-    if (file.description) console.log(`Description: ${file.description}`);
-    if (file.webViewLink) console.log(`Link: ${file.webViewLink}`);
+    output.item(file, () => {
+      console.log(`ID: ${file.id}`);
+      console.log(`Name: ${file.name}`);
+      console.log(`Type: ${file.mimeType}`);
+      console.log(`Size: ${formatSize(file.size)}`);
+      console.log(`Modified: ${file.modifiedTime}`);
+      if (file.description) console.log(`Description: ${file.description}`);
+      if (file.webViewLink) console.log(`Link: ${file.webViewLink}`);
+    });
     return;
   }
 
@@ -561,7 +1722,7 @@ async function handleDrive(email: string, args: string[]): Promise<void> {
     }
     const result = await driveService.download(email, fileId, destPath);
     if (result.success) {
-      console.log(`Downloaded: ${result.path} (${formatSize(result.size || 0)})`);
+      output.item(result, () => console.log(`Downloaded: ${result.path} (${formatSize(result.size || 0)})`));
     } else {
       exitWithCode(ExitCode.API_ERROR, result.error);
     }
@@ -574,10 +1735,12 @@ async function handleDrive(email: string, args: string[]): Promise<void> {
       exitWithCode(ExitCode.INVALID_INPUT, "Missing file ID");
     }
     const permissions = await driveService.listPermissions(email, fileId);
-    console.log("ID\tTYPE\tROLE\tEMAIL");
-    for (const p of permissions) {
-      console.log(`${p.id}\t${p.type}\t${p.role}\t${p.email || ""}`);
-    }
+    output.list<Permission>(permissions, [
+      { header: "ID", value: (p) => p.id },
+      { header: "TYPE", value: (p) => p.type },
+      { header: "ROLE", value: (p) => p.role },
+      { header: "EMAIL", value: (p) => p.email },
+    ]);
     return;
   }
 
@@ -586,27 +1749,25 @@ async function handleDrive(email: string, args: string[]): Promise<void> {
     if (fileIds.length === 0) {
       exitWithCode(ExitCode.INVALID_INPUT, "Missing file IDs");
     }
-    for (const id of fileIds) {
-      console.log(driveService.getFileUrl(id));
-    }
+    const urls = fileIds.map((id) => ({ id, url: driveService.getFileUrl(id) }));
+    output.item(urls, () => urls.forEach((u) => console.log(u.url)));
     return;
   }
 
   exitWithCode(ExitCode.INVALID_INPUT, `Unknown drive command: ${command}`);
 }
 
-const JGOOGLE_DIR = path.join(os.homedir(), ".jgoogle");
-
 function ensureReadme(): void {
   try {
-    const readmeDest = path.join(JGOOGLE_DIR, "README.md");
+    const configDir = accountStorage.getConfigDir();
+    const readmeDest = path.join(configDir, "README.md");
     if (fs.existsSync(readmeDest)) return;
 
-    if (!fs.existsSync(JGOOGLE_DIR)) {
-      fs.mkdirSync(JGOOGLE_DIR, { recursive: true });
+    if (!fs.existsSync(configDir)) {
+      fs.mkdirSync(configDir, { recursive: true });
     }
 
-    const packageRoot = path.resolve(__dirname, "..");
+    const packageRoot = path.resolve(path.dirname(fileURLToPath(import.meta.url)), "..");
     const readmeSrc = path.join(packageRoot, "README.md");
 
     if (fs.existsSync(readmeSrc)) {
@@ -617,7 +1778,7 @@ function ensureReadme(): void {
 
 async function main(): Promise<void> {
   ensureReadme();
-  const args = process.argv.slice(2);
+  const args = extractGlobalOptions(process.argv.slice(2));
 
   if (args.length === 0 || args[0] === "--help" || args[0] === "-h") {
     usage();
@@ -631,17 +1792,22 @@ async function main(): Promise<void> {
       return;
     }
 
-    // Service commands: jgoogle <email> <service> <command>
-    const email = args[0];
-    const service = args[1];
-    const serviceArgs = args.slice(2);
+    // Service commands: jgoogle [email|alias] <service> <command>
+    const explicitAccount = SERVICES.includes(args[0]) ? undefined : args[0];
+    const rest = explicitAccount === undefined ? args : args.slice(1);
+    const service = rest[0];
+    const serviceArgs = rest.slice(1);
 
-    if (!email.includes("@")) {
-      exitWithCode(ExitCode.INVALID_INPUT, `Invalid email address: ${email}`);
-    }
-
-    if (!accountStorage.hasAccount(email)) {
-      exitWithCode(ExitCode.NOT_FOUND, `Account '${email}' not found. Run: jgoogle accounts add ${email}`);
+    const email = accountStorage.resolveAccount(explicitAccount);
+    if (!email) {
+      const target = explicitAccount || process.env["JGOOGLE_ACCOUNT"] || accountStorage.getDefaultAccount();
+      if (!target) {
+        exitWithCode(ExitCode.INVALID_INPUT, "No account given and no default set. Run: jgoogle accounts default <email>");
+      }
+      if (target.includes("@")) {
+        exitWithCode(ExitCode.NOT_FOUND, `Account '${target}' not found. Run: jgoogle accounts add ${target}`);
+      }
+      exitWithCode(ExitCode.NOT_FOUND, `Unknown account or alias '${target}'. Run: jgoogle accounts list`);
     }
 
     if (service === "mail") {
@@ -654,8 +1820,7 @@ async function main(): Promise<void> {
       exitWithCode(ExitCode.INVALID_INPUT, `Unknown service: ${service}. Use: mail, cal, or drive`);
     }
   } catch (e) {
-    const msg = e instanceof Error ? e.message : String(e);
-    exitWithCode(ExitCode.API_ERROR, msg);
+    exitWithError(e);
   }
 }
 
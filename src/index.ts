@@ -0,0 +1,126 @@
+// ABOUTME: Programmatic library entry point for jgoogle
+// ABOUTME: Exports services, account storage and types without CLI side effects
+
+import { AccountStorage, type AccountStorageOptions } from "./account-storage.js";
+import { GmailService } from "./services/gmail.js";
+import { CalendarService } from "./services/calendar.js";
+import { DriveService } from "./services/drive.js";
+import type { ServiceOptions } from "./services/service-options.js";
+
+export { AccountStorage, GmailService, CalendarService, DriveService };
+export { AccountStorageError } from "./account-storage.js";
+export { AuthClients } from "./auth-client.js";
+export { DEFAULT_SCOPES, MissingScopeError, SCOPES } from "./scopes.js";
+export { OAuthFlow } from "./oauth-flow.js";
+export { CliError, ExitCode, ErrorMessages, classifyError } from "./utils/errors.js";
+export { withRetry, isRetryable } from "./utils/retry.js";
+export { MailCache } from "./services/mail-cache.js";
+export { MailChanges } from "./services/mail-changes.js";
+export { MailExport } from "./services/mail-export.js";
+export { MailMerge, loadRows, loadTemplate } from "./services/mail-merge.js";
+export { MailUnsubscribe } from "./services/mail-unsubscribe.js";
+export { SendQueue } from "./services/send-queue.js";
+export { formatFilters, parseFilters } from "./utils/filters.js";
+export { parseListUnsubscribe } from "./utils/unsubscribe.js";
+
+export type {
+  AccountStorageOptions,
+  ClientCredentials,
+  EmailAccount,
+  OAuth2Credentials,
+} from "./account-storage.js";
+export type { ServiceOptions } from "./services/service-options.js";
+export type { AuthClientsOptions } from "./auth-client.js";
+export type { ScopeName } from "./scopes.js";
+export type { Authorization, AuthorizeOptions } from "./oauth-flow.js";
+export type { ClassifiedError, ErrorCode, ExitCodeType } from "./utils/errors.js";
+export type { RetryOptions, CallOptions } from "./utils/retry.js";
+export type {
+  Attachment,
+  AttachmentDownloadOptions,
+  Draft,
+  DraftChanges,
+  FilterCreateOptions,
+  FilterImportOptions,
+  FilterImportResult,
+  DraftDetail,
+  ForwardOptions,
+  FullMessage,
+  InlinePart,
+  Label,
+  LabelColor,
+  MailChange,
+  MessageDetail,
+  MessageHeaders,
+  MessageSource,
+  MessageSummary,
+  RawMessage,
+  ReplyOptions,
+  SavedAttachment,
+  SendAs,
+  SendOptions,
+  ThreadDetail,
+  ThreadSummary,
+  VacationSettings,
+} from "./services/gmail.js";
+export type { SyncOptions, SyncProgress, SyncResult } from "./services/mail-cache.js";
+export type { ChangesOptions, ChangesResult, NewMessageEvent, PollOptions, WatchOptions } from "./services/mail-changes.js";
+export type { ExportFormat, ExportOptions, ExportProgress, ExportResult } from "./services/mail-export.js";
+export type { QueueEntry, QueueStatus, QueuedMessage, RunOptions } from "./services/send-queue.js";
+export type {
+  Subscription,
+  UnsubscribeMethod,
+  UnsubscribeResult,
+  UnsubscribeRunOptions,
+} from "./services/mail-unsubscribe.js";
+export type { MailtoUnsubscribe, UnsubscribeOptions } from "./utils/unsubscribe.js";
+export type { FilterAction, FilterCriteria, FilterFormat, FilterSpec } from "./utils/filters.js";
+export type { RawHeader } from "./utils/mime.js";
+export type {
+  MergeOptions,
+  MergeResult,
+  MergeRow,
+  MergeTemplate,
+  PlannedMessage,
+} from "./services/mail-merge.js";
+export type {
+  AclEntry,
+  BusyPeriod,
+  CalendarInfo,
+  CreateEventInput,
+  EventInfo,
+  EventListOptions,
+  UpdateEventInput,
+} from "./services/calendar.js";
+export type {
+  DownloadResult,
+  FileInfo,
+  ListOptions,
+  Permission,
+  ShareOptions,
+  ShareResult,
+  UploadOptions,
+} from "./services/drive.js";
+
+export interface JGoogle {
+  accounts: AccountStorage;
+  gmail: GmailService;
+  calendar: CalendarService;
+  drive: DriveService;
+}
+
+export type JGoogleOptions = AccountStorageOptions & ServiceOptions;
+
+// Create services sharing one account store. Pass configDir/credentials to
+// use a store other than ~/.jgoogle with the embedded OAuth client.
+export function createJGoogle(options: JGoogleOptions = {}): JGoogle {
+  const { rootUrl, retry, auth, ...storageOptions } = options;
+  const accounts = new AccountStorage(storageOptions);
+  const serviceOptions: ServiceOptions = { rootUrl, retry, auth };
+  return {
+    accounts,
+    gmail: new GmailService(accounts, serviceOptions),
+    calendar: new CalendarService(accounts, serviceOptions),
+    drive: new DriveService(accounts, serviceOptions),
+  };
+}
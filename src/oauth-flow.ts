@@ -1,46 +1,63 @@
 // ABOUTME: OAuth flow for Google APIs with combined scopes
-// ABOUTME: Supports Gmail, Calendar, and Drive in single authorization
+// ABOUTME: Supports Gmail, Calendar, and Drive in single authorization, with incremental re-consent
 
 import { spawn } from "child_process";
 import * as http from "http";
 import * as readline from "readline";
 import * as url from "url";
 import { OAuth2Client } from "google-auth-library";
-
-// Combined scopes for all three services (sensitive only, no restricted)
-const SCOPES = [
-  "https://www.googleapis.com/auth/gmail.readonly",
-  "https://www.googleapis.com/auth/gmail.compose",
-  "https://www.googleapis.com/auth/calendar.readonly",
-  "https://www.googleapis.com/auth/drive.readonly",
-];
+import { DEFAULT_SCOPES, toScopeUrls } from "./scopes.js";
 
 const TIMEOUT_MS = 2 * 60 * 1000;
 
 interface AuthResult {
   success: boolean;
   refreshToken?: string;
+  scopes?: string[];
   error?: string;
 }
 
+export interface AuthorizeOptions {
+  manual?: boolean;     // Paste the redirect URL instead of running a local server
+  scopes?: string[];    // Scope URLs to request; defaults to DEFAULT_SCOPES
+  loginHint?: string;   // Preselect the Google account
+}
+
+export interface Authorization {
+  refreshToken: string;
+  scopes: string[];     // Scopes actually granted (may include earlier grants)
+}
+
 export class OAuthFlow {
   private oauth2Client: OAuth2Client;
   private server: http.Server | null = null;
   private timeoutId: NodeJS.Timeout | null = null;
+  private scopes = toScopeUrls(DEFAULT_SCOPES);
+  private loginHint: string | undefined;
 
   constructor(clientId: string, clientSecret: string) {
     this.oauth2Client = new OAuth2Client(clientId, clientSecret);
   }
 
-  async authorize(manual = false): Promise<string> {
-    const result = manual ? await this.startManualFlow() : await this.startAuthFlow();
+  async authorize(options: AuthorizeOptions = {}): Promise<Authorization> {
+    this.scopes = options.scopes || toScopeUrls(DEFAULT_SCOPES);
+    this.loginHint = options.loginHint;
+    const result = options.manual ? await this.startManualFlow() : await this.startAuthFlow();
     if (!result.success) {
       throw new Error(result.error || "Authorization failed");
     }
     if (!result.refreshToken) {
       throw new Error("No refresh token received");
     }
-    return result.refreshToken;
+    return { refreshToken: result.refreshToken, scopes: result.scopes || this.scopes };
+  }
+
+  // include_granted_scopes makes the new grant cover earlier ones (incremental authorization)
+  private buildAuthUrl(redirectUri: string): string {
+    const clientId = (this.oauth2Client as unknown as { _clientId: string })._clientId;
+    const scopeStr = this.scopes.map(s => encodeURIComponent(s)).join("%20");
+    const hint = this.loginHint ? `&login_hint=${encodeURIComponent(this.loginHint)}` : "";
+    return `https://accounts.google.com/o/oauth2/v2/auth?client_id=${clientId}&redirect_uri=${encodeURIComponent(redirectUri)}&response_type=code&scope=${scopeStr}&access_type=offline&prompt=consent&include_granted_scopes=true${hint}`;
   }
 
   private async startManualFlow(): Promise<AuthResult> {
@@ -52,9 +69,7 @@ export class OAuthFlow {
     );
 
     // Build URL manually with proper encoding
-    const clientId = (this.oauth2Client as unknown as { _clientId: string })._clientId;
-    const scopeStr = SCOPES.map(s => encodeURIComponent(s)).join("%20");
-    const authUrl = `https://accounts.google.com/o/oauth2/v2/auth?client_id=${clientId}&redirect_uri=${encodeURIComponent(redirectUri)}&response_type=code&scope=${scopeStr}&access_type=offline&prompt=consent`;
+    const authUrl = this.buildAuthUrl(redirectUri);
 
     console.log("Visit this URL to authorize:");
     console.log(authUrl);
@@ -76,7 +91,7 @@ export class OAuthFlow {
             return;
           }
           const { tokens } = await this.oauth2Client.getToken(code);
-          resolve({ success: true, refreshToken: tokens.refresh_token || undefined });
+          resolve({ success: true, refreshToken: tokens.refresh_token || undefined, scopes: tokens.scope?.split(" ") });
         } catch (e) {
           resolve({ success: false, error: e instanceof Error ? e.message : String(e) });
         }
@@ -108,9 +123,7 @@ export class OAuthFlow {
         );
 
         // Build URL manually with proper encoding
-        const clientId = (this.oauth2Client as unknown as { _clientId: string })._clientId;
-        const scopeStr = SCOPES.map(s => encodeURIComponent(s)).join("%20");
-        const authUrl = `https://accounts.google.com/o/oauth2/v2/auth?client_id=${clientId}&redirect_uri=${encodeURIComponent(redirectUri)}&response_type=code&scope=${scopeStr}&access_type=offline&prompt=consent`;
+        const authUrl = this.buildAuthUrl(redirectUri);
 
         console.log("Opening browser for authorization...");
         console.log("If browser doesn't open, visit this URL:");
@@ -158,7 +171,7 @@ export class OAuthFlow {
       res.writeHead(200, { "Content-Type": "text/html" });
       res.end("<html><body><h1>Success!</h1><p>You can close this window.</p></body></html>");
       this.cleanup();
-      resolve({ success: true, refreshToken: tokens.refresh_token || undefined });
+      resolve({ success: true, refreshToken: tokens.refresh_token || undefined, scopes: tokens.scope?.split(" ") });
     } catch (e) {
       res.writeHead(500, { "Content-Type": "text/html" });
       res.end(`<html><body><h1>Error</h1><p>${e instanceof Error ? e.message : e}</p></body></html>`);
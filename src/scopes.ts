@@ -0,0 +1,70 @@
+// ABOUTME: OAuth scope catalogue with short names (mail:read, cal:write, ...)
+// ABOUTME: Checks an account's granted scopes before commands call Google
+
+import { CliError, ExitCode } from "./utils/errors.js";
+
+const SCOPE_PREFIX = "https://www.googleapis.com/auth/";
+
+export const SCOPES = {
+  "mail:read": `${SCOPE_PREFIX}gmail.readonly`,
+  "mail:compose": `${SCOPE_PREFIX}gmail.compose`,
+  "mail:modify": `${SCOPE_PREFIX}gmail.modify`,
+  "mail:settings": `${SCOPE_PREFIX}gmail.settings.basic`,
+  "cal:read": `${SCOPE_PREFIX}calendar.readonly`,
+  "cal:write": `${SCOPE_PREFIX}calendar`,
+  "drive:read": `${SCOPE_PREFIX}drive.readonly`,
+  "drive:write": `${SCOPE_PREFIX}drive`,
+} as const;
+
+export type ScopeName = keyof typeof SCOPES;
+
+// Scopes requested by `accounts add` (sensitive only, no restricted)
+export const DEFAULT_SCOPES: ScopeName[] = ["mail:read", "mail:compose", "cal:read", "drive:read"];
+
+// Broader scopes that also grant the narrower ones
+const IMPLIED_BY: Partial<Record<ScopeName, ScopeName[]>> = {
+  "mail:read": ["mail:modify"],
+  "mail:compose": ["mail:modify"],
+  "cal:read": ["cal:write"],
+  "drive:read": ["drive:write"],
+};
+
+export function isScopeName(name: string): name is ScopeName {
+  return name in SCOPES;
+}
+
+// Parse "cal:write,drive:write" into scope names; throws on unknown names
+export function parseScopeNames(list: string): ScopeName[] {
+  const names = list.split(",").map((s) => s.trim()).filter(Boolean);
+  for (const name of names) {
+    if (!isScopeName(name)) {
+      throw new CliError(`Unknown scope: ${name}. Use: ${Object.keys(SCOPES).join(", ")}`, ExitCode.INVALID_INPUT);
+    }
+  }
+  return names as ScopeName[];
+}
+
+export function toScopeUrls(names: ScopeName[]): string[] {
+  return [...new Set(names.map((n) => SCOPES[n]))];
+}
+
+// Short name for a scope URL, or the URL itself if it is not in the catalogue
+export function toScopeName(url: string): string {
+  const entry = Object.entries(SCOPES).find(([, u]) => u === url);
+  return entry ? entry[0] : url;
+}
+
+export function hasScope(granted: string[], name: ScopeName): boolean {
+  const accepted = [name, ...(IMPLIED_BY[name] || [])].map((n) => SCOPES[n]);
+  return accepted.some((url) => granted.includes(url));
+}
+
+export class MissingScopeError extends CliError {
+  constructor(email: string, public readonly scope: ScopeName) {
+    super(
+      `Account '${email}' has not granted ${scope} (${SCOPES[scope]}). ` +
+        `Run: jgoogle accounts reauth ${email} --scopes ${scope}`,
+      ExitCode.AUTH_ERROR
+    );
+  }
+}
@@ -1,31 +1,36 @@
 // ABOUTME: Google Calendar service for event management
 // ABOUTME: List calendars, events, create/update/delete, check availability
 
-import { OAuth2Client } from "google-auth-library";
 import { google, calendar_v3 } from "googleapis";
 import { AccountStorage } from "../account-storage.js";
+import { AuthClients } from "../auth-client.js";
+import { withRetry, type CallOptions } from "../utils/retry.js";
+import type { ServiceOptions } from "./service-options.js";
 
 export class CalendarService {
   private calendarClients = new Map<string, calendar_v3.Calendar>();
 
-  constructor(private accountStorage: AccountStorage) {}
+  constructor(
+    private accountStorage: AccountStorage,
+    private options: ServiceOptions = {}
+  ) {}
+
+  private get auth(): AuthClients {
+    return this.options.auth || AuthClients.for(this.accountStorage);
+  }
+
+  private call<T>(fn: () => Promise<T>, options: CallOptions = {}): Promise<T> {
+    return withRetry(fn, { ...this.options.retry, ...options });
+  }
 
   private getClient(email: string): calendar_v3.Calendar {
     if (!this.calendarClients.has(email)) {
-      const account = this.accountStorage.getAccount(email);
-      if (!account) throw new Error(`Account '${email}' not found`);
-
-      const oauth2Client = new OAuth2Client(
-        account.oauth2.clientId,
-        account.oauth2.clientSecret,
-        "http://localhost"
-      );
-      oauth2Client.setCredentials({
-        refresh_token: account.oauth2.refreshToken,
-        access_token: account.oauth2.accessToken,
+      const calendar = google.calendar({
+        version: "v3",
+        auth: this.auth.get(email),
+        rootUrl: this.options.rootUrl,
+        retry: false, // Retries are handled by withRetry
       });
-
-      const calendar = google.calendar({ version: "v3", auth: oauth2Client });
       this.calendarClients.set(email, calendar);
     }
     return this.calendarClients.get(email)!;
@@ -33,7 +38,7 @@ export class CalendarService {
 
   async listCalendars(email: string): Promise<CalendarInfo[]> {
     const calendar = this.getClient(email);
-    const response = await calendar.calendarList.list();
+    const response = await this.call(() => calendar.calendarList.list());
     return (response.data.items || []).map((c) => ({
       id: c.id!,
       name: c.summary || c.id!,
@@ -43,7 +48,7 @@ export class CalendarService {
 
   async getCalendarAcl(email: string, calendarId: string): Promise<AclEntry[]> {
     const calendar = this.getClient(email);
-    const response = await calendar.acl.list({ calendarId });
+    const response = await this.call(() => calendar.acl.list({ calendarId }));
     return (response.data.items || []).map((a) => ({
       id: a.id!,
       role: a.role!,
@@ -60,7 +65,7 @@ export class CalendarService {
     options: EventListOptions = {}
   ): Promise<{ events: EventInfo[]; nextPageToken?: string }> {
     const calendar = this.getClient(email);
-    const response = await calendar.events.list({
+    const response = await this.call(() => calendar.events.list({
       calendarId,
       timeMin: options.timeMin,
       timeMax: options.timeMax,
@@ -69,7 +74,7 @@ export class CalendarService {
       q: options.query,
       singleEvents: true,
       orderBy: "startTime",
-    });
+    }));
 
     const events = (response.data.items || []).map((e) => ({
       id: e.id!,
@@ -88,7 +93,7 @@ export class CalendarService {
 
   async getEvent(email: string, calendarId: string, eventId: string): Promise<EventInfo> {
     const calendar = this.getClient(email);
-    const response = await calendar.events.get({ calendarId, eventId });
+    const response = await this.call(() => calendar.events.get({ calendarId, eventId }));
     const e = response.data;
 
     return {
@@ -109,6 +114,7 @@ export class CalendarService {
   }
 
   async createEvent(email: string, calendarId: string, event: CreateEventInput): Promise<EventInfo> {
+    this.auth.requireScope(email, "cal:write");
     const calendar = this.getClient(email);
 
     const eventBody: calendar_v3.Schema$Event = {
@@ -120,10 +126,10 @@ export class CalendarService {
       attendees: event.attendees?.map((e) => ({ email: e })),
     };
 
-    const response = await calendar.events.insert({
+    const response = await this.call(() => calendar.events.insert({
       calendarId,
       requestBody: eventBody,
-    });
+    }), { idempotent: false });
 
     const e = response.data;
     return {
@@ -143,8 +149,9 @@ export class CalendarService {
     eventId: string,
     updates: UpdateEventInput
   ): Promise<EventInfo> {
+    this.auth.requireScope(email, "cal:write");
     const calendar = this.getClient(email);
-    const existing = await calendar.events.get({ calendarId, eventId });
+    const existing = await this.call(() => calendar.events.get({ calendarId, eventId }));
 
     const eventBody: calendar_v3.Schema$Event = {
       ...existing.data,
@@ -163,11 +170,11 @@ export class CalendarService {
       eventBody.attendees = updates.attendees.map((e) => ({ email: e }));
     }
 
-    const response = await calendar.events.update({
+    const response = await this.call(() => calendar.events.update({
       calendarId,
       eventId,
       requestBody: eventBody,
-    });
+    }));
 
     const e = response.data;
     return {
@@ -182,8 +189,9 @@ export class CalendarService {
   }
 
   async deleteEvent(email: string, calendarId: string, eventId: string): Promise<void> {
+    this.auth.requireScope(email, "cal:write");
     const calendar = this.getClient(email);
-    await calendar.events.delete({ calendarId, eventId });
+    await this.call(() => calendar.events.delete({ calendarId, eventId }));
   }
 
   async getFreeBusy(
@@ -193,13 +201,13 @@ export class CalendarService {
     timeMax: string
   ): Promise<Map<string, BusyPeriod[]>> {
     const calendar = this.getClient(email);
-    const response = await calendar.freebusy.query({
+    const response = await this.call(() => calendar.freebusy.query({
       requestBody: {
         timeMin,
         timeMax,
         items: calendarIds.map((id) => ({ id })),
       },
-    });
+    }));
 
     const result = new Map<string, BusyPeriod[]>();
     const calendars = response.data.calendars || {};
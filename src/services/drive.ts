@@ -4,31 +4,37 @@
 import * as fs from "fs";
 import * as os from "os";
 import * as path from "path";
-import { OAuth2Client } from "google-auth-library";
 import { google, drive_v3 } from "googleapis";
 import { AccountStorage } from "../account-storage.js";
+import { AuthClients } from "../auth-client.js";
+import { sanitizeFilename } from "../utils/files.js";
+import { withRetry, type CallOptions } from "../utils/retry.js";
+import type { ServiceOptions } from "./service-options.js";
 
 export class DriveService {
   private driveClients = new Map<string, drive_v3.Drive>();
 
-  constructor(private accountStorage: AccountStorage) {}
+  constructor(
+    private accountStorage: AccountStorage,
+    private options: ServiceOptions = {}
+  ) {}
+
+  private get auth(): AuthClients {
+    return this.options.auth || AuthClients.for(this.accountStorage);
+  }
+
+  private call<T>(fn: () => Promise<T>, options: CallOptions = {}): Promise<T> {
+    return withRetry(fn, { ...this.options.retry, ...options });
+  }
 
   private getClient(email: string): drive_v3.Drive {
     if (!this.driveClients.has(email)) {
-      const account = this.accountStorage.getAccount(email);
-      if (!account) throw new Error(`Account '${email}' not found`);
-
-      const oauth2Client = new OAuth2Client(
-        account.oauth2.clientId,
-        account.oauth2.clientSecret,
-        "http://localhost"
-      );
-      oauth2Client.setCredentials({
-        refresh_token: account.oauth2.refreshToken,
-        access_token: account.oauth2.accessToken,
+      const drive = google.drive({
+        version: "v3",
+        auth: this.auth.get(email),
+        rootUrl: this.options.rootUrl,
+        retry: false, // Retries are handled by withRetry
       });
-
-      const drive = google.drive({ version: "v3", auth: oauth2Client });
       this.driveClients.set(email, drive);
     }
     return this.driveClients.get(email)!;
@@ -49,13 +55,13 @@ export class DriveService {
       q = q ? `${q} and trashed = false` : "trashed = false";
     }
 
-    const response = await drive.files.list({
+    const response = await this.call(() => drive.files.list({
       q: q || undefined,
       pageSize: options.maxResults || 20,
       pageToken: options.pageToken,
       orderBy: options.orderBy || "modifiedTime desc",
       fields: "nextPageToken, files(id, name, mimeType, size, modifiedTime, parents, webViewLink)",
-    });
+    }));
 
     const files = (response.data.files || []).map((f) => ({
       id: f.id!,
@@ -71,10 +77,10 @@ export class DriveService {
 
   async getFile(email: string, fileId: string): Promise<FileInfo> {
     const drive = this.getClient(email);
-    const response = await drive.files.get({
+    const response = await this.call(() => drive.files.get({
       fileId,
       fields: "id, name, mimeType, size, modifiedTime, createdTime, parents, webViewLink, description, starred",
-    });
+    }));
 
     const f = response.data;
     return {
@@ -106,16 +112,16 @@ export class DriveService {
       fs.mkdirSync(downloadDir, { recursive: true });
     }
 
-    const filePath = destPath || path.join(downloadDir, `${fileId}_${file.name}`);
+    const filePath = destPath || path.join(downloadDir, `${fileId}_${sanitizeFilename(file.name)}`);
     const isGoogleDoc = file.mimeType?.startsWith("application/vnd.google-apps.");
 
     try {
       if (isGoogleDoc) {
         const exportMimeType = this.getExportMimeType(file.mimeType);
-        const response = await drive.files.export(
+        const response = await this.call(() => drive.files.export(
           { fileId, mimeType: exportMimeType },
           { responseType: "stream" }
-        );
+        ));
         const ext = this.getExportExtension(exportMimeType);
         const exportPath = filePath.replace(/\.[^.]+$/, "") + ext;
         const dest = fs.createWriteStream(exportPath);
@@ -130,10 +136,10 @@ export class DriveService {
         return { success: true, path: exportPath, size: stats.size };
       }
 
-      const response = await drive.files.get(
+      const response = await this.call(() => drive.files.get(
         { fileId, alt: "media" },
         { responseType: "stream" }
-      );
+      ));
       const dest = fs.createWriteStream(filePath);
 
       await new Promise<void>((resolve, reject) => {
@@ -154,6 +160,7 @@ export class DriveService {
     localPath: string,
     options: UploadOptions = {}
   ): Promise<FileInfo> {
+    this.auth.requireScope(email, "drive:write");
     const drive = this.getClient(email);
     const fileName = options.name || path.basename(localPath);
     const mimeType = options.mimeType || this.guessMimeType(localPath);
@@ -168,11 +175,11 @@ export class DriveService {
       body: fs.createReadStream(localPath),
     };
 
-    const response = await drive.files.create({
+    const response = await this.call(() => drive.files.create({
       requestBody: fileMetadata,
       media,
       fields: "id, name, mimeType, size, webViewLink",
-    });
+    }), { idempotent: false });
 
     const f = response.data;
     return {
@@ -186,11 +193,13 @@ export class DriveService {
   }
 
   async delete(email: string, fileId: string): Promise<void> {
+    this.auth.requireScope(email, "drive:write");
     const drive = this.getClient(email);
-    await drive.files.delete({ fileId });
+    await this.call(() => drive.files.delete({ fileId }));
   }
 
   async mkdir(email: string, name: string, parentId?: string): Promise<FileInfo> {
+    this.auth.requireScope(email, "drive:write");
     const drive = this.getClient(email);
 
     const fileMetadata: drive_v3.Schema$File = {
@@ -199,10 +208,10 @@ export class DriveService {
       parents: parentId ? [parentId] : undefined,
     };
 
-    const response = await drive.files.create({
+    const response = await this.call(() => drive.files.create({
       requestBody: fileMetadata,
       fields: "id, name, mimeType, webViewLink",
-    });
+    }), { idempotent: false });
 
     const f = response.data;
     return {
@@ -216,15 +225,16 @@ export class DriveService {
   }
 
   async move(email: string, fileId: string, newParentId: string): Promise<FileInfo> {
+    this.auth.requireScope(email, "drive:write");
     const drive = this.getClient(email);
     const file = await this.getFile(email, fileId);
 
-    const response = await drive.files.update({
+    const response = await this.call(() => drive.files.update({
       fileId,
       addParents: newParentId,
       removeParents: (file as unknown as { parents?: string[] }).parents?.join(",") || "",
       fields: "id, name, mimeType, parents, webViewLink",
-    });
+    }));
 
     const f = response.data;
     return {
@@ -238,13 +248,14 @@ export class DriveService {
   }
 
   async rename(email: string, fileId: string, newName: string): Promise<FileInfo> {
+    this.auth.requireScope(email, "drive:write");
     const drive = this.getClient(email);
 
-    const response = await drive.files.update({
+    const response = await this.call(() => drive.files.update({
       fileId,
       requestBody: { name: newName },
       fields: "id, name, mimeType, webViewLink",
-    });
+    }));
 
     const f = response.data;
     return {
@@ -258,6 +269,7 @@ export class DriveService {
   }
 
   async share(email: string, fileId: string, options: ShareOptions): Promise<ShareResult> {
+    this.auth.requireScope(email, "drive:write");
     const drive = this.getClient(email);
     const role = options.role || "reader";
 
@@ -270,13 +282,13 @@ export class DriveService {
       throw new Error("Must specify anyone or email");
     }
 
-    const response = await drive.permissions.create({
+    const response = await this.call(() => drive.permissions.create({
       fileId,
       requestBody: permission,
       fields: "id",
-    });
+    }), { idempotent: false });
 
-    const file = await drive.files.get({ fileId, fields: "webViewLink" });
+    const file = await this.call(() => drive.files.get({ fileId, fields: "webViewLink" }));
 
     return {
       link: file.data.webViewLink || `https://drive.google.com/file/d/${fileId}/view`,
@@ -285,16 +297,17 @@ export class DriveService {
   }
 
   async unshare(email: string, fileId: string, permissionId: string): Promise<void> {
+    this.auth.requireScope(email, "drive:write");
     const drive = this.getClient(email);
-    await drive.permissions.delete({ fileId, permissionId });
+    await this.call(() => drive.permissions.delete({ fileId, permissionId }));
   }
 
   async listPermissions(email: string, fileId: string): Promise<Permission[]> {
     const drive = this.getClient(email);
-    const response = await drive.permissions.list({
+    const response = await this.call(() => drive.permissions.list({
       fileId,
       fields: "permissions(id, type, role, emailAddress)",
-    });
+    }));
 
     return (response.data.permissions || []).map((p) => ({
       id: p.id!,
@@ -313,12 +326,12 @@ export class DriveService {
     const drive = this.getClient(email);
     const q = `fullText contains '${query.replace(/'/g, "\\'")}' and trashed = false`;
 
-    const response = await drive.files.list({
+    const response = await this.call(() => drive.files.list({
       q,
       pageSize: maxResults,
       pageToken,
       fields: "nextPageToken, files(id, name, mimeType, size, modifiedTime, parents, webViewLink)",
-    });
+    }));
 
     const files = (response.data.files || []).map((f) => ({
       id: f.id!,
@@ -3,31 +3,160 @@
 
 import * as fs from "fs";
 import * as path from "path";
-import { OAuth2Client } from "google-auth-library";
 import { google, gmail_v1 } from "googleapis";
 import { AccountStorage } from "../account-storage.js";
+import { AuthClients } from "../auth-client.js";
+import type { ScopeName } from "../scopes.js";
+import { mapWithConcurrency } from "../utils/concurrency.js";
+import { CliError, ExitCode, getErrorStatus } from "../utils/errors.js";
+import { globToRegExp, sanitizeFilename, writeNewFile } from "../utils/files.js";
+import { filterLabelNames, fromApiFilter, toApiFilter, type FilterSpec } from "../utils/filters.js";
+import {
+  formatAddress,
+  htmlToText,
+  parseAddressList,
+  parseMessagePayload,
+  parseRawHeaders,
+  type Address,
+  type Attachment,
+  type InlinePart,
+  type RawHeader,
+} from "../utils/mime.js";
+import { escapeHtml } from "../utils/markdown.js";
+import { buildMimeMessage, mimeTypeFor, type MimeAttachment } from "../utils/mime-builder.js";
+import { withRetry, type CallOptions } from "../utils/retry.js";
+import type { ServiceOptions } from "./service-options.js";
+
+// Parallel per-item requests; stays well under Gmail's per-user quota
+const DETAIL_CONCURRENCY = 10;
+const SUMMARY_HEADERS = ["Date", "From", "Subject"];
+// Largest page messages.list returns
+const MESSAGE_PAGE_SIZE = 500;
+// Most message IDs messages.batchModify accepts per request
+const BATCH_MODIFY_LIMIT = 1000;
+
+function sameAddress(a: Address, b: Address): boolean {
+  return a.address.toLowerCase() === b.address.toLowerCase();
+}
+
+function uniqueAddresses(addresses: Address[]): Address[] {
+  return addresses.filter((a, i) => addresses.findIndex((b) => sameAddress(a, b)) === i);
+}
+
+function withPrefix(prefix: string, existing: RegExp, subject: string): string {
+  return existing.test(subject.trim()) ? subject : `${prefix} ${subject}`;
+}
+
+function quote(text: string): string {
+  return text.split(/\r?\n/).map((line) => (line ? `> ${line}` : ">")).join("\n");
+}
+
+function lookupLabel(labels: Label[], nameOrId: string): Label | undefined {
+  return labels.find((l) => l.id === nameOrId) || labels.find((l) => l.name.toLowerCase() === nameOrId.toLowerCase());
+}
+
+function findLabel(labels: Label[], nameOrId: string): Label {
+  const label = lookupLabel(labels, nameOrId);
+  if (!label) {
+    throw new CliError(`Unknown label: ${nameOrId}. Run "mail labels list" to see labels`, ExitCode.INVALID_INPUT);
+  }
+  return label;
+}
+
+function findUserLabel(labels: Label[], nameOrId: string): Label {
+  const label = findLabel(labels, nameOrId);
+  if (label.type === "system") {
+    throw new CliError(`${label.name} is a system label and cannot be changed`, ExitCode.INVALID_INPUT);
+  }
+  return label;
+}
+
+function toApiColor(color: LabelColor): gmail_v1.Schema$LabelColor {
+  return { backgroundColor: color.background, textColor: color.text };
+}
+
+function toSendAs(s: gmail_v1.Schema$SendAs): SendAs {
+  return {
+    email: s.sendAsEmail || "",
+    displayName: s.displayName || "",
+    replyTo: s.replyToAddress || undefined,
+    isPrimary: s.isPrimary || false,
+    isDefault: s.isDefault || false,
+    verificationStatus: s.verificationStatus || undefined,
+    signature: s.signature || "",
+  };
+}
+
+// The send-as entry for `address`, or the default (else primary) one
+function findSendAs(sendAs: SendAs[], email: string, address?: string): SendAs {
+  const wanted = address && parseAddressList(address)[0]?.address.toLowerCase();
+  const match = wanted
+    ? sendAs.find((s) => s.email.toLowerCase() === wanted)
+    : sendAs.find((s) => s.isDefault) || sendAs.find((s) => s.isPrimary);
+  if (!match) {
+    const available = sendAs.map((s) => s.email).join(", ") || "none";
+    throw new CliError(
+      address ? `'${address}' is not a send-as address for ${email}. Available: ${available}` : `${email} has no send-as address`,
+      ExitCode.NOT_FOUND
+    );
+  }
+  return match;
+}
+
+function toVacation(v: gmail_v1.Schema$VacationSettings): VacationSettings {
+  const time = (ms: string | null | undefined) => (ms ? new Date(Number(ms)).toISOString() : undefined);
+  return {
+    enabled: v.enableAutoReply || false,
+    subject: v.responseSubject || undefined,
+    text: v.responseBodyPlainText || undefined,
+    html: v.responseBodyHtml || undefined,
+    start: time(v.startTime),
+    end: time(v.endTime),
+    contactsOnly: v.restrictToContacts || false,
+    domainOnly: v.restrictToDomain || false,
+  };
+}
+
+// Identity of a filter for duplicate checks: field order and label order do not matter
+function filterKey(filter: gmail_v1.Schema$Filter): string {
+  const criteria = Object.entries(filter.criteria || {}).filter(([, v]) => v !== undefined && v !== null && v !== false);
+  return JSON.stringify([
+    criteria.sort(([a], [b]) => a.localeCompare(b)),
+    [...(filter.action?.addLabelIds || [])].sort(),
+    [...(filter.action?.removeLabelIds || [])].sort(),
+    filter.action?.forward || "",
+  ]);
+}
 
 export class GmailService {
   private gmailClients = new Map<string, gmail_v1.Gmail>();
 
-  constructor(private accountStorage: AccountStorage) {}
+  constructor(
+    private accountStorage: AccountStorage,
+    private options: ServiceOptions = {}
+  ) {}
+
+  private get auth(): AuthClients {
+    return this.options.auth || AuthClients.for(this.accountStorage);
+  }
+
+  // For services built on this one that must fail before their first change
+  requireScope(email: string, scope: ScopeName): void {
+    this.auth.requireScope(email, scope);
+  }
+
+  private call<T>(fn: () => Promise<T>, options: CallOptions = {}): Promise<T> {
+    return withRetry(fn, { ...this.options.retry, ...options });
+  }
 
   private getClient(email: string): gmail_v1.Gmail {
     if (!this.gmailClients.has(email)) {
-      const account = this.accountStorage.getAccount(email);
-      if (!account) throw new Error(`Account '${email}' not found`);
-
-      const oauth2Client = new OAuth2Client(
-        account.oauth2.clientId,
-        account.oauth2.clientSecret,
-        "http://localhost"
-      );
-      oauth2Client.setCredentials({
-        refresh_token: account.oauth2.refreshToken,
-        access_token: account.oauth2.accessToken,
+      const gmail = google.gmail({
+        version: "v1",
+        auth: this.auth.get(email),
+        rootUrl: this.options.rootUrl,
+        retry: false, // Retries are handled by withRetry
       });
-
-      const gmail = google.gmail({ version: "v1", auth: oauth2Client });
       this.gmailClients.set(email, gmail);
     }
     return this.gmailClients.get(email)!;
@@ -40,91 +169,457 @@ export class GmailService {
     pageToken?: string
   ): Promise<{ threads: ThreadSummary[]; nextPageToken?: string }> {
     const gmail = this.getClient(email);
-    const response = await gmail.users.threads.list({
+    const response = await this.call(() => gmail.users.threads.list({
       userId: "me",
       q: query,
       maxResults,
       pageToken,
-    });
-
-    const threads = response.data.threads || [];
-    const detailedThreads: ThreadSummary[] = [];
+    }));
 
-    for (const thread of threads) {
-      const detail = await gmail.users.threads.get({ userId: "me", id: thread.id! });
-      const messages = detail.data.messages || [];
-      const firstMsg = messages[0];
+    // Only the first message's headers are shown, so skip bodies entirely
+    const threads = await mapWithConcurrency(response.data.threads || [], DETAIL_CONCURRENCY, async (thread) => {
+      const detail = await this.call(() => gmail.users.threads.get({
+        userId: "me",
+        id: thread.id!,
+        format: "metadata",
+        metadataHeaders: SUMMARY_HEADERS,
+        fields: "id,messages(id,labelIds,payload/headers)",
+      }));
+      const firstMsg = detail.data.messages?.[0];
 
-      detailedThreads.push({
+      return {
         id: thread.id!,
         date: this.getHeader(firstMsg, "date") || "",
         from: this.getHeader(firstMsg, "from") || "",
         subject: this.getHeader(firstMsg, "subject") || "",
         labels: firstMsg?.labelIds || [],
-      });
-    }
+      };
+    });
 
-    return { threads: detailedThreads, nextPageToken: response.data.nextPageToken || undefined };
+    return { threads, nextPageToken: response.data.nextPageToken || undefined };
+  }
+
+  async listMessageIds(
+    email: string,
+    query: string,
+    pageToken?: string
+  ): Promise<{ ids: string[]; nextPageToken?: string }> {
+    const gmail = this.getClient(email);
+    const response = await this.call(() => gmail.users.messages.list({
+      userId: "me",
+      q: query,
+      maxResults: MESSAGE_PAGE_SIZE,
+      pageToken,
+      fields: "messages/id,nextPageToken",
+    }));
+    return {
+      ids: (response.data.messages || []).map((m) => m.id!),
+      nextPageToken: response.data.nextPageToken || undefined,
+    };
+  }
+
+  // The message exactly as Gmail stores it (RFC 5322 bytes)
+  async getRawMessage(email: string, messageId: string): Promise<RawMessage> {
+    const gmail = this.getClient(email);
+    const response = await this.call(() => gmail.users.messages.get({ userId: "me", id: messageId, format: "raw" }));
+    const msg = response.data;
+    return {
+      id: msg.id!,
+      threadId: msg.threadId || "",
+      labels: msg.labelIds || [],
+      date: new Date(Number(msg.internalDate || 0)),
+      raw: Buffer.from(msg.raw || "", "base64url"),
+    };
+  }
+
+  // The raw message with its header fields parsed, for deliverability debugging
+  async getMessageSource(email: string, messageId: string): Promise<MessageSource> {
+    const message = await this.getRawMessage(email, messageId);
+    const { headers, headerBytes } = parseRawHeaders(message.raw);
+    return { ...message, headers, size: message.raw.length, headerSize: headerBytes };
+  }
+
+  // Current mailbox history ID; changes after it can be read with listHistory
+  async getHistoryId(email: string): Promise<string> {
+    const gmail = this.getClient(email);
+    const response = await this.call(() => gmail.users.getProfile({ userId: "me", fields: "historyId" }));
+    return response.data.historyId!;
+  }
+
+  // Message additions, deletions and label changes after startHistoryId, oldest first
+  async listHistory(email: string, startHistoryId: string): Promise<{ changes: MailChange[]; historyId: string }> {
+    const gmail = this.getClient(email);
+    const changes: MailChange[] = [];
+    let historyId = startHistoryId;
+    let pageToken: string | undefined;
+
+    do {
+      let response;
+      try {
+        response = await this.call(() => gmail.users.history.list({
+          userId: "me",
+          startHistoryId,
+          maxResults: MESSAGE_PAGE_SIZE,
+          pageToken,
+        }));
+      } catch (e) {
+        // Gmail keeps about a week of history; older start IDs are rejected with 404
+        if (getErrorStatus(e) === 404) {
+          throw new CliError(
+            `History after ${startHistoryId} is no longer available. Run "mail changes --reset" to start from now`,
+            ExitCode.NOT_FOUND
+          );
+        }
+        throw e;
+      }
+
+      for (const record of response.data.history || []) {
+        const id = record.id!;
+        const add = (type: MailChange["type"], message: gmail_v1.Schema$Message | undefined, labels?: string[] | null) => {
+          if (!message?.id) return;
+          changes.push({ historyId: id, type, messageId: message.id, threadId: message.threadId || "", labels: labels || [] });
+        };
+        for (const m of record.messagesAdded || []) add("added", m.message, m.message?.labelIds);
+        for (const m of record.messagesDeleted || []) add("deleted", m.message);
+        for (const m of record.labelsAdded || []) add("labelsAdded", m.message, m.labelIds);
+        for (const m of record.labelsRemoved || []) add("labelsRemoved", m.message, m.labelIds);
+      }
+      historyId = response.data.historyId || historyId;
+      pageToken = response.data.nextPageToken || undefined;
+    } while (pageToken);
+
+    return { changes, historyId };
+  }
+
+  async getMessageSummary(email: string, messageId: string): Promise<MessageSummary> {
+    const gmail = this.getClient(email);
+    const response = await this.call(() => gmail.users.messages.get({
+      userId: "me",
+      id: messageId,
+      format: "metadata",
+      metadataHeaders: [...SUMMARY_HEADERS, "To"],
+    }));
+    const msg = response.data;
+    return {
+      id: msg.id!,
+      threadId: msg.threadId || "",
+      date: this.getHeader(msg, "date") || "",
+      from: this.getHeader(msg, "from") || "",
+      to: this.getHeader(msg, "to") || "",
+      subject: this.getHeader(msg, "subject") || "",
+      snippet: msg.snippet || "",
+      labels: msg.labelIds || [],
+    };
+  }
+
+  // One message with its thread and the time Gmail received it
+  async getMessage(email: string, messageId: string): Promise<FullMessage> {
+    const gmail = this.getClient(email);
+    const response = await this.call(() => gmail.users.messages.get({ userId: "me", id: messageId }));
+    const msg = response.data;
+    return {
+      ...this.toMessageDetail(msg),
+      threadId: msg.threadId || "",
+      receivedAt: new Date(Number(msg.internalDate || 0)).toISOString(),
+    };
+  }
+
+  // Chosen header fields of a message, keyed by lowercase name
+  async getMessageHeaders(email: string, messageId: string, names: string[]): Promise<MessageHeaders> {
+    const gmail = this.getClient(email);
+    const response = await this.call(() => gmail.users.messages.get({
+      userId: "me",
+      id: messageId,
+      format: "metadata",
+      metadataHeaders: names,
+      fields: "id,threadId,payload/headers",
+    }));
+    const headers: Record<string, string> = {};
+    for (const h of response.data.payload?.headers || []) {
+      const name = (h.name || "").toLowerCase();
+      if (!(name in headers)) headers[name] = h.value || "";
+    }
+    return { id: response.data.id!, threadId: response.data.threadId || "", headers };
   }
 
   async getThread(email: string, threadId: string): Promise<ThreadDetail> {
     const gmail = this.getClient(email);
-    const response = await gmail.users.threads.get({ userId: "me", id: threadId });
+    const response = await this.call(() => gmail.users.threads.get({ userId: "me", id: threadId }));
     const thread = response.data;
 
     return {
       id: thread.id!,
-      messages: (thread.messages || []).map((msg) => ({
-        id: msg.id!,
-        from: this.getHeader(msg, "from") || "",
-        to: this.getHeader(msg, "to") || "",
-        subject: this.getHeader(msg, "subject") || "",
-        date: this.getHeader(msg, "date") || "",
-        body: this.getBody(msg),
-        labels: msg.labelIds || [],
-        attachments: this.getAttachments(msg),
-      })),
+      messages: (thread.messages || []).map((msg) => this.toMessageDetail(msg)),
     };
   }
 
   async listLabels(email: string): Promise<Label[]> {
     const gmail = this.getClient(email);
-    const response = await gmail.users.labels.list({ userId: "me" });
+    const response = await this.call(() => gmail.users.labels.list({ userId: "me" }));
     return (response.data.labels || []).map((l) => ({
       id: l.id!,
       name: l.name!,
       type: l.type || "",
+      color: l.color?.backgroundColor
+        ? { background: l.color.backgroundColor, text: l.color.textColor || "" }
+        : undefined,
     }));
   }
 
+  // Map label names (case-insensitive, nested as "Parent/Child") or IDs to label IDs
+  async resolveLabelIds(email: string, names: string[]): Promise<string[]> {
+    if (names.length === 0) return [];
+    const labels = await this.listLabels(email);
+    return names.map((name) => findLabel(labels, name).id);
+  }
+
   async modifyLabels(
     email: string,
     threadIds: string[],
     addLabels: string[] = [],
     removeLabels: string[] = []
   ): Promise<void> {
+    this.auth.requireScope(email, "mail:modify");
     const gmail = this.getClient(email);
-    for (const threadId of threadIds) {
-      if (addLabels.length > 0) {
-        await gmail.users.threads.modify({
-          userId: "me",
-          id: threadId,
-          requestBody: { addLabelIds: addLabels },
-        });
+    if (addLabels.length === 0 && removeLabels.length === 0) return;
+    const labels = await this.listLabels(email);
+    const addLabelIds = addLabels.map((name) => findLabel(labels, name).id);
+    const removeLabelIds = removeLabels.map((name) => findLabel(labels, name).id);
+
+    // threads.modify is one request per thread; batchModify takes the
+    // messages of every thread at once
+    const perThread = await mapWithConcurrency(threadIds, DETAIL_CONCURRENCY, async (threadId) => {
+      const thread = await this.call(() => gmail.users.threads.get({
+        userId: "me",
+        id: threadId,
+        format: "minimal",
+        fields: "messages/id",
+      }));
+      return (thread.data.messages || []).map((m) => m.id!);
+    });
+    const messageIds = perThread.flat();
+    for (let i = 0; i < messageIds.length; i += BATCH_MODIFY_LIMIT) {
+      const ids = messageIds.slice(i, i + BATCH_MODIFY_LIMIT);
+      await this.call(() => gmail.users.messages.batchModify({
+        userId: "me",
+        requestBody: { ids, addLabelIds, removeLabelIds },
+      }));
+    }
+  }
+
+  // Creates missing parents too, so "Clients/Acme" nests under "Clients"
+  async createLabel(email: string, name: string, color?: LabelColor): Promise<Label> {
+    this.auth.requireScope(email, "mail:modify");
+    return this.addLabel(email, await this.listLabels(email), name, color);
+  }
+
+  // Create `name` in the account whose current labels are `labels`, adding
+  // each created label to the list so callers need not list them again
+  private async addLabel(email: string, labels: Label[], name: string, color?: LabelColor): Promise<Label> {
+    const gmail = this.getClient(email);
+    const segments = name.split("/");
+    let created: Label | undefined;
+
+    for (let i = 1; i <= segments.length; i++) {
+      const labelName = segments.slice(0, i).join("/");
+      const existing = labels.find((l) => l.name.toLowerCase() === labelName.toLowerCase());
+      if (existing && i < segments.length) continue;
+      if (existing) {
+        throw new CliError(`Label already exists: ${existing.name}`, ExitCode.INVALID_INPUT);
       }
-      if (removeLabels.length > 0) {
-        await gmail.users.threads.modify({
-          userId: "me",
-          id: threadId,
-          requestBody: { removeLabelIds: removeLabels },
-        });
+      const response = await this.call(() => gmail.users.labels.create({
+        userId: "me",
+        requestBody: {
+          name: labelName,
+          labelListVisibility: "labelShow",
+          messageListVisibility: "show",
+          color: i === segments.length && color ? toApiColor(color) : undefined,
+        },
+      }), { idempotent: false });
+      created = { id: response.data.id!, name: labelName, type: "user", color: i === segments.length ? color : undefined };
+      labels.push(created);
+    }
+    return created!;
+  }
+
+  // Nested labels are plain names in Gmail, so children are renamed with their parent
+  async renameLabel(email: string, label: string, newName: string): Promise<Label[]> {
+    this.auth.requireScope(email, "mail:modify");
+    const gmail = this.getClient(email);
+    const labels = await this.listLabels(email);
+    const target = findUserLabel(labels, label);
+    const prefix = `${target.name}/`.toLowerCase();
+    const affected = labels.filter((l) => l === target || l.name.toLowerCase().startsWith(prefix));
+
+    const renamed: Label[] = [];
+    for (const l of affected) {
+      const name = newName + l.name.slice(target.name.length);
+      await this.call(() => gmail.users.labels.patch({ userId: "me", id: l.id, requestBody: { name } }));
+      renamed.push({ ...l, name });
+    }
+    return renamed;
+  }
+
+  async deleteLabel(email: string, label: string): Promise<Label> {
+    this.auth.requireScope(email, "mail:modify");
+    const gmail = this.getClient(email);
+    const target = findUserLabel(await this.listLabels(email), label);
+    await this.call(() => gmail.users.labels.delete({ userId: "me", id: target.id }));
+    return target;
+  }
+
+  async setLabelColor(email: string, label: string, color: LabelColor): Promise<Label> {
+    this.auth.requireScope(email, "mail:modify");
+    const gmail = this.getClient(email);
+    const target = findUserLabel(await this.listLabels(email), label);
+    await this.call(() => gmail.users.labels.patch({
+      userId: "me",
+      id: target.id,
+      requestBody: { color: toApiColor(color) },
+    }));
+    return { ...target, color };
+  }
+
+  async listFilters(email: string): Promise<FilterSpec[]> {
+    const gmail = this.getClient(email);
+    const [response, labels] = await Promise.all([
+      this.call(() => gmail.users.settings.filters.list({ userId: "me" })),
+      this.listLabels(email),
+    ]);
+    const names = new Map(labels.map((l) => [l.id, l.name]));
+    return (response.data.filter || []).map((f) => fromApiFilter(f, (id) => names.get(id) || id));
+  }
+
+  async createFilter(email: string, spec: FilterSpec, options: FilterCreateOptions = {}): Promise<string> {
+    this.auth.requireScope(email, "mail:settings");
+    const gmail = this.getClient(email);
+    const labels = await this.ensureLabels(email, filterLabelNames(spec), options.createLabels);
+    const response = await this.call(() => gmail.users.settings.filters.create({
+      userId: "me",
+      requestBody: toApiFilter(spec, (name) => findLabel(labels, name).id),
+    }), { idempotent: false });
+    return response.data.id!;
+  }
+
+  async deleteFilter(email: string, filterId: string): Promise<void> {
+    this.auth.requireScope(email, "mail:settings");
+    const gmail = this.getClient(email);
+    await this.call(() => gmail.users.settings.filters.delete({ userId: "me", id: filterId }));
+  }
+
+  // Create the filters this account does not have yet, adding missing labels.
+  // Filters that already exist are left alone, so an import can be re-run.
+  async importFilters(email: string, specs: FilterSpec[], options: FilterImportOptions = {}): Promise<FilterImportResult[]> {
+    if (!options.dryRun) this.auth.requireScope(email, "mail:settings");
+    const gmail = this.getClient(email);
+    const response = await this.call(() => gmail.users.settings.filters.list({ userId: "me" }));
+    const existing = new Set((response.data.filter || []).map(filterKey));
+    const labels = await this.listLabels(email);
+    const results: FilterImportResult[] = [];
+
+    for (const [i, spec] of specs.entries()) {
+      const missing = filterLabelNames(spec).filter((name) => !lookupLabel(labels, name));
+      const base = { index: i + 1, filter: spec, newLabels: [...new Set(missing)] };
+      try {
+        if (!options.dryRun && missing.length > 0) await this.ensureLabels(email, missing, true, labels);
+        // Labels that do not exist yet cannot be in an existing filter
+        const key = filterKey(toApiFilter(spec, (name) => lookupLabel(labels, name)?.id || `new:${name}`));
+        if (existing.has(key)) {
+          results.push({ ...base, status: "exists", newLabels: [] });
+        } else if (options.dryRun) {
+          results.push({ ...base, status: "preview" });
+        } else {
+          const created = await this.call(() => gmail.users.settings.filters.create({
+            userId: "me",
+            requestBody: toApiFilter(spec, (name) => findLabel(labels, name).id),
+          }), { idempotent: false });
+          existing.add(key);
+          results.push({ ...base, status: "created", id: created.data.id! });
+        }
+      } catch (e) {
+        results.push({ ...base, status: "failed", error: e instanceof Error ? e.message : String(e) });
       }
     }
+    return results;
+  }
+
+  // Current labels (`labels` if already listed), after creating any of
+  // `names` that are missing when `create` is set
+  private async ensureLabels(email: string, names: string[], create = false, labels?: Label[]): Promise<Label[]> {
+    labels ??= await this.listLabels(email);
+    const missing = [...new Set(names.filter((name) => !lookupLabel(labels!, name)))];
+    if (missing.length === 0) return labels;
+    if (!create) findLabel(labels, missing[0]);
+    this.auth.requireScope(email, "mail:modify");
+    for (const name of missing) {
+      if (!lookupLabel(labels, name)) await this.addLabel(email, labels, name);
+    }
+    return labels;
+  }
+
+  async listSendAs(email: string): Promise<SendAs[]> {
+    const gmail = this.getClient(email);
+    const response = await this.call(() => gmail.users.settings.sendAs.list({ userId: "me" }));
+    return (response.data.sendAs || []).map(toSendAs);
+  }
+
+  // Signature of a send-as address; by default the one new mail is sent from
+  async getSignature(email: string, address?: string): Promise<SendAs> {
+    return findSendAs(await this.listSendAs(email), email, address);
+  }
+
+  async setSignature(email: string, html: string, address?: string): Promise<SendAs> {
+    this.auth.requireScope(email, "mail:settings");
+    const target = findSendAs(await this.listSendAs(email), email, address);
+    const gmail = this.getClient(email);
+    const response = await this.call(() => gmail.users.settings.sendAs.patch({
+      userId: "me",
+      sendAsEmail: target.email,
+      requestBody: { signature: html },
+    }));
+    return toSendAs(response.data);
+  }
+
+  async getVacation(email: string): Promise<VacationSettings> {
+    const gmail = this.getClient(email);
+    const response = await this.call(() => gmail.users.settings.getVacation({ userId: "me" }));
+    return toVacation(response.data);
+  }
+
+  // Replaces the whole vacation responder configuration
+  async setVacation(email: string, settings: VacationSettings): Promise<VacationSettings> {
+    this.auth.requireScope(email, "mail:settings");
+    if (settings.enabled && !settings.text && !settings.html) {
+      throw new CliError("The vacation responder needs a message", ExitCode.INVALID_INPUT);
+    }
+    if (settings.start && settings.end && Date.parse(settings.start) >= Date.parse(settings.end)) {
+      throw new CliError("The vacation end must be after its start", ExitCode.INVALID_INPUT);
+    }
+    const gmail = this.getClient(email);
+    const response = await this.call(() => gmail.users.settings.updateVacation({
+      userId: "me",
+      requestBody: {
+        enableAutoReply: settings.enabled,
+        responseSubject: settings.subject,
+        responseBodyPlainText: settings.text,
+        responseBodyHtml: settings.html,
+        startTime: settings.start ? String(Date.parse(settings.start)) : undefined,
+        endTime: settings.end ? String(Date.parse(settings.end)) : undefined,
+        restrictToContacts: settings.contactsOnly,
+        restrictToDomain: settings.domainOnly,
+      },
+    }));
+    return toVacation(response.data);
+  }
+
+  // Turn the responder off, keeping its message for next time
+  async disableVacation(email: string): Promise<VacationSettings> {
+    return this.setVacation(email, { ...(await this.getVacation(email)), enabled: false });
   }
 
   async listDrafts(email: string): Promise<Draft[]> {
     const gmail = this.getClient(email);
-    const response = await gmail.users.drafts.list({ userId: "me" });
+    const response = await this.call(() => gmail.users.drafts.list({ userId: "me" }));
     return (response.data.drafts || []).map((d) => ({
       id: d.id!,
       messageId: d.message?.id || undefined,
@@ -133,21 +628,23 @@ export class GmailService {
 
   async getDraft(email: string, draftId: string): Promise<gmail_v1.Schema$Draft> {
     const gmail = this.getClient(email);
-    const response = await gmail.users.drafts.get({ userId: "me", id: draftId });
+    const response = await this.call(() => gmail.users.drafts.get({ userId: "me", id: draftId }));
     return response.data;
   }
 
   async deleteDraft(email: string, draftId: string): Promise<void> {
+    this.auth.requireScope(email, "mail:compose");
     const gmail = this.getClient(email);
-    await gmail.users.drafts.delete({ userId: "me", id: draftId });
+    await this.call(() => gmail.users.drafts.delete({ userId: "me", id: draftId }));
   }
 
   async sendDraft(email: string, draftId: string): Promise<string> {
+    this.auth.requireScope(email, "mail:compose");
     const gmail = this.getClient(email);
-    const response = await gmail.users.drafts.send({
+    const response = await this.call(() => gmail.users.drafts.send({
       userId: "me",
       requestBody: { id: draftId },
-    });
+    }), { idempotent: false });
     return (response.data as gmail_v1.Schema$Message).id || "";
   }
 
@@ -158,178 +655,348 @@ export class GmailService {
     body: string,
     options: SendOptions = {}
   ): Promise<string> {
-    const gmail = this.getClient(email);
+    this.auth.requireScope(email, "mail:compose");
+    const { raw, threadId } = await this.compose(email, to, subject, body, options);
+    return this.deliver(email, raw, threadId, false);
+  }
 
-    let inReplyTo: string | undefined;
-    let references: string | undefined;
-    let threadId: string | undefined;
+  async createDraft(
+    email: string,
+    to: string[],
+    subject: string,
+    body: string,
+    options: SendOptions = {}
+  ): Promise<string> {
+    this.auth.requireScope(email, "mail:compose");
+    const { raw, threadId } = await this.compose(email, to, subject, body, options);
+    return this.deliver(email, raw, threadId, true);
+  }
 
-    if (options.replyToMessageId) {
-      const msg = await gmail.users.messages.get({
-        userId: "me",
-        id: options.replyToMessageId,
-        format: "metadata",
-        metadataHeaders: ["Message-ID", "References"],
-      });
-      const headers = msg.data.payload?.headers || [];
-      const messageId = headers.find((h) => h.name === "Message-ID")?.value;
-      const existingRefs = headers.find((h) => h.name === "References")?.value;
-      if (messageId) {
-        inReplyTo = messageId;
-        references = existingRefs ? `${existingRefs} ${messageId}` : messageId;
-      }
-      threadId = msg.data.threadId || undefined;
-    }
+  // Reply to the sender (or Reply-To), or with `all` also to the original
+  // To and Cc recipients, quoting the original message
+  async reply(email: string, messageId: string, body: string, options: ReplyOptions = {}): Promise<string> {
+    this.auth.requireScope(email, "mail:compose");
+    if (options.from) await this.checkSendAs(email, options.from);
+    const original = await this.getFullMessage(email, messageId);
+    const detail = this.toMessageDetail(original);
+    const header = (name: string) => this.getHeader(original, name);
 
-    const hasAttachments = options.attachments && options.attachments.length > 0;
-    const boundary = `boundary_${Date.now()}_${Math.random().toString(36).slice(2)}`;
-
-    const emailHeaders = [
-      `From: ${email}`,
-      `To: ${to.join(", ")}`,
-      options.cc?.length ? `Cc: ${options.cc.join(", ")}` : "",
-      options.bcc?.length ? `Bcc: ${options.bcc.join(", ")}` : "",
-      `Subject: ${subject}`,
-      inReplyTo ? `In-Reply-To: ${inReplyTo}` : "",
-      references ? `References: ${references}` : "",
-      "MIME-Version: 1.0",
-      hasAttachments
-        ? `Content-Type: multipart/mixed; boundary="${boundary}"`
-        : "Content-Type: text/plain; charset=UTF-8",
-    ].filter(Boolean);
-
-    let emailContent: string;
-    if (hasAttachments) {
-      const parts: string[] = [];
-      parts.push(`--${boundary}\r\nContent-Type: text/plain; charset=UTF-8\r\n\r\n${body}`);
-
-      for (const filePath of options.attachments!) {
-        const filename = path.basename(filePath);
-        const fileContent = fs.readFileSync(filePath);
-        const base64Content = fileContent.toString("base64");
-        const mimeType = this.getMimeType(filename);
-        parts.push(
-          `--${boundary}\r\n` +
-            `Content-Type: ${mimeType}\r\n` +
-            "Content-Transfer-Encoding: base64\r\n" +
-            `Content-Disposition: attachment; filename="${filename}"\r\n\r\n` +
-            base64Content
-        );
-      }
-      emailContent = emailHeaders.join("\r\n") + "\r\n\r\n" + parts.join("\r\n") + `\r\n--${boundary}--`;
-    } else {
-      emailContent = emailHeaders.join("\r\n") + "\r\n\r\n" + body;
+    // Mail received through a send-as alias is ours too
+    const ownAddresses = new Set([email, ...(await this.listSendAs(email)).map((s) => s.email)].map((a) => a.toLowerCase()));
+    const own = (a: Address) => ownAddresses.has(a.address.toLowerCase());
+    const fromSelf = parseAddressList(header("from")).some(own);
+    // Replying to our own sent message continues the conversation with its recipients
+    let to = fromSelf ? parseAddressList(header("to")) : parseAddressList(header("reply-to") || header("from"));
+    let cc: Address[] = [];
+    if (options.all) {
+      cc = fromSelf ? parseAddressList(header("cc")) : [...parseAddressList(header("to")), ...parseAddressList(header("cc"))];
+    }
+    to = uniqueAddresses(to.filter((a) => !own(a)));
+    cc = uniqueAddresses(cc.filter((a) => !own(a) && !to.some((t) => sameAddress(t, a))));
+    if (to.length === 0) {
+      to = cc;
+      cc = [];
     }
 
-    const encodedEmail = Buffer.from(emailContent).toString("base64url");
-    const response = await gmail.users.messages.send({
-      userId: "me",
-      requestBody: { raw: encodedEmail, threadId },
+    const reply = this.replyHeaders(original);
+    const mime = buildMimeMessage({
+      from: options.from || email,
+      to: to.map(formatAddress),
+      cc: [...cc.map(formatAddress), ...(options.cc || [])],
+      bcc: options.bcc,
+      subject: withPrefix("Re:", /^re:/i, detail.subject),
+      body: `${body}\n\nOn ${detail.date}, ${detail.from} wrote:\n${quote(detail.body)}`,
+      inReplyTo: reply.inReplyTo,
+      references: reply.references,
+      attachments: this.readAttachments(options.attachments),
     });
+    return this.deliver(email, Buffer.from(mime).toString("base64url"), reply.threadId, options.draft);
+  }
 
-    return response.data.id || "";
+  // Forward a message with its attachments, below an optional note
+  async forward(
+    email: string,
+    messageId: string,
+    to: string[],
+    body = "",
+    options: ForwardOptions = {}
+  ): Promise<string> {
+    this.auth.requireScope(email, "mail:compose");
+    if (options.from) await this.checkSendAs(email, options.from);
+    const original = await this.getFullMessage(email, messageId);
+    const detail = this.toMessageDetail(original);
+    const originalAttachments = await this.fetchAttachments(email, messageId, detail.attachments);
+
+    const forwarded = [
+      "---------- Forwarded message ---------",
+      `From: ${detail.from}`,
+      `Date: ${detail.date}`,
+      `Subject: ${detail.subject}`,
+      `To: ${detail.to}`,
+      detail.cc ? `Cc: ${detail.cc}` : "",
+    ].filter(Boolean).join("\n");
+    // Keep the original HTML version with its inline images below the same header block
+    const html = detail.html === undefined ? undefined : [
+      body ? `<p>${escapeHtml(body).replace(/\n/g, "<br>")}</p>` : "",
+      `<div>${escapeHtml(forwarded).replace(/\n/g, "<br>")}</div><br>`,
+      detail.html,
+    ].join("\n");
+    const inline = html === undefined ? [] : await this.fetchInline(email, messageId, detail.inline);
+
+    const mime = buildMimeMessage({
+      from: options.from || email,
+      to,
+      cc: options.cc,
+      bcc: options.bcc,
+      subject: withPrefix("Fwd:", /^(fwd?|fw):/i, detail.subject),
+      body: `${body ? `${body}\n\n` : ""}${forwarded}\n\n${detail.body}`,
+      html,
+      inline,
+      attachments: [...originalAttachments, ...this.readAttachments(options.attachments)],
+    });
+    return this.deliver(email, Buffer.from(mime).toString("base64url"), undefined, options.draft);
   }
 
-  async createDraft(
+  // Rebuild a draft with the given changes. Anything not changed, including
+  // existing attachments and reply threading, is carried over.
+  async updateDraft(email: string, draftId: string, changes: DraftChanges): Promise<string> {
+    this.auth.requireScope(email, "mail:compose");
+    const gmail = this.getClient(email);
+    if (changes.from) await this.checkSendAs(email, changes.from);
+    const current = await this.call(() => gmail.users.drafts.get({ userId: "me", id: draftId, format: "full" }));
+    const message = current.data.message || {};
+    const detail = this.toMessageDetail(message);
+    const header = (name: string) => this.getHeader(message, name);
+    const list = (value: string | undefined) => (value ? [value] : []);
+
+    const kept = changes.clearAttachments ? [] : await this.fetchAttachments(email, message.id!, detail.attachments);
+    // A new body replaces the HTML version too; otherwise keep it with its images
+    const keepHtml = changes.body === undefined && changes.html === undefined && detail.html !== undefined;
+    const inline = keepHtml ? await this.fetchInline(email, message.id!, detail.inline) : this.readInline(changes.inline);
+    const inReplyTo = header("in-reply-to");
+    const raw = Buffer.from(buildMimeMessage({
+      from: changes.from ?? header("from") ?? email,
+      to: changes.to ?? list(header("to")),
+      cc: changes.cc ?? list(header("cc")),
+      bcc: changes.bcc ?? list(header("bcc")),
+      subject: changes.subject ?? detail.subject,
+      body: changes.body ?? detail.body,
+      html: keepHtml ? detail.html : changes.html,
+      inline,
+      inReplyTo,
+      references: header("references"),
+      attachments: [...kept, ...this.readAttachments(changes.attachments)],
+    })).toString("base64url");
+
+    const response = await this.call(() => gmail.users.drafts.update({
+      userId: "me",
+      id: draftId,
+      requestBody: { id: draftId, message: { raw, threadId: inReplyTo ? message.threadId : undefined } },
+    }));
+    return response.data.id || draftId;
+  }
+
+  async showDraft(email: string, draftId: string): Promise<DraftDetail> {
+    const gmail = this.getClient(email);
+    const response = await this.call(() => gmail.users.drafts.get({ userId: "me", id: draftId, format: "full" }));
+    const message = response.data.message || {};
+    return {
+      id: response.data.id || draftId,
+      threadId: message.threadId || undefined,
+      message: this.toMessageDetail(message),
+    };
+  }
+
+  // Raw RFC 822 message plus the thread it belongs to when replying
+  private async compose(
     email: string,
     to: string[],
     subject: string,
     body: string,
-    options: SendOptions = {}
-  ): Promise<string> {
+    options: SendOptions
+  ): Promise<{ raw: string; threadId?: string }> {
+    if (options.from) await this.checkSendAs(email, options.from);
+    const reply = options.replyToMessageId ? await this.getReplyHeaders(email, options.replyToMessageId) : {};
+    const mime = buildMimeMessage({
+      from: options.from || email,
+      to,
+      cc: options.cc,
+      bcc: options.bcc,
+      subject,
+      body,
+      html: options.html,
+      inline: this.readInline(options.inline),
+      inReplyTo: reply.inReplyTo,
+      references: reply.references,
+      attachments: this.readAttachments(options.attachments),
+    });
+    return { raw: Buffer.from(mime).toString("base64url"), threadId: reply.threadId };
+  }
+
+  private async getReplyHeaders(email: string, messageId: string): Promise<ReplyHeaders> {
     const gmail = this.getClient(email);
+    const msg = await this.call(() => gmail.users.messages.get({
+      userId: "me",
+      id: messageId,
+      format: "metadata",
+      metadataHeaders: ["Message-ID", "References"],
+    }));
+    return this.replyHeaders(msg.data);
+  }
 
-    const emailHeaders = [
-      `From: ${email}`,
-      `To: ${to.join(", ")}`,
-      options.cc?.length ? `Cc: ${options.cc.join(", ")}` : "",
-      `Subject: ${subject}`,
-      "MIME-Version: 1.0",
-      "Content-Type: text/plain; charset=UTF-8",
-    ].filter(Boolean);
+  private replyHeaders(original: gmail_v1.Schema$Message): ReplyHeaders {
+    const messageId = this.getHeader(original, "message-id");
+    const existingRefs = this.getHeader(original, "references");
+    return {
+      inReplyTo: messageId,
+      references: messageId ? (existingRefs ? `${existingRefs} ${messageId}` : messageId) : undefined,
+      threadId: original.threadId || undefined,
+    };
+  }
 
-    const emailContent = emailHeaders.join("\r\n") + "\r\n\r\n" + body;
-    const encodedEmail = Buffer.from(emailContent).toString("base64url");
+  private async getFullMessage(email: string, messageId: string): Promise<gmail_v1.Schema$Message> {
+    const gmail = this.getClient(email);
+    const response = await this.call(() => gmail.users.messages.get({ userId: "me", id: messageId, format: "full" }));
+    return response.data;
+  }
 
-    const response = await gmail.users.drafts.create({
+  // Send a raw message, or save it as a new draft
+  private async deliver(email: string, raw: string, threadId: string | undefined, asDraft = false): Promise<string> {
+    const gmail = this.getClient(email);
+    if (asDraft) {
+      const response = await this.call(() => gmail.users.drafts.create({
+        userId: "me",
+        requestBody: { message: { raw, threadId } },
+      }), { idempotent: false });
+      return response.data.id || "";
+    }
+    const response = await this.call(() => gmail.users.messages.send({
       userId: "me",
-      requestBody: { message: { raw: encodedEmail } },
+      requestBody: { raw, threadId },
+    }), { idempotent: false });
+    return response.data.id || "";
+  }
+
+  private readAttachments(filePaths: string[] = []): MimeAttachment[] {
+    return filePaths.map((filePath) => {
+      const filename = path.basename(filePath);
+      return { filename, mimeType: mimeTypeFor(filename), content: fs.readFileSync(filePath) };
     });
+  }
 
-    return response.data.id || "";
+  // Inline images, addressed from the HTML as cid:<file name>
+  private readInline(filePaths: string[] = []): MimeAttachment[] {
+    return this.readAttachments(filePaths).map((file) => ({ ...file, contentId: file.filename }));
   }
 
-  getThreadUrl(email: string, threadId: string): string {
-    return `https://mail.google.com/mail/u/?authuser=${encodeURIComponent(email)}#all/${threadId}`;
+  private async fetchAttachments(email: string, messageId: string, attachments: Attachment[]): Promise<MimeAttachment[]> {
+    return mapWithConcurrency(attachments, DETAIL_CONCURRENCY, async (attachment) => ({
+      filename: attachment.filename,
+      mimeType: attachment.mimeType,
+      content: await this.fetchAttachmentData(email, messageId, attachment.id),
+    }));
   }
 
-  private getHeader(message: gmail_v1.Schema$Message | undefined, name: string): string | undefined {
-    const header = message?.payload?.headers?.find(
-      (h) => h.name?.toLowerCase() === name.toLowerCase()
-    );
-    return header?.value || undefined;
+  private async fetchInline(email: string, messageId: string, parts: InlinePart[]): Promise<MimeAttachment[]> {
+    const stored = parts.filter((part) => part.attachmentId);
+    return mapWithConcurrency(stored, DETAIL_CONCURRENCY, async (part) => ({
+      filename: part.filename || part.contentId,
+      mimeType: part.mimeType,
+      contentId: part.contentId,
+      content: await this.fetchAttachmentData(email, messageId, part.attachmentId!),
+    }));
   }
 
-  private getBody(message: gmail_v1.Schema$Message): string {
-    const payload = message.payload;
-    if (!payload) return "";
+  private async fetchAttachmentData(email: string, messageId: string, attachmentId: string): Promise<Buffer> {
+    const gmail = this.getClient(email);
+    const response = await this.call(() => gmail.users.messages.attachments.get({ userId: "me", messageId, id: attachmentId }));
+    return Buffer.from(response.data.data || "", "base64url");
+  }
 
-    if (payload.body?.data) {
-      return Buffer.from(payload.body.data, "base64url").toString();
+  // Gmail silently sends from the primary address when From is not a
+  // verified send-as alias, so refuse instead
+  private async checkSendAs(email: string, from: string): Promise<void> {
+    const address = parseAddressList(from)[0]?.address.toLowerCase();
+    const allowed = (await this.listSendAs(email))
+      .filter((s) => s.isPrimary || s.verificationStatus === "accepted")
+      .map((s) => s.email.toLowerCase());
+    if (!address || !allowed.includes(address)) {
+      throw new CliError(
+        `'${from}' is not a verified send-as address for ${email}. Available: ${allowed.join(", ") || "none"}`,
+        ExitCode.INVALID_INPUT
+      );
     }
+  }
 
-    if (payload.parts) {
-      for (const part of payload.parts) {
-        if (part.mimeType === "text/plain" && part.body?.data) {
-          return Buffer.from(part.body.data, "base64url").toString();
-        }
-      }
-      for (const part of payload.parts) {
-        if (part.mimeType === "text/html" && part.body?.data) {
-          return Buffer.from(part.body.data, "base64url").toString();
-        }
-      }
-    }
+  // Save the attachments of a thread, or of a single message when the ID is
+  // not a thread. Names come from the sender, so they are sanitized and never
+  // overwrite existing files.
+  async downloadAttachments(
+    email: string,
+    id: string,
+    options: AttachmentDownloadOptions = {}
+  ): Promise<SavedAttachment[]> {
+    const gmail = this.getClient(email);
+    const messages = await this.getThreadOrMessage(email, id);
+    const pattern = options.match ? globToRegExp(options.match) : undefined;
+    const outDir = options.outDir || path.join(this.accountStorage.getConfigDir(), "downloads");
 
-    return message.snippet || "";
-  }
+    const wanted = messages.flatMap((message) =>
+      parseMessagePayload(message.payload).attachments
+        .filter((a) => !pattern || pattern.test(a.filename))
+        .map((attachment) => ({ messageId: message.id!, attachment }))
+    );
 
-  private getAttachments(message: gmail_v1.Schema$Message): Attachment[] {
-    const attachments: Attachment[] = [];
-    const parts = message.payload?.parts || [];
+    const contents = await mapWithConcurrency(wanted, DETAIL_CONCURRENCY, ({ messageId, attachment }) =>
+      this.call(() => gmail.users.messages.attachments.get({ userId: "me", messageId, id: attachment.id }))
+    );
 
-    for (const part of parts) {
-      if (part.filename && part.body?.attachmentId) {
-        attachments.push({
-          id: part.body.attachmentId,
-          filename: part.filename,
-          mimeType: part.mimeType || "application/octet-stream",
-          size: part.body.size || 0,
-        });
-      }
+    return wanted.map(({ messageId, attachment }, i) => {
+      const data = Buffer.from(contents[i].data.data || "", "base64url");
+      const filePath = writeNewFile(outDir, sanitizeFilename(attachment.filename, "attachment"), data);
+      return { messageId, filename: attachment.filename, mimeType: attachment.mimeType, path: filePath, size: data.length };
+    });
+  }
+
+  private async getThreadOrMessage(email: string, id: string): Promise<gmail_v1.Schema$Message[]> {
+    const gmail = this.getClient(email);
+    try {
+      const thread = await this.call(() => gmail.users.threads.get({ userId: "me", id }));
+      return thread.data.messages || [];
+    } catch (e) {
+      if (getErrorStatus(e) !== 404) throw e;
     }
+    const message = await this.call(() => gmail.users.messages.get({ userId: "me", id }));
+    return [message.data];
+  }
+
+  getThreadUrl(email: string, threadId: string): string {
+    return `https://mail.google.com/mail/u/?authuser=${encodeURIComponent(email)}#all/${threadId}`;
+  }
 
-    return attachments;
-  }
-
-  private getMimeType(filename: string): string {
-    const ext = path.extname(filename).toLowerCase();
-    const mimeTypes: Record<string, string> = {
-      ".pdf": "application/pdf",
-      ".doc": "application/msword",
-      ".docx": "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
-      ".xls": "application/vnd.ms-excel",
-      ".xlsx": "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
-      ".png": "image/png",
-      ".jpg": "image/jpeg",
-      ".jpeg": "image/jpeg",
-      ".gif": "image/gif",
-      ".txt": "text/plain",
-      ".html": "text/html",
-      ".zip": "application/zip",
-      ".json": "application/json",
+  private toMessageDetail(msg: gmail_v1.Schema$Message): MessageDetail {
+    const parsed = parseMessagePayload(msg.payload);
+    return {
+      id: msg.id!,
+      from: this.getHeader(msg, "from") || "",
+      to: this.getHeader(msg, "to") || "",
+      cc: this.getHeader(msg, "cc") || "",
+      bcc: this.getHeader(msg, "bcc") || undefined,
+      subject: this.getHeader(msg, "subject") || "",
+      date: this.getHeader(msg, "date") || "",
+      body: parsed.text ?? (parsed.html !== undefined ? htmlToText(parsed.html) : msg.snippet || ""),
+      html: parsed.html,
+      labels: msg.labelIds || [],
+      attachments: parsed.attachments,
+      inline: parsed.inline,
     };
-    return mimeTypes[ext] || "application/octet-stream";
+  }
+
+  private getHeader(message: gmail_v1.Schema$Message | undefined, name: string): string | undefined {
+    const header = message?.payload?.headers?.find(
+      (h) => h.name?.toLowerCase() === name.toLowerCase()
+    );
+    return header?.value || undefined;
   }
 }
 
@@ -350,24 +1017,125 @@ export interface MessageDetail {
   id: string;
   from: string;
   to: string;
+  cc: string;
+  bcc?: string;    // Only known for drafts and sent mail
   subject: string;
   date: string;
-  body: string;
+  body: string;    // Plain text part, or the HTML part rendered as text
+  html?: string;
   labels: string[];
   attachments: Attachment[];
+  inline: InlinePart[];
 }
 
-export interface Attachment {
-  id: string;
-  filename: string;
+export interface FullMessage extends MessageDetail {
+  threadId: string;
+  receivedAt: string;  // ISO time Gmail received the message; Date headers can be missing or wrong
+}
+
+export type { Attachment, InlinePart };
+
+export interface AttachmentDownloadOptions {
+  outDir?: string;   // Defaults to <config dir>/downloads
+  match?: string;    // Glob on the attachment filename, e.g. "*.pdf"
+}
+
+export interface SavedAttachment {
+  messageId: string;
+  filename: string;  // Original name as sent
   mimeType: string;
+  path: string;      // Where it was saved (sanitized, de-duplicated)
   size: number;
 }
 
+export interface MailChange {
+  historyId: string;
+  type: "added" | "deleted" | "labelsAdded" | "labelsRemoved";
+  messageId: string;
+  threadId: string;
+  labels: string[];  // Labels of an added message, or the labels added/removed
+}
+
+export interface MessageSummary {
+  id: string;
+  threadId: string;
+  date: string;
+  from: string;
+  to: string;
+  subject: string;
+  snippet: string;
+  labels: string[];
+}
+
+export interface RawMessage {
+  id: string;
+  threadId: string;
+  labels: string[];
+  date: Date;        // When Gmail received the message (internalDate)
+  raw: Buffer;
+}
+
+export interface MessageHeaders {
+  id: string;
+  threadId: string;
+  headers: Record<string, string>;  // Lowercase name to value; the first of repeated fields
+}
+
+export interface MessageSource extends RawMessage {
+  headers: RawHeader[];  // All header fields in order; the newest Received comes first
+  size: number;          // Bytes in raw
+  headerSize: number;    // Bytes of the header block, including the blank line after it
+}
+
+export interface SendAs {
+  email: string;
+  displayName: string;
+  replyTo?: string;
+  isPrimary: boolean;            // The account's own address
+  isDefault: boolean;            // Used when no From is given
+  verificationStatus?: string;   // "accepted" or "pending"; unset for the primary address
+  signature: string;             // HTML
+}
+
+export interface VacationSettings {
+  enabled: boolean;
+  subject?: string;
+  text?: string;                 // Plain text reply
+  html?: string;                 // HTML reply; used instead of text when set
+  start?: string;                // ISO time; replies start immediately when unset
+  end?: string;                  // ISO time; replies continue until disabled when unset
+  contactsOnly: boolean;         // Only reply to people in the account's contacts
+  domainOnly: boolean;           // Only reply within the Workspace domain
+}
+
 export interface Label {
   id: string;
-  name: string;
+  name: string;      // Nested labels are named "Parent/Child"
   type: string;
+  color?: LabelColor;
+}
+
+// Hex colors; Gmail only accepts values from its label palette
+export interface LabelColor {
+  background: string;
+  text: string;
+}
+
+export interface FilterCreateOptions {
+  createLabels?: boolean;  // Create labels the filter names that do not exist
+}
+
+export interface FilterImportOptions {
+  dryRun?: boolean;        // Report what would be created without changing anything
+}
+
+export interface FilterImportResult {
+  index: number;           // 1-based position in the imported list
+  filter: FilterSpec;
+  status: "created" | "exists" | "preview" | "failed";
+  id?: string;
+  newLabels: string[];     // Labels created (or, on a dry run, to be created) for it
+  error?: string;
 }
 
 export interface Draft {
@@ -375,9 +1143,55 @@ export interface Draft {
   messageId?: string;
 }
 
+export interface DraftDetail {
+  id: string;
+  threadId?: string;
+  message: MessageDetail;
+}
+
+// Fields left undefined keep their current value
+export interface DraftChanges {
+  to?: string[];
+  cc?: string[];
+  bcc?: string[];
+  from?: string;
+  subject?: string;
+  body?: string;
+  html?: string;
+  inline?: string[];           // Used with html
+  attachments?: string[];      // Files to add
+  clearAttachments?: boolean;  // Drop the draft's current attachments first
+}
+
+interface ReplyHeaders {
+  inReplyTo?: string;
+  references?: string;
+  threadId?: string;
+}
+
+export interface ReplyOptions {
+  all?: boolean;          // Also reply to the original To and Cc recipients
+  from?: string;          // Verified send-as alias
+  cc?: string[];
+  bcc?: string[];
+  attachments?: string[];
+  draft?: boolean;        // Save as a draft instead of sending
+}
+
+export interface ForwardOptions {
+  from?: string;          // Verified send-as alias
+  cc?: string[];
+  bcc?: string[];
+  attachments?: string[];
+  draft?: boolean;        // Save as a draft instead of sending
+}
+
 export interface SendOptions {
   cc?: string[];
   bcc?: string[];
   attachments?: string[];
   replyToMessageId?: string;
+  from?: string;        // Verified send-as alias, e.g. "Support <support@example.com>"
+  html?: string;        // HTML version of the body, sent as multipart/alternative
+  inline?: string[];    // Image files referenced from the HTML as cid:<file name>
 }
@@ -0,0 +1,354 @@
+// ABOUTME: Opt-in local copy of an account's mail, searchable without a network
+// ABOUTME: Fills from a Gmail query once, then follows the History API; search uses an inverted index
+
+import * as fs from "fs";
+import * as path from "path";
+import { AccountStorage } from "../account-storage.js";
+import { GmailService, type FullMessage, type ThreadDetail, type ThreadSummary } from "./gmail.js";
+import { mapWithConcurrency } from "../utils/concurrency.js";
+import { CliError, ExitCode, getErrorStatus } from "../utils/errors.js";
+import { sanitizeFilename } from "../utils/files.js";
+import { InvertedIndex, containsPhrase, parseQuery } from "../utils/text-index.js";
+import { writeFileAtomic } from "../utils/secure-file.js";
+
+// Messages fetched in parallel; the index is saved after each page of IDs or on failure
+const FETCH_BATCH = 10;
+
+const SEARCH_FIELDS = ["subject", "from", "body"] as const;
+
+// Never cached: drafts change with every save, and Gmail search leaves out spam and trash
+const SKIPPED_LABELS = ["DRAFT", "SPAM", "TRASH"];
+
+// Stored without the HTML part; the text body is what is searched and shown
+type CachedMessage = Omit<FullMessage, "html" | "inline">;
+
+interface CachedDoc {
+  threadId: string;
+  date: string;
+  receivedAt: string;
+  from: string;
+  subject: string;
+  labels: string[];
+}
+
+interface CacheState {
+  historyId: string;   // Changes after this are not in the cache yet
+  query: string;       // Gmail query the cache was filled from
+  max?: number;        // Newest messages kept by the first fill
+  complete: boolean;   // False while the first fill is unfinished
+  syncedAt?: string;
+}
+
+export class MailCache {
+  private rootDir: string;
+
+  constructor(
+    private gmail: GmailService,
+    accountStorage: AccountStorage
+  ) {
+    this.rootDir = path.join(accountStorage.getConfigDir(), "cache");
+  }
+
+  // Fill the cache on the first run (resuming an interrupted fill), then
+  // apply every change since the last sync. When Gmail no longer has history
+  // that far back, the cache is rebuilt from scratch.
+  async sync(email: string, options: SyncOptions = {}): Promise<SyncResult> {
+    const dir = this.dirFor(email);
+    if (options.full) fs.rmSync(dir, { recursive: true, force: true });
+    const cache = new AccountCache(dir);
+    const progress: SyncProgress = { added: 0, removed: 0, updated: 0 };
+
+    if (!cache.state) {
+      cache.state = {
+        historyId: await this.gmail.getHistoryId(email),
+        query: options.query ?? "",
+        max: options.maxMessages,
+        complete: false,
+      };
+      cache.saveState();
+    } else if (options.query !== undefined && options.query !== cache.state.query) {
+      throw new CliError(
+        `The cache for ${email} was filled with --query "${cache.state.query}". Add --full to rebuild it with a new query`,
+        ExitCode.INVALID_INPUT
+      );
+    }
+
+    if (!cache.state.complete) await this.fill(email, cache, progress, options.onProgress);
+
+    let history;
+    try {
+      history = await this.gmail.listHistory(email, cache.state.historyId);
+    } catch (e) {
+      if (!(e instanceof CliError && e.exitCode === ExitCode.NOT_FOUND)) throw e;
+      const { query, max } = cache.state;
+      const rebuilt = await this.sync(email, { ...options, full: true, query, maxMessages: max });
+      return { ...rebuilt, rebuilt: true };
+    }
+
+    const pending = new Set<string>();
+    const updated = new Set<string>();
+    for (const change of history.changes) {
+      const id = change.messageId;
+      if (change.type === "added") {
+        if (!cache.has(id) && isCacheable(change.labels)) pending.add(id);
+      } else if (change.type === "deleted") {
+        pending.delete(id);
+        if (cache.remove(id)) progress.removed++;
+      } else if (cache.has(id)) {
+        const current = cache.labels(id);
+        const labels = change.type === "labelsAdded"
+          ? [...new Set([...current, ...change.labels])]
+          : current.filter((l) => !change.labels.includes(l));
+        if (isCacheable(labels)) {
+          cache.setLabels(id, labels);
+          updated.add(id);
+        } else if (cache.remove(id)) {
+          updated.delete(id);
+          progress.removed++;
+        }
+      } else if (change.type === "labelsRemoved" && change.labels.some((l) => SKIPPED_LABELS.includes(l))) {
+        // Out of spam or trash; fetched to see its labels now
+        pending.add(id);
+      }
+    }
+    progress.updated = updated.size;
+    await this.fetchInto(email, cache, [...pending], progress, options.onProgress);
+
+    cache.state.historyId = history.historyId;
+    cache.state.syncedAt = new Date().toISOString();
+    cache.save();
+    cache.saveState();
+    return { ...progress, messages: cache.size, historyId: history.historyId, rebuilt: false };
+  }
+
+  // Threads whose messages match every term, newest first. Each thread is
+  // shown by its newest matching message.
+  search(email: string, query: string, maxResults = 10): ThreadSummary[] {
+    const cache = this.open(email);
+    let ids: Set<string> | undefined;
+    for (const term of parseQuery(query, SEARCH_FIELDS)) {
+      const fields = term.field ? [term.field] : SEARCH_FIELDS;
+      let matches = [...cache.index.lookup(term.words, fields)];
+      if (ids) matches = matches.filter((id) => ids!.has(id));
+      if (term.phrase) {
+        matches = matches.filter((id) => {
+          const message = cache.read(id);
+          if (!message) return false;
+          const text = searchText(message);
+          return fields.some((field) => containsPhrase(text[field as keyof typeof text], term.words));
+        });
+      }
+      ids = new Set(matches);
+    }
+
+    const threads = new Map<string, ThreadSummary>();
+    for (const [id, doc] of cache.newestFirst()) {
+      if (ids && !ids.has(id)) continue;
+      if (threads.has(doc.threadId)) continue;
+      threads.set(doc.threadId, { id: doc.threadId, date: doc.date, from: doc.from, subject: doc.subject, labels: doc.labels });
+      if (threads.size >= maxResults) break;
+    }
+    return [...threads.values()];
+  }
+
+  getThread(email: string, threadId: string): ThreadDetail {
+    const cache = this.open(email);
+    const messages = cache.newestFirst()
+      .filter(([, doc]) => doc.threadId === threadId)
+      .reverse()
+      .flatMap(([id]) => {
+        const message = cache.read(id);
+        return message ? [{ ...message, inline: [] }] : [];
+      });
+    if (messages.length === 0) {
+      throw new CliError(`Thread ${threadId} is not in the offline cache. Run "mail sync" to update it`, ExitCode.NOT_FOUND);
+    }
+    return { id: threadId, messages };
+  }
+
+  private async fill(
+    email: string,
+    cache: AccountCache,
+    progress: SyncProgress,
+    onProgress?: (p: SyncProgress) => void
+  ): Promise<void> {
+    const state = cache.state!;
+    const limit = state.max ?? Infinity;
+    let listed = 0;
+    let pageToken: string | undefined;
+
+    do {
+      const page = await this.gmail.listMessageIds(email, state.query, pageToken);
+      const ids = page.ids.slice(0, limit - listed);
+      listed += ids.length;
+      try {
+        await this.fetchInto(email, cache, ids.filter((id) => !cache.has(id)), progress, onProgress);
+      } finally {
+        // Keep what was fetched, even when a later message fails
+        cache.save();
+      }
+      pageToken = page.nextPageToken;
+    } while (pageToken && listed < limit);
+
+    state.complete = true;
+    cache.saveState();
+  }
+
+  private async fetchInto(
+    email: string,
+    cache: AccountCache,
+    ids: string[],
+    progress: SyncProgress,
+    onProgress?: (p: SyncProgress) => void
+  ): Promise<void> {
+    for (let i = 0; i < ids.length; i += FETCH_BATCH) {
+      const messages = await mapWithConcurrency(ids.slice(i, i + FETCH_BATCH), FETCH_BATCH, async (id) => {
+        try {
+          return await this.gmail.getMessage(email, id);
+        } catch (e) {
+          // Deleted since it was listed
+          if (getErrorStatus(e) === 404) return undefined;
+          throw e;
+        }
+      });
+      for (const message of messages) {
+        if (!message || !isCacheable(message.labels)) continue;
+        cache.add(message);
+        progress.added++;
+      }
+      onProgress?.({ ...progress });
+    }
+  }
+
+  private open(email: string): AccountCache {
+    const cache = new AccountCache(this.dirFor(email));
+    if (!cache.state) {
+      throw new CliError(`No offline cache for ${email}. Run "mail sync" first`, ExitCode.NOT_FOUND);
+    }
+    return cache;
+  }
+
+  private dirFor(email: string): string {
+    return path.join(this.rootDir, email);
+  }
+}
+
+// <cache>/<email>/: state.json, index.json (message headers plus postings) and
+// messages/<id>.json. The index decides what is cached, so a message file
+// written just before an interruption is fetched again. Unlike accounts.json
+// the cache is not encrypted; files are 0600 in 0700 directories.
+class AccountCache {
+  readonly index: InvertedIndex;
+  state: CacheState | undefined;
+  private docs: Record<string, CachedDoc>;
+  private messagesDir: string;
+
+  constructor(private dir: string) {
+    this.messagesDir = path.join(dir, "messages");
+    const index = readJson<{ docs: Record<string, CachedDoc>; postings: Record<string, string[]> }>(this.file("index.json"));
+    this.docs = index?.docs ?? {};
+    this.index = new InvertedIndex(index?.postings);
+    this.state = readJson<CacheState>(this.file("state.json"));
+  }
+
+  get size(): number {
+    return Object.keys(this.docs).length;
+  }
+
+  has(id: string): boolean {
+    return id in this.docs;
+  }
+
+  labels(id: string): string[] {
+    return this.docs[id].labels;
+  }
+
+  newestFirst(): [string, CachedDoc][] {
+    return Object.entries(this.docs).sort(([, a], [, b]) => b.receivedAt.localeCompare(a.receivedAt));
+  }
+
+  // Undefined when a sync removed the file but died before saving the index
+  read(id: string): CachedMessage | undefined {
+    return readJson<CachedMessage>(this.messageFile(id));
+  }
+
+  add(message: FullMessage): void {
+    this.remove(message.id);
+    const { html: _html, inline: _inline, ...cached } = message;
+    fs.mkdirSync(this.messagesDir, { recursive: true, mode: 0o700 });
+    writeFileAtomic(this.messageFile(message.id), JSON.stringify(cached));
+    const { threadId, date, receivedAt, from, subject, labels } = message;
+    this.docs[message.id] = { threadId, date, receivedAt, from, subject, labels };
+    this.index.add(message.id, searchText(cached));
+  }
+
+  remove(id: string): boolean {
+    if (!this.has(id)) return false;
+    const message = this.read(id);
+    if (message) {
+      this.index.remove(id, searchText(message));
+      fs.rmSync(this.messageFile(id));
+    }
+    delete this.docs[id];
+    return true;
+  }
+
+  setLabels(id: string, labels: string[]): void {
+    this.docs[id].labels = labels;
+    const message = this.read(id);
+    if (message) writeFileAtomic(this.messageFile(id), JSON.stringify({ ...message, labels }));
+  }
+
+  save(): void {
+    this.write("index.json", { docs: this.docs, postings: this.index.toJSON() });
+  }
+
+  saveState(): void {
+    this.write("state.json", this.state);
+  }
+
+  private write(name: string, value: unknown): void {
+    fs.mkdirSync(this.dir, { recursive: true, mode: 0o700 });
+    writeFileAtomic(this.file(name), JSON.stringify(value));
+  }
+
+  private file(name: string): string {
+    return path.join(this.dir, name);
+  }
+
+  private messageFile(id: string): string {
+    return path.join(this.messagesDir, `${sanitizeFilename(id)}.json`);
+  }
+}
+
+function searchText(message: CachedMessage): Record<(typeof SEARCH_FIELDS)[number], string> {
+  return { subject: message.subject, from: message.from, body: message.body };
+}
+
+function isCacheable(labels: string[]): boolean {
+  return !labels.some((l) => SKIPPED_LABELS.includes(l));
+}
+
+function readJson<T>(file: string): T | undefined {
+  if (!fs.existsSync(file)) return undefined;
+  return JSON.parse(fs.readFileSync(file, "utf8")) as T;
+}
+
+export interface SyncOptions {
+  query?: string;         // Gmail query for the first fill, e.g. "newer_than:1y"; later mail is always added
+  maxMessages?: number;   // Keep only this many of the newest matching messages on the first fill
+  full?: boolean;         // Throw the cache away and fill it again
+  onProgress?: (progress: SyncProgress) => void;
+}
+
+export interface SyncProgress {
+  added: number;          // Messages fetched into the cache
+  removed: number;        // Deleted, or moved to spam or trash
+  updated: number;        // Label changes applied
+}
+
+export interface SyncResult extends SyncProgress {
+  messages: number;       // Messages now in the cache
+  historyId: string;      // The cache is current up to here
+  rebuilt: boolean;       // History had expired, so the cache was filled again
+}
@@ -0,0 +1,134 @@
+// ABOUTME: Incremental mail change feed on the Gmail History API
+// ABOUTME: Keeps a history checkpoint per account and polls it for new messages
+
+import * as fs from "fs";
+import * as path from "path";
+import { AccountStorage } from "../account-storage.js";
+import { GmailService, type MailChange, type MessageSummary } from "./gmail.js";
+import { mapWithConcurrency } from "../utils/concurrency.js";
+import { getErrorStatus } from "../utils/errors.js";
+import { writeFileAtomic } from "../utils/secure-file.js";
+
+const SUMMARY_CONCURRENCY = 10;
+
+export class MailChanges {
+  private checkpointFile: string;
+
+  constructor(
+    private gmail: GmailService,
+    accountStorage: AccountStorage
+  ) {
+    this.checkpointFile = path.join(accountStorage.getConfigDir(), "history.json");
+  }
+
+  getCheckpoint(email: string): string | undefined {
+    return this.readCheckpoints()[email];
+  }
+
+  setCheckpoint(email: string, historyId: string): void {
+    writeFileAtomic(this.checkpointFile, JSON.stringify({ ...this.readCheckpoints(), [email]: historyId }, null, 2));
+  }
+
+  // Changes since `since`, or since the stored checkpoint, which then moves
+  // forward. Without either, the checkpoint is set to now and nothing is reported.
+  async changes(email: string, options: ChangesOptions = {}): Promise<ChangesResult> {
+    const start = options.reset ? undefined : options.since ?? this.getCheckpoint(email);
+    if (start === undefined) {
+      const historyId = await this.gmail.getHistoryId(email);
+      this.setCheckpoint(email, historyId);
+      return { changes: [], historyId, checkpointSet: true };
+    }
+
+    const { changes, historyId } = await this.gmail.listHistory(email, start);
+    if (options.since === undefined) this.setCheckpoint(email, historyId);
+    return { changes, historyId, from: start, checkpointSet: options.since === undefined };
+  }
+
+  // New messages since the checkpoint, which moves forward only after every
+  // event has been passed to onEvent, so a failed poll is repeated in full.
+  // Drafts, and messages deleted again before the poll, are left out.
+  async poll(email: string, options: PollOptions = {}): Promise<NewMessageEvent[]> {
+    const start = this.getCheckpoint(email);
+    if (start === undefined) {
+      this.setCheckpoint(email, await this.gmail.getHistoryId(email));
+      return [];
+    }
+
+    const { changes, historyId } = await this.gmail.listHistory(email, start);
+    const deleted = new Set(changes.filter((c) => c.type === "deleted").map((c) => c.messageId));
+    const added = new Map<string, MailChange>();
+    for (const change of changes) {
+      if (change.type !== "added" || deleted.has(change.messageId) || change.labels.includes("DRAFT")) continue;
+      if (options.labelId && !change.labels.includes(options.labelId)) continue;
+      added.set(change.messageId, change);
+    }
+
+    const summaries = await mapWithConcurrency([...added.values()], SUMMARY_CONCURRENCY, async (change) => {
+      try {
+        const summary = await this.gmail.getMessageSummary(email, change.messageId);
+        return { type: "message" as const, historyId: change.historyId, ...summary };
+      } catch (e) {
+        // Deleted between the history read and now
+        if (getErrorStatus(e) === 404) return undefined;
+        throw e;
+      }
+    });
+    const events = summaries.filter((e): e is NewMessageEvent => e !== undefined);
+    for (const event of events) options.onEvent?.(event);
+    this.setCheckpoint(email, historyId);
+    return events;
+  }
+
+  // Poll every intervalMs until the signal aborts, reporting each new message
+  async watch(email: string, options: WatchOptions): Promise<void> {
+    const [labelId] = await this.gmail.resolveLabelIds(email, options.label ? [options.label] : []);
+    while (!options.signal?.aborted) {
+      await this.poll(email, { labelId, onEvent: options.onEvent });
+      await sleep(options.intervalMs, options.signal);
+    }
+  }
+
+  private readCheckpoints(): Record<string, string> {
+    if (!fs.existsSync(this.checkpointFile)) return {};
+    return JSON.parse(fs.readFileSync(this.checkpointFile, "utf8")) as Record<string, string>;
+  }
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener("abort", () => {
+      clearTimeout(timer);
+      resolve();
+    }, { once: true });
+  });
+}
+
+export interface ChangesOptions {
+  since?: string;          // Read from this history ID; the checkpoint is left alone
+  reset?: boolean;         // Move the checkpoint to now without reporting changes
+}
+
+export interface ChangesResult {
+  changes: MailChange[];
+  historyId: string;       // Latest history ID; pass as --since to continue from here
+  from?: string;           // History ID the changes were read from
+  checkpointSet: boolean;  // Whether the stored checkpoint moved to historyId
+}
+
+export interface NewMessageEvent extends MessageSummary {
+  type: "message";
+  historyId: string;
+}
+
+export interface PollOptions {
+  labelId?: string;        // Only messages that arrived with this label ID
+  onEvent?: (event: NewMessageEvent) => void;
+}
+
+export interface WatchOptions {
+  intervalMs: number;
+  label?: string;          // Only messages that arrived with this label (name or ID), e.g. INBOX
+  signal?: AbortSignal;    // Stops the loop
+  onEvent: (event: NewMessageEvent) => void;
+}
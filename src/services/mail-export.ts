@@ -0,0 +1,147 @@
+// ABOUTME: Exports the messages matching a Gmail query as an mbox file or .eml files
+// ABOUTME: Records progress as it goes so an interrupted export resumes where it stopped
+
+import * as fs from "fs";
+import * as path from "path";
+import { GmailService, type RawMessage } from "./gmail.js";
+import { mapWithConcurrency } from "../utils/concurrency.js";
+import { CliError, ExitCode } from "../utils/errors.js";
+import { sanitizeFilename } from "../utils/files.js";
+import { toMboxEntry } from "../utils/mbox.js";
+import { writeFileAtomic } from "../utils/secure-file.js";
+
+// Raw messages fetched in parallel, then written in query order
+const FETCH_BATCH = 10;
+
+export const EXPORT_FORMATS = ["mbox", "eml"] as const;
+
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+interface ExportTarget {
+  has(id: string): boolean;
+  write(message: RawMessage): void;
+}
+
+export class MailExport {
+  constructor(private gmail: GmailService) {}
+
+  async run(email: string, query: string, options: ExportOptions): Promise<ExportResult> {
+    const target = options.format === "mbox" ? new MboxTarget(options.out) : new EmlTarget(options.out);
+    const limit = options.maxMessages ?? Infinity;
+    const progress: ExportProgress = { exported: 0, skipped: 0 };
+    let pageToken: string | undefined;
+
+    do {
+      const page = await this.gmail.listMessageIds(email, query, pageToken);
+      const todo = page.ids.filter((id) => !target.has(id)).slice(0, limit - progress.exported);
+      progress.skipped += page.ids.filter((id) => target.has(id)).length;
+
+      for (let i = 0; i < todo.length; i += FETCH_BATCH) {
+        const batch = todo.slice(i, i + FETCH_BATCH);
+        const messages = await mapWithConcurrency(batch, FETCH_BATCH, (id) => this.gmail.getRawMessage(email, id));
+        for (const message of messages) {
+          target.write(message);
+          progress.exported++;
+        }
+        options.onProgress?.({ ...progress });
+      }
+      pageToken = page.nextPageToken;
+    } while (pageToken && progress.exported < limit);
+
+    return { format: options.format, path: options.out, ...progress };
+  }
+}
+
+// One mbox file plus <file>.progress, an NDJSON list of the exported message
+// IDs and the mbox size after each. A resumed export cuts off anything written
+// after the last recorded entry, which can only be a partially written message.
+class MboxTarget implements ExportTarget {
+  private done = new Set<string>();
+  private offset = 0;
+  private progressFile: string;
+
+  constructor(private file: string) {
+    this.progressFile = `${file}.progress`;
+    const size = fs.existsSync(file) ? fs.statSync(file).size : 0;
+
+    if (fs.existsSync(this.progressFile)) {
+      const lines = fs.readFileSync(this.progressFile, "utf8").split("\n").filter((line) => line.trim());
+      for (const [i, line] of lines.entries()) {
+        let entry: { id: string; offset: number };
+        try {
+          entry = JSON.parse(line);
+        } catch (e) {
+          // A crash can tear the last line; drop it (its message is cut off below)
+          if (i === lines.length - 1) {
+            fs.writeFileSync(this.progressFile, lines.slice(0, i).map((l) => l + "\n").join(""));
+            break;
+          }
+          throw new CliError(`${this.progressFile} is corrupted: ${(e as Error).message}`, ExitCode.INVALID_INPUT);
+        }
+        this.done.add(entry.id);
+        this.offset = entry.offset;
+      }
+    } else if (size > 0) {
+      throw new CliError(
+        `${file} already exists and has no ${path.basename(this.progressFile)} to resume from. Choose another --out`,
+        ExitCode.INVALID_INPUT
+      );
+    }
+
+    if (size < this.offset) {
+      throw new CliError(`${file} is shorter than its progress file records; it was modified`, ExitCode.INVALID_INPUT);
+    }
+    if (size > this.offset) fs.truncateSync(file, this.offset);
+    fs.mkdirSync(path.dirname(path.resolve(file)), { recursive: true });
+  }
+
+  has(id: string): boolean {
+    return this.done.has(id);
+  }
+
+  write(message: RawMessage): void {
+    const entry = toMboxEntry(message.raw, message.date);
+    fs.appendFileSync(this.file, entry, { mode: 0o600 });
+    this.offset += entry.length;
+    fs.appendFileSync(this.progressFile, JSON.stringify({ id: message.id, offset: this.offset }) + "\n", { mode: 0o600 });
+    this.done.add(message.id);
+  }
+}
+
+// <dir>/<messageId>.eml, each written atomically, so existing files are complete
+class EmlTarget implements ExportTarget {
+  constructor(private dir: string) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+
+  private fileFor(id: string): string {
+    return path.join(this.dir, `${sanitizeFilename(id)}.eml`);
+  }
+
+  has(id: string): boolean {
+    return fs.existsSync(this.fileFor(id));
+  }
+
+  write(message: RawMessage): void {
+    const file = this.fileFor(message.id);
+    writeFileAtomic(file, message.raw);
+    fs.utimesSync(file, message.date, message.date);
+  }
+}
+
+export interface ExportOptions {
+  format: ExportFormat;
+  out: string;                  // mbox file, or directory for .eml files
+  maxMessages?: number;         // Stop after exporting this many
+  onProgress?: (progress: ExportProgress) => void;
+}
+
+export interface ExportProgress {
+  exported: number;             // Written by this run
+  skipped: number;              // Already exported by an earlier run
+}
+
+export interface ExportResult extends ExportProgress {
+  format: ExportFormat;
+  path: string;
+}
@@ -0,0 +1,277 @@
+// ABOUTME: Mail merge: renders a {{field}} template per data row and sends or drafts it
+// ABOUTME: Throttles sends and appends a per-row result log that later runs resume from
+
+import * as fs from "fs";
+import * as path from "path";
+import { GmailService } from "./gmail.js";
+import { CliError, ExitCode } from "../utils/errors.js";
+import { parseCsv } from "../utils/csv.js";
+import { escapeHtml, renderMarkdown } from "../utils/markdown.js";
+import { formatAddress, htmlToText, isAddrSpec, parseAddressList } from "../utils/mime.js";
+
+const TEMPLATE_HEADERS = ["to", "cc", "bcc", "from", "subject", "attach"];
+const PLACEHOLDER = /\{\{\s*([^{}]+?)\s*\}\}/g;
+
+export class MailMerge {
+  constructor(private gmail: GmailService) {}
+
+  // Render every row up front so a bad row is reported before anything is sent
+  plan(template: MergeTemplate, rows: MergeRow[]): PlannedMessage[] {
+    return rows.map((row, i) => {
+      try {
+        return { row: i + 1, message: renderMessage(template, row) };
+      } catch (e) {
+        return { row: i + 1, error: e instanceof Error ? e.message : String(e) };
+      }
+    });
+  }
+
+  async run(email: string, planned: PlannedMessage[], options: MergeOptions = {}): Promise<MergeResult[]> {
+    const done = options.logFile ? readCompletedRows(options.logFile) : new Map<number, string>();
+    const results: MergeResult[] = [];
+    let sentAny = false;
+
+    for (const item of planned) {
+      const { message } = item;
+      const base = { row: item.row, to: message?.to.join(", ") || "", subject: message?.subject || "" };
+      let result: MergeResult;
+
+      if (!message) {
+        result = { ...base, status: "failed", error: item.error };
+      } else if (done.get(item.row) === base.to) {
+        result = { ...base, status: "skipped" };
+      } else if (options.dryRun) {
+        const missing = message.attachments.filter((file) => !fs.existsSync(file));
+        result = missing.length > 0
+          ? { ...base, status: "failed", error: `Attachment not found: ${missing.join(", ")}` }
+          : { ...base, status: "preview" };
+      } else {
+        if (sentAny && options.delayMs) await sleep(options.delayMs);
+        sentAny = true;
+        result = await this.deliver(email, message, base, options.draft);
+      }
+
+      results.push(result);
+      if (options.logFile && !options.dryRun && result.status !== "skipped") {
+        fs.appendFileSync(options.logFile, JSON.stringify({ ...result, at: new Date().toISOString() }) + "\n");
+      }
+      options.onResult?.(result);
+    }
+    return results;
+  }
+
+  private async deliver(
+    email: string,
+    message: RenderedMessage,
+    base: Pick<MergeResult, "row" | "to" | "subject">,
+    draft = false
+  ): Promise<MergeResult> {
+    const options = {
+      from: message.from,
+      cc: message.cc,
+      bcc: message.bcc,
+      html: message.html,
+      attachments: message.attachments,
+    };
+    try {
+      const id = draft
+        ? await this.gmail.createDraft(email, message.to, message.subject, message.body, options)
+        : await this.gmail.sendMessage(email, message.to, message.subject, message.body, options);
+      return { ...base, status: draft ? "drafted" : "sent", id };
+    } catch (e) {
+      return { ...base, status: "failed", error: e instanceof Error ? e.message : String(e) };
+    }
+  }
+}
+
+// Template file: email-style headers (To, Cc, Bcc, From, Subject, Attach),
+// a blank line, then the body. Attach paths are relative to the template.
+export function loadTemplate(file: string, format: BodyFormat = "text"): MergeTemplate {
+  const text = fs.readFileSync(file, "utf8").replace(/\r\n/g, "\n");
+  const split = text.indexOf("\n\n");
+  const head = split === -1 ? text : text.slice(0, split);
+  const body = split === -1 ? "" : text.slice(split + 2);
+  const headers: Record<string, string[]> = {};
+
+  for (const line of head.split("\n")) {
+    const match = /^([A-Za-z-]+):\s*(.*)$/.exec(line);
+    if (!match || !TEMPLATE_HEADERS.includes(match[1].toLowerCase())) {
+      throw new CliError(
+        `Invalid template header line: "${line}". Start the template with ${TEMPLATE_HEADERS.join(", ")} headers and a blank line`,
+        ExitCode.INVALID_INPUT
+      );
+    }
+    (headers[match[1].toLowerCase()] ||= []).push(match[2]);
+  }
+  if (!headers.subject) {
+    throw new CliError("Template has no Subject: header", ExitCode.INVALID_INPUT);
+  }
+
+  return {
+    to: headers.to?.join(", ") || "{{email}}",
+    cc: headers.cc?.join(", "),
+    bcc: headers.bcc?.join(", "),
+    from: headers.from?.[0],
+    subject: headers.subject[0],
+    attach: (headers.attach || []).flatMap((a) => a.split(",")).map((a) => a.trim()).filter(Boolean),
+    body,
+    format,
+    baseDir: path.dirname(path.resolve(file)),
+  };
+}
+
+// Rows from a CSV file with a header row, or a JSON array of objects
+export function loadRows(file: string): MergeRow[] {
+  const text = fs.readFileSync(file, "utf8");
+  if (path.extname(file).toLowerCase() !== ".json") return parseCsv(text);
+
+  const data = JSON.parse(text) as unknown;
+  if (!Array.isArray(data) || data.some((row) => typeof row !== "object" || row === null)) {
+    throw new CliError(`${file} must contain a JSON array of objects`, ExitCode.INVALID_INPUT);
+  }
+  return data.map((row) =>
+    Object.fromEntries(Object.entries(row as Record<string, unknown>).map(([k, v]) => [k, v == null ? "" : String(v)]))
+  );
+}
+
+// Replace {{field}} with row values; a field missing from the row is an error
+export function renderPlaceholders(text: string, row: MergeRow, escape: (value: string) => string = (v) => v): string {
+  const missing = new Set<string>();
+  const rendered = text.replace(PLACEHOLDER, (_m, field: string) => {
+    if (!(field in row)) {
+      missing.add(field);
+      return "";
+    }
+    return escape(row[field]);
+  });
+  if (missing.size > 0) {
+    throw new Error(`Missing field${missing.size > 1 ? "s" : ""}: ${[...missing].join(", ")}`);
+  }
+  return rendered;
+}
+
+function renderMessage(template: MergeTemplate, row: MergeRow): RenderedMessage {
+  const render = (text: string) => renderPlaceholders(text, row);
+  // Row data often comes from form exports; a line break in it would inject headers
+  const addresses = (text: string | undefined) => {
+    if (text === undefined) return undefined;
+    const rendered = render(text);
+    if (/[\r\n]/.test(rendered)) throw new Error(`Line break in recipient: ${JSON.stringify(rendered)}`);
+    const parsed = parseAddressList(rendered);
+    const invalid = parsed.find((a) => !isAddrSpec(a.address));
+    if (invalid) throw new Error(`Invalid address: ${JSON.stringify(invalid.address)}`);
+    return parsed.map(formatAddress);
+  };
+
+  const to = addresses(template.to) || [];
+  if (to.length === 0) throw new Error("No recipient");
+
+  let body: string;
+  let html: string | undefined;
+  if (template.format === "html") {
+    html = renderPlaceholders(template.body, row, escapeHtml);
+    body = htmlToText(html);
+  } else {
+    body = render(template.body);
+    if (template.format === "markdown") html = renderMarkdown(body);
+  }
+
+  return {
+    to,
+    cc: addresses(template.cc),
+    bcc: addresses(template.bcc),
+    from: addresses(template.from)?.[0],
+    subject: render(template.subject),
+    body,
+    html,
+    attachments: template.attach.map((file) => attachmentPath(template.baseDir, file, render(file))),
+  };
+}
+
+// A path filled in from row data must stay inside the template's directory,
+// or a row could attach any readable file, such as the account store
+function attachmentPath(baseDir: string, file: string, rendered: string): string {
+  const resolved = path.resolve(baseDir, rendered);
+  if (rendered !== file) {
+    const relative = path.relative(baseDir, resolved);
+    if (relative === "" || relative.startsWith("..") || path.isAbsolute(relative)) {
+      throw new Error(`Attachment outside the template directory: ${JSON.stringify(rendered)}`);
+    }
+  }
+  return resolved;
+}
+
+// Rows already sent or drafted by an earlier run with the same log, mapped to their recipients
+function readCompletedRows(logFile: string): Map<number, string> {
+  const done = new Map<number, string>();
+  if (!fs.existsSync(logFile)) return done;
+  const lines = fs.readFileSync(logFile, "utf8").split("\n").filter((line) => line.trim());
+  for (const [i, line] of lines.entries()) {
+    let entry: MergeResult;
+    try {
+      entry = JSON.parse(line) as MergeResult;
+    } catch (e) {
+      // A crash can tear the last line; drop it so the next entry starts on a line of its own
+      if (i === lines.length - 1) {
+        fs.writeFileSync(logFile, lines.slice(0, i).map((l) => l + "\n").join(""));
+        break;
+      }
+      throw new CliError(`${logFile} is corrupted: ${(e as Error).message}`, ExitCode.INVALID_INPUT);
+    }
+    if (entry.status === "sent" || entry.status === "drafted") done.set(entry.row, entry.to);
+  }
+  return done;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+export type MergeRow = Record<string, string>;
+export type BodyFormat = "text" | "html" | "markdown";
+
+export interface MergeTemplate {
+  to: string;           // Defaults to {{email}}
+  cc?: string;
+  bcc?: string;
+  from?: string;
+  subject: string;
+  attach: string[];
+  body: string;
+  format: BodyFormat;
+  baseDir: string;      // Attach paths are resolved against this
+}
+
+export interface RenderedMessage {
+  to: string[];
+  cc?: string[];
+  bcc?: string[];
+  from?: string;
+  subject: string;
+  body: string;
+  html?: string;
+  attachments: string[];
+}
+
+export interface PlannedMessage {
+  row: number;          // 1-based data row
+  message?: RenderedMessage;
+  error?: string;       // Why the row could not be rendered
+}
+
+export interface MergeOptions {
+  draft?: boolean;      // Create drafts instead of sending
+  dryRun?: boolean;     // Render and check attachments only
+  delayMs?: number;     // Pause between messages
+  logFile?: string;     // NDJSON result log; rows it records as sent are skipped
+  onResult?: (result: MergeResult) => void;
+}
+
+export interface MergeResult {
+  row: number;
+  to: string;
+  subject: string;
+  status: "sent" | "drafted" | "preview" | "skipped" | "failed";
+  id?: string;
+  error?: string;
+}
@@ -0,0 +1,162 @@
+// ABOUTME: Bulk unsubscribe: groups matching mail by sender and uses its List-Unsubscribe headers
+// ABOUTME: Sends RFC 8058 one-click POSTs or mailto requests, then optionally archives or labels the mail
+
+import { GmailService } from "./gmail.js";
+import { mapWithConcurrency } from "../utils/concurrency.js";
+import { parseAddressList } from "../utils/mime.js";
+import { hasSenderDkim, parseListUnsubscribe, type UnsubscribeOptions } from "../utils/unsubscribe.js";
+
+const HEADER_CONCURRENCY = 10;
+const UNSUBSCRIBE_HEADERS = ["From", "List-Unsubscribe", "List-Unsubscribe-Post", "Authentication-Results"];
+const POST_TIMEOUT_MS = 15_000;
+const DEFAULT_MAX_MESSAGES = 200;
+
+export class MailUnsubscribe {
+  // `post` makes the one-click request; injectable so tests stay offline
+  constructor(
+    private gmail: GmailService,
+    private post: (url: string) => Promise<number> = oneClickPost
+  ) {}
+
+  // Senders of the newest matching messages, most messages first. Each
+  // sender's unsubscribe options come from its newest message.
+  async scan(email: string, query: string, maxMessages = DEFAULT_MAX_MESSAGES): Promise<Subscription[]> {
+    const ids: string[] = [];
+    let pageToken: string | undefined;
+    do {
+      const page = await this.gmail.listMessageIds(email, query, pageToken);
+      ids.push(...page.ids.slice(0, maxMessages - ids.length));
+      pageToken = page.nextPageToken;
+    } while (pageToken && ids.length < maxMessages);
+
+    const messages = await mapWithConcurrency(ids, HEADER_CONCURRENCY, (id) =>
+      this.gmail.getMessageHeaders(email, id, UNSUBSCRIBE_HEADERS)
+    );
+
+    const senders = new Map<string, Subscription>();
+    for (const message of messages) {
+      const from = parseAddressList(message.headers["from"])[0];
+      if (!from) continue;
+      const key = from.address.toLowerCase();
+      let sender = senders.get(key);
+      if (!sender) {
+        const { headers } = message;
+        const options = parseListUnsubscribe(headers["list-unsubscribe"], headers["list-unsubscribe-post"]);
+        sender = {
+          sender: key,
+          name: from.name,
+          messages: 0,
+          threadIds: [],
+          method: methodFor(options),
+          authenticated: hasSenderDkim(headers["authentication-results"], key),
+          ...options,
+        };
+        senders.set(key, sender);
+      }
+      sender.messages++;
+      if (!sender.threadIds.includes(message.threadId)) sender.threadIds.push(message.threadId);
+    }
+    return [...senders.values()].sort((a, b) => b.messages - a.messages);
+  }
+
+  // Unsubscribe from each sender with the best method it offers, if its mail
+  // is DKIM-signed; the rest are left to do by hand. Mail from
+  // senders that were unsubscribed is archived and/or labeled afterwards.
+  async run(
+    email: string,
+    subscriptions: Subscription[],
+    options: UnsubscribeRunOptions = {}
+  ): Promise<UnsubscribeResult[]> {
+    // A missing scope or unknown label fails here, before anything is sent
+    if (!options.dryRun && (options.archive || options.label)) this.gmail.requireScope(email, "mail:modify");
+    if (options.label) await this.gmail.resolveLabelIds(email, [options.label]);
+    const results: UnsubscribeResult[] = [];
+    for (const subscription of subscriptions) {
+      const result = await this.unsubscribe(email, subscription, options);
+      results.push(result);
+      options.onResult?.(result);
+    }
+    return results;
+  }
+
+  private async unsubscribe(
+    email: string,
+    subscription: Subscription,
+    options: UnsubscribeRunOptions
+  ): Promise<UnsubscribeResult> {
+    if (subscription.method === "none") return { ...subscription, status: "unavailable" };
+    if (subscription.method === "link") return { ...subscription, status: "manual" };
+    // Its List-Unsubscribe headers could be forged, so nothing is sent on their word
+    if (!subscription.authenticated) {
+      return { ...subscription, status: "manual", error: "Not DKIM-signed by the sender's domain; unsubscribe by hand" };
+    }
+    if (options.dryRun) return { ...subscription, status: "preview" };
+
+    try {
+      if (subscription.method === "one-click") {
+        const status = await this.post(subscription.oneClick!);
+        if (status >= 400) throw new Error(`Unsubscribe request failed with HTTP ${status}`);
+      } else {
+        const { to, subject, body } = subscription.mailto!;
+        await this.gmail.sendMessage(email, to, subject || "unsubscribe", body || "unsubscribe");
+      }
+    } catch (e) {
+      return { ...subscription, status: "failed", error: e instanceof Error ? e.message : String(e) };
+    }
+
+    const remove = options.archive ? ["INBOX"] : [];
+    const add = options.label ? [options.label] : [];
+    try {
+      if (remove.length > 0 || add.length > 0) {
+        await this.gmail.modifyLabels(email, subscription.threadIds, add, remove);
+      }
+      return { ...subscription, status: "unsubscribed" };
+    } catch (e) {
+      const reason = e instanceof Error ? e.message : String(e);
+      return { ...subscription, status: "unsubscribed", error: `Unsubscribed, but updating its mail failed: ${reason}` };
+    }
+  }
+}
+
+function methodFor(options: UnsubscribeOptions): UnsubscribeMethod {
+  if (options.oneClick) return "one-click";
+  if (options.mailto) return "mailto";
+  if (options.url) return "link";
+  return "none";
+}
+
+// RFC 8058: a POST with this exact body, and no cookies or credentials.
+// Redirects are not followed; any non-error status counts as done.
+async function oneClickPost(url: string): Promise<number> {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded" },
+    body: "List-Unsubscribe=One-Click",
+    redirect: "manual",
+    signal: AbortSignal.timeout(POST_TIMEOUT_MS),
+  });
+  return response.status;
+}
+
+export type UnsubscribeMethod = "one-click" | "mailto" | "link" | "none";
+
+export interface Subscription extends UnsubscribeOptions {
+  sender: string;               // Lowercase address
+  name?: string;
+  messages: number;             // Matching messages from this sender
+  threadIds: string[];
+  method: UnsubscribeMethod;    // How run() will unsubscribe; "link" needs a browser
+  authenticated: boolean;       // Newest message passed DKIM for the sender's domain
+}
+
+export interface UnsubscribeResult extends Subscription {
+  status: "unsubscribed" | "preview" | "manual" | "unavailable" | "failed";
+  error?: string;
+}
+
+export interface UnsubscribeRunOptions {
+  dryRun?: boolean;
+  archive?: boolean;            // Remove the sender's matching threads from the inbox
+  label?: string;               // Add this label (name or ID) to them
+  onResult?: (result: UnsubscribeResult) => void;
+}
@@ -0,0 +1,265 @@
+// ABOUTME: Local queue of messages to send later, since the Gmail API has no scheduled send
+// ABOUTME: Each message is claimed before it is sent, so a crashed run never sends it twice
+
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import { AccountStorage } from "../account-storage.js";
+import { GmailService, type SendOptions } from "./gmail.js";
+import { CliError, ExitCode } from "../utils/errors.js";
+import { writeFileAtomic } from "../utils/secure-file.js";
+
+// queue.json is only changed while holding queue.lock; a run holds it just
+// long enough to claim or settle one message, not while sending. Claiming a
+// message also creates queue.claims/<id>.sending exclusively, so even runs
+// that both believe they hold the lock cannot send the same message.
+const LOCK_WAIT_MS = 10_000;
+const LOCK_POLL_MS = 50;
+
+export class SendQueue {
+  private queueFile: string;
+  private lockFile: string;
+  private claimDir: string;
+
+  constructor(
+    private gmail: GmailService,
+    accountStorage: AccountStorage
+  ) {
+    this.queueFile = path.join(accountStorage.getConfigDir(), "queue.json");
+    this.lockFile = path.join(accountStorage.getConfigDir(), "queue.lock");
+    this.claimDir = path.join(accountStorage.getConfigDir(), "queue.claims");
+  }
+
+  // Attachment and inline files are checked now and read when the message is sent
+  async add(email: string, message: QueuedMessage, at: Date): Promise<QueueEntry> {
+    const files = (list?: string[]) => list?.map((file) => {
+      if (!fs.existsSync(file)) throw new CliError(`Attachment not found: ${file}`, ExitCode.INVALID_INPUT);
+      return path.resolve(file);
+    });
+    const entry: QueueEntry = {
+      id: crypto.randomBytes(4).toString("hex"),
+      account: email,
+      at: at.toISOString(),
+      createdAt: new Date().toISOString(),
+      ...message,
+      options: { ...message.options, attachments: files(message.options.attachments), inline: files(message.options.inline) },
+      status: "queued",
+    };
+    await this.update((entries) => entries.push(entry));
+    return entry;
+  }
+
+  list(email: string): QueueEntry[] {
+    return this.read().filter((e) => e.account === email).sort((a, b) => a.at.localeCompare(b.at));
+  }
+
+  async cancel(email: string, id: string): Promise<QueueEntry> {
+    return this.update((entries) => {
+      const entry = entries.find((e) => e.account === email && e.id === id);
+      if (!entry) throw new CliError(`Queued message ${id} not found for ${email}`, ExitCode.NOT_FOUND);
+      if (entry.status !== "queued") {
+        throw new CliError(`Queued message ${id} is already ${entry.status}`, ExitCode.INVALID_INPUT);
+      }
+      entry.status = "cancelled";
+      return { ...entry };
+    });
+  }
+
+  // Send every message due by `now`, oldest first. A message is marked
+  // "sending" before the API call; if the run dies before recording the
+  // result, the next run marks it "interrupted" instead of sending it again.
+  async run(email: string, options: RunOptions = {}): Promise<QueueEntry[]> {
+    const now = (options.now ?? new Date()).toISOString();
+    const results: QueueEntry[] = [];
+
+    const interrupted = await this.update((entries) => entries
+      .filter((e) => e.account === email && e.status === "sending" && !isRunning(e.pid))
+      .map((e) => {
+        Object.assign(e, {
+          status: "interrupted",
+          pid: undefined,
+          error: "The run sending this message stopped before recording the result. Check Sent mail before sending again",
+        });
+        return { ...e };
+      }));
+    for (const entry of interrupted) {
+      this.release(entry.id);
+      results.push(entry);
+      options.onResult?.(entry);
+    }
+
+    for (;;) {
+      const { claimed, lost } = await this.update((entries) => {
+        const due = entries
+          .filter((e) => e.account === email && e.status === "queued" && e.at <= now)
+          .sort((a, b) => a.at.localeCompare(b.at))[0];
+        if (!due) return {};
+        if (!this.claim(due.id)) {
+          // Claimed by another run whose update of queue.json was lost
+          Object.assign(due, { status: "interrupted", error: "Another run claimed this message. Check Sent mail before sending again" });
+          return { lost: { ...due } };
+        }
+        Object.assign(due, { status: "sending", pid: process.pid });
+        return { claimed: { ...due } };
+      });
+      if (lost) {
+        results.push(lost);
+        options.onResult?.(lost);
+        continue;
+      }
+      if (!claimed) break;
+
+      let outcome: Partial<QueueEntry>;
+      try {
+        const messageId = await this.gmail.sendMessage(email, claimed.to, claimed.subject, claimed.body, claimed.options);
+        outcome = { status: "sent", messageId, sentAt: new Date().toISOString() };
+      } catch (e) {
+        outcome = { status: "failed", error: e instanceof Error ? e.message : String(e) };
+      }
+      const settled = await this.update((entries) => {
+        const entry = entries.find((e) => e.id === claimed.id)!;
+        Object.assign(entry, outcome, { pid: undefined });
+        return { ...entry };
+      });
+      this.release(claimed.id);
+      results.push(settled);
+      options.onResult?.(settled);
+    }
+    return results;
+  }
+
+  // Exclusive create: true for exactly one caller until the claim is released
+  private claim(id: string): boolean {
+    fs.mkdirSync(this.claimDir, { recursive: true, mode: 0o700 });
+    try {
+      fs.writeFileSync(path.join(this.claimDir, `${id}.sending`), String(process.pid), { flag: "wx", mode: 0o600 });
+      return true;
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code !== "EEXIST") throw e;
+      return false;
+    }
+  }
+
+  // Once an entry has settled it is no longer "queued", so nothing can claim it again
+  private release(id: string): void {
+    fs.rmSync(path.join(this.claimDir, `${id}.sending`), { force: true });
+  }
+
+  private read(): QueueEntry[] {
+    if (!fs.existsSync(this.queueFile)) return [];
+    return (JSON.parse(fs.readFileSync(this.queueFile, "utf8")) as { messages: QueueEntry[] }).messages;
+  }
+
+  // Read, change and write the queue while holding the lock
+  private async update<T>(change: (entries: QueueEntry[]) => T): Promise<T> {
+    await this.acquireLock();
+    try {
+      const entries = this.read();
+      const result = change(entries);
+      writeFileAtomic(this.queueFile, JSON.stringify({ messages: entries }, null, 2));
+      return result;
+    } finally {
+      fs.rmSync(this.lockFile, { force: true });
+    }
+  }
+
+  private async acquireLock(): Promise<void> {
+    const deadline = Date.now() + LOCK_WAIT_MS;
+    fs.mkdirSync(path.dirname(this.lockFile), { recursive: true });
+    for (;;) {
+      try {
+        fs.writeFileSync(this.lockFile, `${process.pid} ${crypto.randomBytes(8).toString("hex")}`, { flag: "wx" });
+        return;
+      } catch (e) {
+        if ((e as NodeJS.ErrnoException).code !== "EEXIST") throw e;
+      }
+      // Left behind by a process that died while holding it
+      const holder = readLock(this.lockFile);
+      if (holder !== undefined && !isRunning(holder.pid)) {
+        this.breakLock(holder.token);
+        continue;
+      }
+      if (Date.now() > deadline) {
+        throw new CliError(
+          `The send queue is locked by process ${holder?.pid}. Remove ${this.lockFile} if it is not running`,
+          ExitCode.API_ERROR
+        );
+      }
+      await sleep(LOCK_POLL_MS);
+    }
+  }
+
+  // Move the stale lock aside atomically and check it is the one found stale.
+  // Another run may have broken it first and taken the lock since; that lock
+  // is put back instead of deleted.
+  private breakLock(staleToken: string): void {
+    const aside = `${this.lockFile}.stale-${process.pid}-${crypto.randomBytes(4).toString("hex")}`;
+    try {
+      fs.renameSync(this.lockFile, aside);
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code === "ENOENT") return;
+      throw e;
+    }
+    if (readLock(aside)?.token !== staleToken) {
+      try {
+        fs.linkSync(aside, this.lockFile);
+      } catch (e) {
+        if ((e as NodeJS.ErrnoException).code !== "EEXIST") throw e;
+      }
+    }
+    fs.rmSync(aside, { force: true });
+  }
+}
+
+// "<pid> <token>"; the token tells two locks of the same pid apart
+function readLock(file: string): { pid: number; token: string } | undefined {
+  let content: string;
+  try {
+    content = fs.readFileSync(file, "utf8");
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+    throw e;
+  }
+  return { pid: parseInt(content, 10), token: content };
+}
+
+function isRunning(pid: number | undefined): boolean {
+  if (!pid) return false;
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (e) {
+    // EPERM: it exists but belongs to another user
+    return (e as NodeJS.ErrnoException).code === "EPERM";
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+export type QueueStatus = "queued" | "sending" | "sent" | "failed" | "cancelled" | "interrupted";
+
+export interface QueuedMessage {
+  to: string[];
+  subject: string;
+  body: string;
+  options: SendOptions;
+}
+
+export interface QueueEntry extends QueuedMessage {
+  id: string;
+  account: string;
+  at: string;              // ISO time; sent by the first run at or after it
+  createdAt: string;
+  status: QueueStatus;
+  messageId?: string;      // Gmail ID once sent
+  sentAt?: string;
+  error?: string;
+  pid?: number;            // Process sending it while "sending"
+}
+
+export interface RunOptions {
+  now?: Date;
+  onResult?: (entry: QueueEntry) => void;
+}
@@ -0,0 +1,11 @@
+// ABOUTME: Options shared by the Gmail, Calendar and Drive services
+// ABOUTME: Lets callers point the Google API clients at another endpoint
+
+import type { AuthClients } from "../auth-client.js";
+import type { RetryOptions } from "../utils/retry.js";
+
+export interface ServiceOptions {
+  rootUrl?: string;       // Google API root URL override, e.g. a local fake server in tests
+  auth?: AuthClients;     // Defaults to the clients shared by all services on the same store
+  retry?: RetryOptions;   // Backoff policy for 429/5xx/rate-limit errors
+}
@@ -0,0 +1,49 @@
+// ABOUTME: RFC 4180 CSV parsing into records keyed by the header row
+// ABOUTME: Handles quoted fields with commas, quotes and line breaks
+
+export function parseCsv(text: string): Record<string, string>[] {
+  const rows = parseRows(text.replace(/^\uFEFF/, ""));
+  const header = (rows.shift() || []).map((h) => h.trim());
+  return rows
+    .filter((row) => row.some((cell) => cell.trim() !== ""))
+    .map((row) => Object.fromEntries(header.map((name, i) => [name, row[i] ?? ""])));
+}
+
+function parseRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (quoted) {
+      if (c === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (c === '"') {
+        quoted = false;
+      } else {
+        cell += c;
+      }
+    } else if (c === '"' && cell === "") {
+      quoted = true;
+    } else if (c === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (c === "\n" || c === "\r") {
+      if (c === "\r" && text[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += c;
+    }
+  }
+  if (cell !== "" || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows;
+}
@@ -11,13 +11,7 @@ export const ExitCode = {
 } as const;
 
 export type ExitCodeType = typeof ExitCode[keyof typeof ExitCode];
-
-export function exitWithCode(code: ExitCodeType, message?: string): never {
-    if (message) {
-        console.error(`[ERROR] ${message}`);
-    }
-    process.exit(code);
-}
+export type ErrorCode = Exclude<ExitCodeType, typeof ExitCode.SUCCESS>;
 
 // Error messages that help LLM understand what to do
 export const ErrorMessages = {
@@ -27,3 +21,149 @@ export const ErrorMessages = {
     [ExitCode.INVALID_INPUT]: 'Invalid input. Check command usage with: jgoogle --help',
     [ExitCode.API_ERROR]: 'Google API error. Check permissions or quota.',
 } as const;
+
+// Machine-readable names for exit codes, used in JSON error output
+export const ErrorTypes = {
+    [ExitCode.SUCCESS]: 'success',
+    [ExitCode.AUTH_ERROR]: 'auth_error',
+    [ExitCode.NETWORK_ERROR]: 'network_error',
+    [ExitCode.NOT_FOUND]: 'not_found',
+    [ExitCode.INVALID_INPUT]: 'invalid_input',
+    [ExitCode.API_ERROR]: 'api_error',
+} as const;
+
+export interface ClassifiedError {
+    code: ErrorCode;
+    message: string;
+    status?: number;    // HTTP status from Google, if any
+    reason?: string;    // Google error reason, OAuth error or system error code
+}
+
+// Error raised by jgoogle itself that already knows its exit code
+export class CliError extends Error {
+    constructor(message: string, public readonly exitCode: ErrorCode) {
+        super(message);
+        this.name = new.target.name;
+    }
+}
+
+let jsonErrors = false;
+
+// When enabled, errors are also written to stderr as a single JSON object
+export function setJsonErrors(enabled: boolean): void {
+    jsonErrors = enabled;
+}
+
+export function exitWithCode(code: ExitCodeType, message?: string, details: Omit<ClassifiedError, 'code' | 'message'> = {}): never {
+    if (jsonErrors) {
+        console.error(JSON.stringify({
+            error: {
+                code,
+                type: ErrorTypes[code],
+                message: message || '',
+                ...details,
+                hint: code === ExitCode.SUCCESS ? undefined : ErrorMessages[code],
+            },
+        }));
+    } else if (message) {
+        console.error(`[ERROR] ${message}`);
+    }
+    process.exit(code);
+}
+
+// Classify an error and exit with the matching code and a hint
+export function exitWithError(e: unknown): never {
+    const { code, message, ...details } = classifyError(e);
+    if (jsonErrors) {
+        exitWithCode(code, message, details);
+    }
+    console.error(`[ERROR] ${message}`);
+    console.error(`[HINT] ${ErrorMessages[code]}`);
+    process.exit(code);
+}
+
+const NETWORK_CODES = new Set([
+    'ECONNRESET', 'ECONNREFUSED', 'ECONNABORTED', 'ENOTFOUND', 'EAI_AGAIN',
+    'ETIMEDOUT', 'ESOCKETTIMEDOUT', 'EPIPE', 'EHOSTUNREACH', 'ENETUNREACH',
+]);
+
+const RATE_LIMIT_REASONS = new Set([
+    'rateLimitExceeded', 'userRateLimitExceeded', 'quotaExceeded', 'dailyLimitExceeded',
+    'RATE_LIMIT_EXCEEDED', 'RESOURCE_EXHAUSTED',
+]);
+
+const AUTH_REASONS = new Set([
+    'invalid_grant', 'invalid_client', 'unauthorized_client', 'authError',
+    'ACCESS_TOKEN_SCOPE_INSUFFICIENT',
+]);
+
+// Shape shared by GaxiosError (googleapis) and Node system errors
+interface ApiErrorLike {
+    message?: string;
+    code?: string | number;
+    status?: number;
+    response?: {
+        status?: number;
+        data?: unknown;
+    };
+}
+
+// Extract the Google error reason from a googleapis/OAuth error response body
+export function getErrorReason(e: unknown): string | undefined {
+    const data = (e as ApiErrorLike | undefined)?.response?.data as
+        | { error?: string | { status?: string; errors?: { reason?: string }[]; details?: { reason?: string }[] } }
+        | undefined;
+    if (!data?.error) return undefined;
+    if (typeof data.error === 'string') return data.error;
+    return data.error.errors?.[0]?.reason || data.error.details?.[0]?.reason || data.error.status;
+}
+
+export function getErrorStatus(e: unknown): number | undefined {
+    const err = e as ApiErrorLike | undefined;
+    const status = err?.response?.status ?? err?.status ?? (typeof err?.code === 'number' ? err.code : undefined);
+    return typeof status === 'number' ? status : undefined;
+}
+
+export function isNetworkError(e: unknown): boolean {
+    const code = (e as ApiErrorLike | undefined)?.code;
+    return typeof code === 'string' && NETWORK_CODES.has(code);
+}
+
+export function isRateLimitError(e: unknown): boolean {
+    const status = getErrorStatus(e);
+    if (status === 429) return true;
+    const reason = getErrorReason(e);
+    return status === 403 && reason !== undefined && RATE_LIMIT_REASONS.has(reason);
+}
+
+// Map a thrown error (googleapis/Gaxios, OAuth or system) to an exit code
+export function classifyError(e: unknown): ClassifiedError {
+    const message = e instanceof Error ? e.message : String(e);
+    const status = getErrorStatus(e);
+    const reason = getErrorReason(e);
+    const systemCode = (e as ApiErrorLike | undefined)?.code;
+
+    if (e instanceof CliError) {
+        return { code: e.exitCode, message };
+    }
+    // util.parseArgs: unknown option, missing option value, ...
+    if (typeof systemCode === 'string' && systemCode.startsWith('ERR_PARSE_ARGS_')) {
+        return { code: ExitCode.INVALID_INPUT, message };
+    }
+    if (isNetworkError(e)) {
+        return { code: ExitCode.NETWORK_ERROR, message, reason: systemCode as string };
+    }
+    if (reason && AUTH_REASONS.has(reason) || message.includes('invalid_grant') || status === 401) {
+        return { code: ExitCode.AUTH_ERROR, message, status, reason: reason || (message.includes('invalid_grant') ? 'invalid_grant' : undefined) };
+    }
+    if (isRateLimitError(e)) {
+        return { code: ExitCode.API_ERROR, message, status, reason: reason || 'rateLimitExceeded' };
+    }
+    if (status === 404 || status === 410) {
+        return { code: ExitCode.NOT_FOUND, message, status, reason };
+    }
+    if (status === 400) {
+        return { code: ExitCode.INVALID_INPUT, message, status, reason };
+    }
+    return { code: ExitCode.API_ERROR, message, status, reason };
+}
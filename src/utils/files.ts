@@ -0,0 +1,53 @@
+// ABOUTME: Safe local paths for content named by remote senders
+// ABOUTME: Sanitizes untrusted file names, never overwrites, and matches glob filters
+
+import * as fs from "fs";
+import * as path from "path";
+
+const MAX_NAME_BYTES = 200;
+const WINDOWS_RESERVED = /^(con|prn|aux|nul|com\d|lpt\d)(\.|$)/i;
+
+// Reduce an untrusted name to a single safe path component
+export function sanitizeFilename(name: string, fallback = "download"): string {
+  let clean = name
+    .split(/[/\\]/)
+    .pop()!
+    .replace(/[\x00-\x1f\x7f<>:"|?*]/g, "_")
+    .replace(/^[\s.]+|[\s.]+$/g, "");
+  if (WINDOWS_RESERVED.test(clean)) clean = `_${clean}`;
+  if (!clean) clean = fallback;
+
+  if (Buffer.byteLength(clean) > MAX_NAME_BYTES) {
+    const ext = path.extname(clean).slice(0, 20);
+    let stem = clean.slice(0, clean.length - ext.length);
+    while (Buffer.byteLength(stem + ext) > MAX_NAME_BYTES) stem = stem.slice(0, -1);
+    clean = stem + ext;
+  }
+  return clean;
+}
+
+// Write to dir/filename, or "name (1).ext", "name (2).ext", ... if taken.
+// Returns the path written.
+export function writeNewFile(dir: string, filename: string, data: Buffer | string): string {
+  fs.mkdirSync(dir, { recursive: true });
+  const ext = path.extname(filename);
+  const stem = filename.slice(0, filename.length - ext.length);
+  for (let n = 0; ; n++) {
+    const file = path.join(dir, n === 0 ? filename : `${stem} (${n})${ext}`);
+    try {
+      fs.writeFileSync(file, data, { flag: "wx" });
+      return file;
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code !== "EEXIST") throw e;
+    }
+  }
+}
+
+// Case-insensitive match for shell-style patterns with * and ?
+export function globToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .split("")
+    .map((c) => (c === "*" ? ".*" : c === "?" ? "." : c.replace(/[.+^${}()|[\]\\]/g, "\\$&")))
+    .join("");
+  return new RegExp(`^${source}$`, "i");
+}
@@ -0,0 +1,324 @@
+// ABOUTME: Portable Gmail filter format and its JSON, YAML and Gmail XML encodings
+// ABOUTME: Converts between label names in files and the label IDs the API uses
+
+import * as path from "path";
+import type { gmail_v1 } from "googleapis";
+import { CliError, ExitCode } from "./errors.js";
+import { parseYaml, stringifyYaml, type YamlValue } from "./yaml.js";
+
+export type FilterFormat = "json" | "yaml" | "xml";
+export const FILTER_FORMATS: FilterFormat[] = ["json", "yaml", "xml"];
+
+export interface FilterCriteria {
+  from?: string;
+  to?: string;
+  subject?: string;
+  query?: string;          // "Has the words"
+  negatedQuery?: string;   // "Doesn't have"
+  hasAttachment?: boolean;
+  excludeChats?: boolean;
+  larger?: number;         // Size in bytes
+  smaller?: number;
+}
+
+// System label changes are named flags; other labels are given by name
+export interface FilterAction {
+  addLabels?: string[];
+  removeLabels?: string[];
+  archive?: boolean;
+  markRead?: boolean;
+  star?: boolean;
+  trash?: boolean;
+  neverSpam?: boolean;
+  important?: boolean;
+  neverImportant?: boolean;
+  forward?: string;
+}
+
+export interface FilterSpec {
+  id?: string;             // Set on filters read from Gmail; ignored on import
+  criteria: FilterCriteria;
+  action: FilterAction;
+}
+
+type Flag = "archive" | "markRead" | "star" | "trash" | "neverSpam" | "important" | "neverImportant";
+
+const FLAGS: { flag: Flag; change: "add" | "remove"; labelId: string; xml: string }[] = [
+  { flag: "archive", change: "remove", labelId: "INBOX", xml: "shouldArchive" },
+  { flag: "markRead", change: "remove", labelId: "UNREAD", xml: "shouldMarkAsRead" },
+  { flag: "star", change: "add", labelId: "STARRED", xml: "shouldStar" },
+  { flag: "trash", change: "add", labelId: "TRASH", xml: "shouldTrash" },
+  { flag: "neverSpam", change: "remove", labelId: "SPAM", xml: "shouldNeverSpam" },
+  { flag: "important", change: "add", labelId: "IMPORTANT", xml: "shouldAlwaysMarkAsImportant" },
+  { flag: "neverImportant", change: "remove", labelId: "IMPORTANT", xml: "shouldNeverMarkAsImportant" },
+];
+
+// Gmail's XML export names inbox categories "smart labels"
+const SMART_LABELS: Record<string, string> = {
+  CATEGORY_PERSONAL: "^smartlabel_personal",
+  CATEGORY_SOCIAL: "^smartlabel_social",
+  CATEGORY_PROMOTIONS: "^smartlabel_promo",
+  CATEGORY_UPDATES: "^smartlabel_notification",
+  CATEGORY_FORUMS: "^smartlabel_group",
+};
+
+const XML_TEXT_CRITERIA: [keyof FilterCriteria, string][] = [
+  ["from", "from"],
+  ["to", "to"],
+  ["subject", "subject"],
+  ["query", "hasTheWord"],
+  ["negatedQuery", "doesNotHaveTheWord"],
+];
+const SIZE_UNITS: Record<string, number> = { s_sb: 1, s_skb: 1024, s_smb: 1024 * 1024 };
+
+const CRITERIA_KEYS: Record<keyof FilterCriteria, "string" | "boolean" | "number"> = {
+  from: "string", to: "string", subject: "string", query: "string", negatedQuery: "string",
+  hasAttachment: "boolean", excludeChats: "boolean", larger: "number", smaller: "number",
+};
+const ACTION_KEYS = new Set(["addLabels", "removeLabels", "forward", ...FLAGS.map((f) => f.flag)]);
+
+export function filterFormatFor(file: string): FilterFormat {
+  const ext = path.extname(file).toLowerCase();
+  if (ext === ".yaml" || ext === ".yml") return "yaml";
+  if (ext === ".xml") return "xml";
+  return "json";
+}
+
+// API filter to portable form; labelName maps label IDs to names
+export function fromApiFilter(filter: gmail_v1.Schema$Filter, labelName: (id: string) => string): FilterSpec {
+  const c = filter.criteria || {};
+  const criteria: FilterCriteria = {
+    from: c.from || undefined,
+    to: c.to || undefined,
+    subject: c.subject || undefined,
+    query: c.query || undefined,
+    negatedQuery: c.negatedQuery || undefined,
+    hasAttachment: c.hasAttachment || undefined,
+    excludeChats: c.excludeChats || undefined,
+  };
+  if (c.size) criteria[c.sizeComparison === "smaller" ? "smaller" : "larger"] = c.size;
+
+  const add = filter.action?.addLabelIds || [];
+  const remove = filter.action?.removeLabelIds || [];
+  const action: FilterAction = {};
+  for (const { flag, change, labelId } of FLAGS) {
+    if ((change === "add" ? add : remove).includes(labelId)) action[flag] = true;
+  }
+  const isFlag = (change: "add" | "remove", id: string) => FLAGS.some((f) => f.change === change && f.labelId === id);
+  const addLabels = add.filter((id) => !isFlag("add", id)).map(labelName);
+  const removeLabels = remove.filter((id) => !isFlag("remove", id)).map(labelName);
+  if (addLabels.length > 0) action.addLabels = addLabels;
+  if (removeLabels.length > 0) action.removeLabels = removeLabels;
+  if (filter.action?.forward) action.forward = filter.action.forward;
+
+  return compact({ id: filter.id || undefined, criteria: compact(criteria), action });
+}
+
+// Portable form to API filter; labelId maps label names to IDs
+export function toApiFilter(spec: FilterSpec, labelId: (name: string) => string): gmail_v1.Schema$Filter {
+  const { larger, smaller, ...criteria } = spec.criteria;
+  const size = larger !== undefined ? { size: larger, sizeComparison: "larger" } : smaller !== undefined
+    ? { size: smaller, sizeComparison: "smaller" }
+    : {};
+
+  const add = (spec.action.addLabels || []).map(labelId);
+  const remove = (spec.action.removeLabels || []).map(labelId);
+  for (const { flag, change, labelId: id } of FLAGS) {
+    if (spec.action[flag]) (change === "add" ? add : remove).push(id);
+  }
+
+  return {
+    criteria: { ...criteria, ...size },
+    action: compact({
+      addLabelIds: add.length > 0 ? [...new Set(add)] : undefined,
+      removeLabelIds: remove.length > 0 ? [...new Set(remove)] : undefined,
+      forward: spec.action.forward,
+    }),
+  };
+}
+
+// Label names a filter refers to, excluding the flag labels
+export function filterLabelNames(spec: FilterSpec): string[] {
+  return [...(spec.action.addLabels || []), ...(spec.action.removeLabels || [])];
+}
+
+export function formatFilters(filters: FilterSpec[], format: FilterFormat): string {
+  // Files are meant for other accounts, where the IDs mean nothing
+  const portable = filters.map(({ criteria, action }) => ({ criteria, action }));
+  if (format === "xml") return toXml(portable);
+  if (format === "yaml") return stringifyYaml({ filters: portable as unknown as YamlValue });
+  return JSON.stringify({ filters: portable }, null, 2) + "\n";
+}
+
+// Accepts { filters: [...] } or a bare list in JSON/YAML, or a Gmail XML export
+export function parseFilters(text: string, format: FilterFormat): FilterSpec[] {
+  if (format === "xml") return fromXml(text);
+
+  let data: unknown;
+  try {
+    data = format === "yaml" ? parseYaml(text) : JSON.parse(text);
+  } catch (e) {
+    throw new CliError(`Invalid ${format.toUpperCase()}: ${(e as Error).message}`, ExitCode.INVALID_INPUT);
+  }
+  const list = Array.isArray(data) ? data : (data as { filters?: unknown } | null)?.filters;
+  if (!Array.isArray(list)) {
+    throw new CliError("Expected a list of filters or an object with a filters list", ExitCode.INVALID_INPUT);
+  }
+  return list.map((item, i) => validateFilter(item, i + 1));
+}
+
+function validateFilter(item: unknown, n: number): FilterSpec {
+  const fail = (message: string): never => {
+    throw new CliError(`Filter ${n}: ${message}`, ExitCode.INVALID_INPUT);
+  };
+  if (!isObject(item)) fail("expected an object with criteria and action");
+  const { criteria, action } = item as { criteria?: unknown; action?: unknown };
+  if (!isObject(criteria) || Object.keys(criteria).length === 0) fail("criteria must have at least one field");
+  if (!isObject(action) || Object.keys(action).length === 0) fail("action must have at least one field");
+
+  for (const [key, value] of Object.entries(criteria as object)) {
+    const type = CRITERIA_KEYS[key as keyof FilterCriteria];
+    if (!type) fail(`unknown criteria field "${key}"`);
+    if (typeof value !== type) fail(`criteria.${key} must be a ${type}`);
+  }
+  const c = criteria as FilterCriteria;
+  if (c.larger !== undefined && c.smaller !== undefined) fail("use either criteria.larger or criteria.smaller");
+
+  for (const [key, value] of Object.entries(action as object)) {
+    if (!ACTION_KEYS.has(key)) fail(`unknown action field "${key}"`);
+    const ok = key === "forward" ? typeof value === "string"
+      : key.endsWith("Labels") ? Array.isArray(value) && value.every((v) => typeof v === "string")
+      : typeof value === "boolean";
+    if (!ok) fail(`action.${key} has the wrong type`);
+  }
+  return { criteria: c, action: action as FilterAction };
+}
+
+function toXml(filters: FilterSpec[]): string {
+  const property = (name: string, value: string | number | boolean) =>
+    `    <apps:property name='${name}' value='${escapeXml(String(value))}'/>`;
+
+  const entries = filters.map((filter) => {
+    const { criteria, action } = filter;
+    const props: string[] = [];
+    for (const [key, name] of XML_TEXT_CRITERIA) {
+      if (criteria[key] !== undefined) props.push(property(name, criteria[key]!));
+    }
+    if (criteria.hasAttachment) props.push(property("hasAttachment", true));
+    if (criteria.excludeChats) props.push(property("excludeChats", true));
+    const size = criteria.larger ?? criteria.smaller;
+    if (size !== undefined) {
+      props.push(property("size", size), property("sizeOperator", criteria.larger !== undefined ? "s_sl" : "s_ss"));
+      props.push(property("sizeUnit", "s_sb"));
+    }
+    for (const label of action.addLabels || []) {
+      props.push(SMART_LABELS[label] ? property("smartLabelToApply", SMART_LABELS[label]) : property("label", label));
+    }
+    if (action.removeLabels?.length) {
+      throw new CliError(
+        `Gmail's XML format cannot remove labels (${action.removeLabels.join(", ")}); export as JSON or YAML`,
+        ExitCode.INVALID_INPUT
+      );
+    }
+    for (const { flag, xml } of FLAGS) {
+      if (action[flag]) props.push(property(xml, true));
+    }
+    if (action.forward) props.push(property("forwardTo", action.forward));
+    return ["  <entry>", "    <category term='filter'></category>", "    <title>Mail Filter</title>", "    <content></content>", ...props, "  </entry>"].join("\n");
+  });
+
+  return [
+    "<?xml version='1.0' encoding='UTF-8'?>",
+    "<feed xmlns='http://www.w3.org/2005/Atom' xmlns:apps='http://schemas.google.com/apps/2006'>",
+    "  <title>Mail Filters</title>",
+    ...entries,
+    "</feed>",
+    "",
+  ].join("\n");
+}
+
+function fromXml(text: string): FilterSpec[] {
+  const entries = [...text.matchAll(/<entry\b[^>]*>([\s\S]*?)<\/entry>/g)];
+  if (entries.length === 0 && !/<feed\b/.test(text)) {
+    throw new CliError("Not a Gmail filter export: no <feed> element", ExitCode.INVALID_INPUT);
+  }
+
+  return entries.map(([, body], i) => {
+    const props = new Map<string, string[]>();
+    for (const [, attrs] of body.matchAll(/<apps:property\b([^>]*?)\/?>/g)) {
+      const name = xmlAttribute(attrs, "name");
+      const value = xmlAttribute(attrs, "value");
+      if (name !== undefined && value !== undefined) props.set(name, [...(props.get(name) || []), value]);
+    }
+    const get = (name: string) => props.get(name)?.[0];
+    const isTrue = (name: string) => get(name) === "true" || undefined;
+
+    const criteria: FilterCriteria = { hasAttachment: isTrue("hasAttachment"), excludeChats: isTrue("excludeChats") };
+    for (const [key, name] of XML_TEXT_CRITERIA) {
+      (criteria as Record<string, unknown>)[key] = get(name);
+    }
+    if (get("size")) {
+      const bytes = Number(get("size")) * (SIZE_UNITS[get("sizeUnit") || "s_sb"] || 1);
+      criteria[get("sizeOperator") === "s_ss" ? "smaller" : "larger"] = bytes;
+    }
+
+    const categories = Object.fromEntries(Object.entries(SMART_LABELS).map(([id, smart]) => [smart, id]));
+    const addLabels = [...(props.get("label") || []), ...(props.get("smartLabelToApply") || []).map((s) => categories[s] || s)];
+    const action: FilterAction = { addLabels: addLabels.length > 0 ? addLabels : undefined, forward: get("forwardTo") };
+    for (const { flag, xml } of FLAGS) {
+      if (isTrue(xml)) action[flag] = true;
+    }
+    return validateFilter({ criteria: compact(criteria), action: compact(action) }, i + 1);
+  });
+}
+
+function xmlAttribute(attrs: string, name: string): string | undefined {
+  const match = new RegExp(`\\b${name}\\s*=\\s*(?:'([^']*)'|"([^"]*)")`).exec(attrs);
+  return match ? unescapeXml(match[1] ?? match[2]) : undefined;
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/'/g, "&apos;").replace(/"/g, "&quot;");
+}
+
+function unescapeXml(text: string): string {
+  return text.replace(/&(lt|gt|quot|apos|amp|#\d+|#x[0-9a-f]+);/gi, (_m, entity: string) => {
+    if (entity.startsWith("#")) {
+      return String.fromCodePoint(entity[1].toLowerCase() === "x" ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10));
+    }
+    return { lt: "<", gt: ">", quot: '"', apos: "'", amp: "&" }[entity.toLowerCase()]!;
+  });
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// Drop undefined fields so files and comparisons stay clean
+function compact<T extends object>(value: T): T {
+  return Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined)) as T;
+}
+
+// One-line summaries for tables: "from:a@b.com has:attachment" and "+Receipts archive"
+export function describeCriteria(criteria: FilterCriteria): string {
+  const parts: string[] = [];
+  if (criteria.from) parts.push(`from:${criteria.from}`);
+  if (criteria.to) parts.push(`to:${criteria.to}`);
+  if (criteria.subject) parts.push(`subject:${criteria.subject}`);
+  if (criteria.query) parts.push(criteria.query);
+  if (criteria.negatedQuery) parts.push(`-(${criteria.negatedQuery})`);
+  if (criteria.hasAttachment) parts.push("has:attachment");
+  if (criteria.excludeChats) parts.push("-in:chats");
+  if (criteria.larger !== undefined) parts.push(`larger:${criteria.larger}`);
+  if (criteria.smaller !== undefined) parts.push(`smaller:${criteria.smaller}`);
+  return parts.join(" ");
+}
+
+export function describeAction(action: FilterAction): string {
+  return [
+    ...(action.addLabels || []).map((l) => `+${l}`),
+    ...(action.removeLabels || []).map((l) => `-${l}`),
+    ...FLAGS.filter(({ flag }) => action[flag]).map(({ flag }) => flag),
+    ...(action.forward ? [`forward:${action.forward}`] : []),
+  ].join(" ");
+}
@@ -0,0 +1,108 @@
+// ABOUTME: Small Markdown to HTML renderer for composing rich email bodies
+// ABOUTME: Headings, paragraphs, lists, quotes, code, links, images and emphasis
+
+const BLOCK_START = /^(#{1,6}\s|>|```|~~~|\s*([-*+]|\d+[.)])\s+|(\*\s*){3,}$|(-\s*){3,}$|(_\s*){3,}$)/;
+const LIST_ITEM = /^\s*([-*+]|\d+[.)])\s+(.*)$/;
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function renderEmphasis(html: string): string {
+  return html
+    .replace(/\*\*(?=\S)(.+?)(?<=\S)\*\*/g, "<strong>$1</strong>")
+    .replace(/(^|\W)__(?=\S)(.+?)(?<=\S)__(?!\w)/g, "$1<strong>$2</strong>")
+    .replace(/\*(?=\S)(.+?)(?<=\S)\*/g, "<em>$1</em>")
+    .replace(/(^|\W)_(?=\S)(.+?)(?<=\S)_(?!\w)/g, "$1<em>$2</em>");
+}
+
+function renderInline(text: string): string {
+  // Code, links and images are set aside so emphasis rules cannot touch
+  // their contents (URLs often contain underscores)
+  const kept: string[] = [];
+  const keep = (html: string) => `\u0000${kept.push(html) - 1}\u0000`;
+
+  let html = escapeHtml(text)
+    .replace(/`([^`]+)`/g, (_m, code: string) => keep(`<code>${code}</code>`))
+    .replace(/!\[([^\]]*)\]\(([^)\s]+)\)/g, (_m, alt: string, src: string) => keep(`<img src="${src}" alt="${alt}">`))
+    .replace(/\[([^\]]+)\]\(([^)\s]+)\)/g, (_m, label: string, href: string) => keep(`<a href="${href}">${renderEmphasis(label)}</a>`))
+    .replace(/&lt;(https?:\/\/[^\s&]+)&gt;/g, (_m, url: string) => keep(`<a href="${url}">${url}</a>`));
+
+  html = renderEmphasis(html).replace(/ {2,}\n|\\\n/g, "<br>\n");
+  // Links may contain kept code spans, so restore until none are left
+  while (/\u0000\d+\u0000/.test(html)) {
+    html = html.replace(/\u0000(\d+)\u0000/g, (_m, i: string) => kept[Number(i)]);
+  }
+  return html;
+}
+
+export function renderMarkdown(source: string): string {
+  const lines = source.replace(/\r\n?/g, "\n").split("\n");
+  const blocks: string[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    const fence = /^\s*(```|~~~)/.exec(line);
+    if (fence) {
+      const body: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].trim().startsWith(fence[1])) body.push(lines[i++]);
+      i++;
+      blocks.push(`<pre><code>${escapeHtml(body.join("\n"))}</code></pre>`);
+      continue;
+    }
+
+    const heading = /^(#{1,6})\s+(.*?)\s*#*\s*$/.exec(line);
+    if (heading) {
+      const level = heading[1].length;
+      blocks.push(`<h${level}>${renderInline(heading[2])}</h${level}>`);
+      i++;
+      continue;
+    }
+
+    if (/^\s*((\*\s*){3,}|(-\s*){3,}|(_\s*){3,})$/.test(line)) {
+      blocks.push("<hr>");
+      i++;
+      continue;
+    }
+
+    if (line.startsWith(">")) {
+      const quoted: string[] = [];
+      while (i < lines.length && lines[i].startsWith(">")) quoted.push(lines[i++].replace(/^>\s?/, ""));
+      blocks.push(`<blockquote>\n${renderMarkdown(quoted.join("\n"))}\n</blockquote>`);
+      continue;
+    }
+
+    const item = LIST_ITEM.exec(line);
+    if (item) {
+      const ordered = /\d/.test(item[1]);
+      const items: string[] = [];
+      while (i < lines.length && lines[i].trim()) {
+        const next = LIST_ITEM.exec(lines[i]);
+        if (next) items.push(next[2]);
+        else items[items.length - 1] += `\n${lines[i].trim()}`;
+        i++;
+      }
+      const tag = ordered ? "ol" : "ul";
+      blocks.push(`<${tag}>\n${items.map((text) => `<li>${renderInline(text)}</li>`).join("\n")}\n</${tag}>`);
+      continue;
+    }
+
+    const paragraph: string[] = [line];
+    i++;
+    while (i < lines.length && lines[i].trim() && !BLOCK_START.test(lines[i])) paragraph.push(lines[i++]);
+    blocks.push(`<p>${renderInline(paragraph.join("\n"))}</p>`);
+  }
+
+  return blocks.join("\n");
+}
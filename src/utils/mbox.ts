@@ -0,0 +1,31 @@
+// ABOUTME: mboxrd encoding of raw RFC 5322 messages
+// ABOUTME: Writes the From_ separator line and escapes body lines that start with From
+
+const DAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+const MONTHS = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+
+// asctime() form used by From_ lines, in UTC: "Mon Jan  5 10:00:00 2026"
+export function asctime(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  const time = `${pad(date.getUTCHours())}:${pad(date.getUTCMinutes())}:${pad(date.getUTCSeconds())}`;
+  const day = String(date.getUTCDate()).padStart(2, " ");
+  return `${DAYS[date.getUTCDay()]} ${MONTHS[date.getUTCMonth()]} ${day} ${time} ${date.getUTCFullYear()}`;
+}
+
+// Envelope sender for the From_ line: the address in the message's From header
+function senderOf(message: string): string {
+  const headerEnd = message.search(/\n\n/);
+  const headers = (headerEnd === -1 ? message : message.slice(0, headerEnd)).replace(/\n[ \t]+/g, " ");
+  const from = /^from:[^\n]*?<?([^\s<>"]+@[^\s<>"]+)>?\s*$/im.exec(headers);
+  return from ? from[1] : "MAILER-DAEMON";
+}
+
+// One mbox entry: From_ line, the message with LF line endings and mboxrd
+// ">From " quoting, and the blank line that ends every entry
+export function toMboxEntry(raw: Buffer, date: Date): Buffer {
+  // latin1 maps bytes 1:1, so 8-bit message content passes through unchanged
+  const message = raw.toString("latin1").replace(/\r\n/g, "\n");
+  const body = message.replace(/^(>*From )/gm, ">$1");
+  const entry = `From ${senderOf(message)} ${asctime(date)}\n${body}${body.endsWith("\n") ? "" : "\n"}\n`;
+  return Buffer.from(entry, "latin1");
+}
@@ -0,0 +1,180 @@
+// ABOUTME: Builds RFC 5322 / MIME messages for Gmail send and drafts
+// ABOUTME: Encoded-word headers, text+HTML alternatives, inline CID images and wrapped base64
+
+import * as crypto from "crypto";
+import * as path from "path";
+import { CliError, ExitCode } from "./errors.js";
+import { formatAddress, parseAddressList, type Address } from "./mime.js";
+
+export interface MimeAttachment {
+  filename: string;
+  mimeType: string;
+  content: Buffer;
+  contentId?: string;  // Set for inline parts referenced from the HTML as cid:<contentId>
+}
+
+export interface MailMessage {
+  from: string;
+  to: string[];
+  cc?: string[];
+  bcc?: string[];
+  subject: string;
+  body: string;                // text/plain, also the fallback when html is set
+  html?: string;               // Sends multipart/alternative when present
+  inline?: MimeAttachment[];   // Only used with html
+  inReplyTo?: string;
+  references?: string;
+  attachments?: MimeAttachment[];
+}
+
+interface Part {
+  headers: string[];
+  body: string;
+}
+
+const CRLF = "\r\n";
+const MAX_LINE = 76;
+// 30 bytes make a 52-char encoded word, so "Subject: " plus one word stays
+// within the 78-column line limit when words are folded one per line
+const MAX_WORD_BYTES = 30;
+
+const MIME_TYPES: Record<string, string> = {
+  ".pdf": "application/pdf",
+  ".doc": "application/msword",
+  ".docx": "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  ".xls": "application/vnd.ms-excel",
+  ".xlsx": "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".gif": "image/gif",
+  ".svg": "image/svg+xml",
+  ".webp": "image/webp",
+  ".txt": "text/plain",
+  ".csv": "text/csv",
+  ".html": "text/html",
+  ".zip": "application/zip",
+  ".json": "application/json",
+};
+
+export function mimeTypeFor(filename: string): string {
+  return MIME_TYPES[path.extname(filename).toLowerCase()] || "application/octet-stream";
+}
+
+function isPlainAscii(text: string): boolean {
+  return /^[\x20-\x7e]*$/.test(text);
+}
+
+// RFC 2047 B-encoded words, split on character boundaries
+export function encodeWords(text: string): string[] {
+  if (isPlainAscii(text)) return [text];
+  const words: string[] = [];
+  let chunk = "";
+  for (const char of text) {
+    if (Buffer.byteLength(chunk + char) > MAX_WORD_BYTES) {
+      words.push(chunk);
+      chunk = "";
+    }
+    chunk += char;
+  }
+  words.push(chunk);
+  return words.map((word) => `=?UTF-8?B?${Buffer.from(word).toString("base64")}?=`);
+}
+
+function encodeAddress(address: Address): string {
+  if (!address.name || isPlainAscii(address.name)) return formatAddress(address);
+  return `${encodeWords(address.name).join(`${CRLF} `)} <${address.address}>`;
+}
+
+// Values written into headers verbatim must not start a new header line
+function checkHeaderValue(name: string, value: string): string {
+  if (/[\x00-\x1f\x7f]/.test(value)) {
+    throw new CliError(`${name} contains a line break or control character: ${JSON.stringify(value)}`, ExitCode.INVALID_INPUT);
+  }
+  return value;
+}
+
+function addressHeader(name: string, entries: string[] | undefined): string {
+  const addresses = (entries || [])
+    .flatMap((entry) => parseAddressList(checkHeaderValue(name, entry)))
+    .map(encodeAddress);
+  if (addresses.length === 0) return "";
+  const line = `${name}: ${addresses.join(", ")}`;
+  return line.length <= 78 && !line.includes(CRLF) ? line : `${name}: ${addresses.join(`,${CRLF} `)}`;
+}
+
+function textHeader(name: string, value: string): string {
+  return `${name}: ${encodeWords(value).join(`${CRLF} `)}`;
+}
+
+function wrapBase64(content: Buffer): string {
+  return (content.toString("base64").match(new RegExp(`.{1,${MAX_LINE}}`, "g")) || []).join(CRLF);
+}
+
+// filename="x" for plain names, RFC 2231 filename*= otherwise
+function filenameParam(filename: string): string {
+  if (isPlainAscii(filename) && !/["\\]/.test(filename)) return `filename="${filename}"`;
+  const encoded = encodeURIComponent(filename).replace(/['()*]/g, (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+  return `filename*=UTF-8''${encoded}`;
+}
+
+function textPart(subtype: "plain" | "html", text: string): Part {
+  const normalized = text.replace(/\r?\n/g, CRLF);
+  const contentType = `Content-Type: text/${subtype}; charset=UTF-8`;
+  // 7bit is the default transfer encoding, so plain ASCII needs no header
+  const sevenBit = /^[\x00-\x7f]*$/.test(normalized) && normalized.split(CRLF).every((l) => l.length <= 998);
+  if (sevenBit) return { headers: [contentType], body: normalized };
+  return {
+    headers: [contentType, "Content-Transfer-Encoding: base64"],
+    body: wrapBase64(Buffer.from(normalized)),
+  };
+}
+
+function filePart(file: MimeAttachment, disposition: "attachment" | "inline"): Part {
+  return {
+    headers: [
+      `Content-Type: ${file.mimeType}`,
+      "Content-Transfer-Encoding: base64",
+      `Content-Disposition: ${disposition}; ${filenameParam(file.filename)}`,
+      file.contentId ? `Content-ID: <${file.contentId}>` : "",
+    ].filter(Boolean),
+    body: wrapBase64(file.content),
+  };
+}
+
+function multipart(subtype: "mixed" | "alternative" | "related", parts: Part[]): Part {
+  const boundary = `boundary_${crypto.randomBytes(12).toString("hex")}`;
+  const body = parts.map((p) => `--${boundary}${CRLF}${p.headers.join(CRLF)}${CRLF}${CRLF}${p.body}`).join(CRLF);
+  return {
+    headers: [`Content-Type: multipart/${subtype}; boundary="${boundary}"`],
+    body: `${body}${CRLF}--${boundary}--`,
+  };
+}
+
+export function buildMimeMessage(message: MailMessage): string {
+  let content = textPart("plain", message.body);
+  if (message.html !== undefined) {
+    let html = textPart("html", message.html);
+    if (message.inline?.length) {
+      html = multipart("related", [html, ...message.inline.map((file) => filePart(file, "inline"))]);
+    }
+    content = multipart("alternative", [content, html]);
+  }
+  if (message.attachments?.length) {
+    content = multipart("mixed", [content, ...message.attachments.map((file) => filePart(file, "attachment"))]);
+  }
+
+  const headers = [
+    addressHeader("From", [message.from]),
+    addressHeader("To", message.to),
+    addressHeader("Cc", message.cc),
+    addressHeader("Bcc", message.bcc),
+    textHeader("Subject", message.subject),
+    message.inReplyTo ? `In-Reply-To: ${checkHeaderValue("In-Reply-To", message.inReplyTo)}` : "",
+    message.references ? `References: ${checkHeaderValue("References", message.references)}` : "",
+    "MIME-Version: 1.0",
+    ...content.headers,
+  ].filter(Boolean);
+
+  return headers.join(CRLF) + CRLF + CRLF + content.body;
+}
@@ -0,0 +1,249 @@
+// ABOUTME: Walks Gmail MIME part trees for bodies, inline parts and attachments
+// ABOUTME: Decodes legacy charsets, renders HTML as text and parses address lists
+
+import type { gmail_v1 } from "googleapis";
+
+type Part = gmail_v1.Schema$MessagePart;
+
+export interface Attachment {
+  id: string;
+  filename: string;
+  mimeType: string;
+  size: number;
+}
+
+// Part shown inside the HTML body, referenced as cid:<contentId>
+export interface InlinePart {
+  contentId: string;
+  mimeType: string;
+  filename?: string;
+  attachmentId?: string;
+  size: number;
+}
+
+export interface ParsedMessage {
+  text?: string;              // First text/plain body
+  html?: string;              // First text/html body
+  inline: InlinePart[];       // Parts referenced from the HTML by cid:
+  attachments: Attachment[];  // Including those inside nested and forwarded messages
+}
+
+export interface RawHeader {
+  name: string;
+  value: string;              // Unfolded, but otherwise as sent (encoded words are kept)
+}
+
+export interface Address {
+  name?: string;
+  address: string;
+}
+
+interface Bodies {
+  text?: string;
+  html?: string;
+}
+
+export function getPartHeader(part: Part | undefined, name: string): string | undefined {
+  const header = part?.headers?.find((h) => h.name?.toLowerCase() === name.toLowerCase());
+  return header?.value || undefined;
+}
+
+// Header fields of an RFC 5322 message in their original order. headerBytes
+// counts the header block up to and including the blank line that ends it.
+export function parseRawHeaders(raw: Buffer): { headers: RawHeader[]; headerBytes: number } {
+  const crlf = raw.indexOf("\r\n\r\n");
+  const lf = raw.indexOf("\n\n");
+  const end = crlf !== -1 && (lf === -1 || crlf < lf) ? crlf + 4 : lf !== -1 ? lf + 2 : raw.length;
+
+  const headers: RawHeader[] = [];
+  for (const line of raw.subarray(0, end).toString("utf8").split(/\r?\n/)) {
+    if (/^[ \t]/.test(line) && headers.length > 0) {
+      headers[headers.length - 1].value += line;
+      continue;
+    }
+    const colon = line.indexOf(":");
+    if (colon > 0) headers.push({ name: line.slice(0, colon).trim(), value: line.slice(colon + 1).trimStart() });
+  }
+  for (const header of headers) header.value = header.value.trimEnd();
+  return { headers, headerBytes: end };
+}
+
+// Split `text/plain; charset="iso-8859-1"` into its value and parameters
+export function parseHeaderValue(header: string | undefined): { value: string; params: Record<string, string> } {
+  if (!header) return { value: "", params: {} };
+  const semi = header.indexOf(";");
+  const value = (semi === -1 ? header : header.slice(0, semi)).trim();
+  const params: Record<string, string> = {};
+  const re = /;\s*([^=;\s]+)\s*=\s*("(?:[^"\\]|\\.)*"|[^;]*)/g;
+  for (const match of header.matchAll(re)) {
+    const raw = match[2].trim();
+    params[match[1].toLowerCase()] = raw.startsWith('"') ? raw.slice(1, -1).replace(/\\(.)/g, "$1") : raw;
+  }
+  return { value, params };
+}
+
+// Split `"Doe, Jane" <jane@x.com>, bob@y.com` into addresses. Commas inside
+// quotes or angle brackets do not separate entries.
+export function parseAddressList(header: string | undefined): Address[] {
+  const text = header || "";
+  const entries: string[] = [];
+  let current = "";
+  let quoted = false;
+  let angle = false;
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (c === "\\" && quoted) {
+      current += c + (text[++i] ?? "");
+      continue;
+    }
+    if (c === '"') quoted = !quoted;
+    else if (!quoted && c === "<") angle = true;
+    else if (!quoted && c === ">") angle = false;
+    if (c === "," && !quoted && !angle) {
+      entries.push(current);
+      current = "";
+    } else {
+      current += c;
+    }
+  }
+  entries.push(current);
+
+  return entries
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const match = /^(.*?)<([^>]*)>\s*$/.exec(entry);
+      if (!match) return { address: entry };
+      const name = match[1].trim().replace(/^"(.*)"$/, "$1").replace(/\\(.)/g, "$1");
+      return name ? { name, address: match[2].trim() } : { address: match[2].trim() };
+    });
+}
+
+// A bare local@domain address (RFC 5322 addr-spec without quoted local parts or comments)
+export function isAddrSpec(address: string): boolean {
+  return /^[^\s@<>()[\]\\,;:"\x00-\x1f\x7f]+@[^\s@<>()[\]\\,;:"\x00-\x1f\x7f]+$/.test(address);
+}
+
+export function formatAddress(address: Address): string {
+  if (!address.name) return address.address;
+  const name = /[",;:<>@()[\]\\.]/.test(address.name)
+    ? `"${address.name.replace(/(["\\])/g, "\\$1")}"`
+    : address.name;
+  return `${name} <${address.address}>`;
+}
+
+export function decodeCharset(data: Buffer, charset = "utf-8"): string {
+  try {
+    return new TextDecoder(charset).decode(data);
+  } catch {
+    // Unknown label: UTF-8 is the most likely real encoding
+    return data.toString("utf8");
+  }
+}
+
+// Inline body data of a part, decoded with the charset from its Content-Type
+export function decodePartBody(part: Part): string | undefined {
+  if (!part.body?.data) return undefined;
+  const { params } = parseHeaderValue(getPartHeader(part, "Content-Type"));
+  return decodeCharset(Buffer.from(part.body.data, "base64url"), params.charset);
+}
+
+export function parseMessagePayload(payload: Part | undefined): ParsedMessage {
+  const result: ParsedMessage = { inline: [], attachments: [] };
+  const own: Bodies = {};
+  const forwarded: Bodies = {};
+
+  const walk = (part: Part, bodies: Bodies) => {
+    const mimeType = (part.mimeType || "").toLowerCase();
+    const disposition = parseHeaderValue(getPartHeader(part, "Content-Disposition")).value.toLowerCase();
+    const contentId = getPartHeader(part, "Content-ID")?.replace(/^<|>$/g, "");
+    const attachmentId = part.body?.attachmentId || undefined;
+
+    if (part.parts?.length) {
+      // A forwarded message may itself be offered as an .eml attachment
+      if (mimeType === "message/rfc822" && part.filename && attachmentId) {
+        result.attachments.push(toAttachment(part, attachmentId));
+      }
+      const childBodies = mimeType === "message/rfc822" ? forwarded : bodies;
+      for (const child of part.parts) walk(child, childBodies);
+      return;
+    }
+
+    if (contentId && disposition !== "attachment" && !mimeType.startsWith("text/")) {
+      result.inline.push({
+        contentId,
+        mimeType: mimeType || "application/octet-stream",
+        filename: part.filename || undefined,
+        attachmentId,
+        size: part.body?.size || 0,
+      });
+    } else if (part.filename || disposition === "attachment") {
+      if (attachmentId) result.attachments.push(toAttachment(part, attachmentId));
+    } else if (mimeType === "text/plain" || mimeType === "") {
+      bodies.text ??= decodePartBody(part);
+    } else if (mimeType === "text/html") {
+      bodies.html ??= decodePartBody(part);
+    }
+  };
+
+  if (payload) walk(payload, own);
+  // Show the forwarded message only when the outer one has no body of its own
+  const bodies = own.text !== undefined || own.html !== undefined ? own : forwarded;
+  result.text = bodies.text;
+  result.html = bodies.html;
+  return result;
+}
+
+function toAttachment(part: Part, attachmentId: string): Attachment {
+  return {
+    id: attachmentId,
+    filename: part.filename || "attachment",
+    mimeType: part.mimeType || "application/octet-stream",
+    size: part.body?.size || 0,
+  };
+}
+
+const ENTITIES: Record<string, string> = {
+  amp: "&", lt: "<", gt: ">", quot: '"', apos: "'", nbsp: " ",
+  copy: "©", reg: "®", trade: "™", hellip: "…", mdash: "—", ndash: "–",
+  lsquo: "‘", rsquo: "’", ldquo: "“", rdquo: "”", bull: "•", middot: "·", euro: "€",
+};
+
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity.startsWith("#")) {
+      const code = entity[1].toLowerCase() === "x" ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : match;
+    }
+    return ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+// Readable plain text for HTML-only mail: block structure becomes line
+// breaks, links keep their target, everything else is dropped
+export function htmlToText(html: string): string {
+  const text = html
+    .replace(/<(script|style|head|title)\b[^>]*>[\s\S]*?<\/\1\s*>/gi, "")
+    .replace(/<!--[\s\S]*?-->/g, "")
+    .replace(/\s+/g, " ")
+    .replace(/<a\b[^>]*?\bhref\s*=\s*(?:"([^"]*)"|'([^']*)')[^>]*>([\s\S]*?)<\/a\s*>/gi, (_m, dq, sq, inner: string) => {
+      const href = decodeEntities(dq ?? sq ?? "").replace(/^mailto:/i, "");
+      const label = inner.replace(/<[^>]+>/g, "").trim();
+      if (!href || decodeEntities(label) === href) return label || href;
+      return label ? `${label} (${href})` : href;
+    })
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<li\b[^>]*>/gi, "\n- ")
+    .replace(/<\/?(p|div|h[1-6]|ul|ol|table|blockquote|pre|section|article|header|footer)\b[^>]*>/gi, "\n\n")
+    .replace(/<\/tr\s*>/gi, "\n")
+    .replace(/<\/t[dh]\s*>/gi, " ")
+    .replace(/<hr\b[^>]*>/gi, "\n---\n")
+    .replace(/<[^>]+>/g, "");
+
+  return decodeEntities(text)
+    .split("\n")
+    .map((line) => line.replace(/[ \t ]+/g, " ").trim())
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
@@ -0,0 +1,83 @@
+// ABOUTME: Output formatting for CLI results (tsv, table, json, ndjson)
+// ABOUTME: Serializes typed service results so scripts and agents can parse them
+
+export const OUTPUT_FORMATS = ["tsv", "table", "json", "ndjson"] as const;
+
+export type OutputFormat = typeof OUTPUT_FORMATS[number];
+
+export interface Column<T> {
+  header: string;
+  value: (item: T) => string | number | undefined | null;
+}
+
+export function isOutputFormat(value: string): value is OutputFormat {
+  return (OUTPUT_FORMATS as readonly string[]).includes(value);
+}
+
+export class Output {
+  constructor(public readonly format: OutputFormat = "tsv") {}
+
+  get structured(): boolean {
+    return this.format === "json" || this.format === "ndjson";
+  }
+
+  // Print a list of items. Text formats use the columns; structured formats
+  // serialize the items as-is with nextPageToken as a field.
+  list<T>(items: T[], columns: Column<T>[], nextPageToken?: string): void {
+    if (this.format === "json") {
+      this.writeJson(nextPageToken ? { items, nextPageToken } : { items }, true);
+      return;
+    }
+    if (this.format === "ndjson") {
+      for (const item of items) {
+        this.writeJson(item);
+      }
+      if (nextPageToken) {
+        this.writeJson({ nextPageToken });
+      }
+      return;
+    }
+
+    const rows = [
+      columns.map((c) => c.header),
+      ...items.map((item) => columns.map((c) => this.cell(c.value(item)))),
+    ];
+    if (this.format === "table") {
+      const widths = columns.map((_, i) => Math.max(...rows.map((r) => r[i].length)));
+      for (const row of rows) {
+        console.log(row.map((cell, i) => (i === row.length - 1 ? cell : cell.padEnd(widths[i]))).join("  ").trimEnd());
+      }
+    } else {
+      for (const row of rows) {
+        console.log(row.join("\t"));
+      }
+    }
+    if (nextPageToken) {
+      console.error(`# Next page: --page ${nextPageToken}`);
+    }
+  }
+
+  // Print a single result. Structured formats serialize data; text formats
+  // call render, which prints the human-readable view.
+  item(data: unknown, render: () => void): void {
+    if (this.structured) {
+      this.writeJson(data, this.format === "json");
+      return;
+    }
+    render();
+  }
+
+  // Print a confirmation message for a mutating command
+  done(message: string, data: Record<string, unknown> = {}): void {
+    this.item({ ok: true, ...data }, () => console.log(message));
+  }
+
+  private cell(value: string | number | undefined | null): string {
+    if (value === undefined || value === null) return "";
+    return String(value).replace(/[\t\r\n]+/g, " ");
+  }
+
+  private writeJson(data: unknown, pretty = false): void {
+    console.log(pretty ? JSON.stringify(data, null, 2) : JSON.stringify(data));
+  }
+}
@@ -0,0 +1,81 @@
+// ABOUTME: Retry policy for Google API calls: jittered exponential backoff
+// ABOUTME: Honors Retry-After and never retries non-idempotent calls that may have been applied
+
+import { getErrorStatus, isRateLimitError } from "./errors.js";
+
+export interface RetryOptions {
+  maxAttempts?: number;   // Total attempts including the first (default 5)
+  baseDelayMs?: number;   // First backoff ceiling, doubled per attempt (default 500)
+  maxDelayMs?: number;    // Upper bound for any single wait (default 32000)
+  onRetry?: (error: unknown, attempt: number, delayMs: number) => void;
+}
+
+export interface CallOptions {
+  // False for calls that create something (send, insert). They are only
+  // retried when Google certainly did not process the request.
+  idempotent?: boolean;
+}
+
+const DEFAULT_MAX_ATTEMPTS = 5;
+const DEFAULT_BASE_DELAY_MS = 500;
+const DEFAULT_MAX_DELAY_MS = 32_000;
+
+// Failures before the request reached Google
+const NOT_SENT_CODES = new Set(["ECONNREFUSED", "ENOTFOUND", "EAI_AGAIN"]);
+// Failures where the request may or may not have been processed
+const TRANSIENT_CODES = new Set(["ECONNRESET", "ETIMEDOUT", "ESOCKETTIMEDOUT", "EPIPE", "ECONNABORTED"]);
+const TRANSIENT_STATUSES = new Set([500, 502, 503, 504]);
+
+export function isRetryable(e: unknown, idempotent = true): boolean {
+  const code = (e as { code?: unknown } | undefined)?.code;
+  // Rate limit responses mean the request was rejected, not applied
+  if (isRateLimitError(e)) return true;
+  if (typeof code === "string" && NOT_SENT_CODES.has(code)) return true;
+  if (!idempotent) return false;
+  if (typeof code === "string" && TRANSIENT_CODES.has(code)) return true;
+  const status = getErrorStatus(e);
+  return status !== undefined && TRANSIENT_STATUSES.has(status);
+}
+
+// Retry-After as milliseconds (seconds or HTTP date form), if the response had one
+export function getRetryAfterMs(e: unknown): number | undefined {
+  const headers = (e as { response?: { headers?: Record<string, string> | Headers } } | undefined)?.response?.headers;
+  if (!headers) return undefined;
+  const value = typeof (headers as Headers).get === "function"
+    ? (headers as Headers).get("retry-after")
+    : (headers as Record<string, string>)["retry-after"];
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+export function maxAttemptsFromEnv(): number | undefined {
+  const value = parseInt(process.env["JGOOGLE_MAX_ATTEMPTS"] || "");
+  return Number.isNaN(value) ? undefined : Math.max(1, value);
+}
+
+export async function withRetry<T>(
+  fn: () => Promise<T>,
+  options: RetryOptions & CallOptions = {}
+): Promise<T> {
+  const maxAttempts = options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+  const baseDelayMs = options.baseDelayMs ?? DEFAULT_BASE_DELAY_MS;
+  const maxDelayMs = options.maxDelayMs ?? DEFAULT_MAX_DELAY_MS;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await fn();
+    } catch (e) {
+      if (attempt >= maxAttempts || !isRetryable(e, options.idempotent ?? true)) {
+        throw e;
+      }
+      const retryAfter = getRetryAfterMs(e);
+      const backoff = Math.random() * Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+      const delay = Math.min(maxDelayMs, retryAfter ?? backoff);
+      options.onRetry?.(e, attempt, delay);
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+}
@@ -0,0 +1,129 @@
+// ABOUTME: Encrypted-at-rest JSON files and atomic writes with backup
+// ABOUTME: AES-256-GCM keyed by a passphrase (scrypt) or a local key file
+
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+
+const CIPHER = "aes-256-gcm";
+const KEY_LENGTH = 32;
+const SCRYPT_OPTIONS = { N: 2 ** 15, r: 8, p: 1, maxmem: 64 * 1024 * 1024 };
+
+export interface KeySource {
+  passphrase?: string;  // Derive the key with scrypt; takes precedence over keyFile
+  keyFile: string;      // Random 32-byte key, created with mode 0600 on first use
+}
+
+interface Envelope {
+  version: 1;
+  cipher: typeof CIPHER;
+  kdf: "scrypt" | "keyfile";
+  salt?: string;
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+export function isEncryptedEnvelope(data: unknown): boolean {
+  return typeof data === "object" && data !== null && (data as Envelope).cipher === CIPHER;
+}
+
+export function encryptJson(value: unknown, source: KeySource): string {
+  const iv = crypto.randomBytes(12);
+  let key: Buffer;
+  let salt: Buffer | undefined;
+  if (source.passphrase) {
+    salt = crypto.randomBytes(16);
+    key = crypto.scryptSync(source.passphrase, salt, KEY_LENGTH, SCRYPT_OPTIONS);
+  } else {
+    key = loadOrCreateKeyFile(source.keyFile);
+  }
+
+  const cipher = crypto.createCipheriv(CIPHER, key, iv);
+  const data = Buffer.concat([cipher.update(JSON.stringify(value), "utf8"), cipher.final()]);
+  const envelope: Envelope = {
+    version: 1,
+    cipher: CIPHER,
+    kdf: salt ? "scrypt" : "keyfile",
+    salt: salt?.toString("base64"),
+    iv: iv.toString("base64"),
+    tag: cipher.getAuthTag().toString("base64"),
+    data: data.toString("base64"),
+  };
+  return JSON.stringify(envelope, null, 2);
+}
+
+// Decrypt an envelope produced by encryptJson. Throws with a readable message
+// when the key is missing or wrong, or the data was tampered with.
+export function decryptJson(envelope: unknown, source: KeySource): unknown {
+  const env = envelope as Envelope;
+  let key: Buffer;
+  if (env.kdf === "scrypt") {
+    if (!source.passphrase) {
+      throw new Error("File is passphrase-encrypted. Set JGOOGLE_PASSPHRASE");
+    }
+    key = crypto.scryptSync(source.passphrase, Buffer.from(env.salt || "", "base64"), KEY_LENGTH, SCRYPT_OPTIONS);
+  } else {
+    if (!fs.existsSync(source.keyFile)) {
+      throw new Error(`Key file not found: ${source.keyFile}`);
+    }
+    key = readKeyFile(source.keyFile);
+  }
+
+  try {
+    const decipher = crypto.createDecipheriv(CIPHER, key, Buffer.from(env.iv, "base64"));
+    decipher.setAuthTag(Buffer.from(env.tag, "base64"));
+    const data = Buffer.concat([decipher.update(Buffer.from(env.data, "base64")), decipher.final()]);
+    return JSON.parse(data.toString("utf8"));
+  } catch {
+    throw new Error(env.kdf === "scrypt" ? "Wrong passphrase or corrupted data" : "Wrong key file or corrupted data");
+  }
+}
+
+// Write via temp file + rename so readers never see a partial file. The
+// previous version, if any, is kept as <file>.bak.
+export function writeFileAtomic(file: string, content: string | Buffer, options: { backup?: boolean } = {}): void {
+  const dir = path.dirname(file);
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true, mode: 0o700 });
+  }
+
+  const tmp = `${file}.tmp-${process.pid}`;
+  try {
+    const fd = fs.openSync(tmp, "w", 0o600);
+    try {
+      fs.writeFileSync(fd, content);
+      fs.fsyncSync(fd);
+    } finally {
+      fs.closeSync(fd);
+    }
+
+    if (options.backup && fs.existsSync(file)) {
+      fs.copyFileSync(file, `${file}.bak`);
+      fs.chmodSync(`${file}.bak`, 0o600);
+    }
+    fs.renameSync(tmp, file);
+  } catch (e) {
+    // Never leave a partial (possibly encrypted) temp file behind, e.g. on ENOSPC
+    fs.rmSync(tmp, { force: true });
+    throw e;
+  }
+  fs.chmodSync(file, 0o600);
+}
+
+function loadOrCreateKeyFile(keyFile: string): Buffer {
+  if (fs.existsSync(keyFile)) {
+    return readKeyFile(keyFile);
+  }
+  const key = crypto.randomBytes(KEY_LENGTH);
+  writeFileAtomic(keyFile, key.toString("base64"));
+  return key;
+}
+
+function readKeyFile(keyFile: string): Buffer {
+  const key = Buffer.from(fs.readFileSync(keyFile, "utf8").trim(), "base64");
+  if (key.length !== KEY_LENGTH) {
+    throw new Error(`Invalid key file: ${keyFile}`);
+  }
+  return key;
+}
@@ -0,0 +1,89 @@
+// ABOUTME: Inverted word index over named text fields, with a small query language
+// ABOUTME: Plain words must all match; field:word and "quoted phrases" narrow the match
+
+export interface QueryTerm {
+  field?: string;    // Only match in this field, e.g. from:alice
+  words: string[];
+  phrase: boolean;   // The words must appear next to each other, in order
+}
+
+// Lowercased words with accents removed, so "Café" is found by "cafe"
+export function tokenize(text: string): string[] {
+  return text
+    .normalize("NFKD")
+    .replace(/\p{M}/gu, "")
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean);
+}
+
+// `alice from:bob subject:"status report" "exact words"`. A field prefix is
+// only recognised for the given field names; anything else is a plain word.
+export function parseQuery(query: string, fields: readonly string[]): QueryTerm[] {
+  const terms: QueryTerm[] = [];
+  const pattern = /(?:([a-z]+):)?(?:"([^"]*)"?|(\S+))/gi;
+  for (const match of query.matchAll(pattern)) {
+    const [text, prefix, quoted, word] = match;
+    const field = prefix && fields.includes(prefix.toLowerCase()) ? prefix.toLowerCase() : undefined;
+    const words = tokenize(field || !prefix ? quoted ?? word : text);
+    if (words.length > 0) terms.push({ field, words, phrase: quoted !== undefined && words.length > 1 });
+  }
+  return terms;
+}
+
+// Whether `words` appear consecutively in `text`
+export function containsPhrase(text: string, words: string[]): boolean {
+  return ` ${tokenize(text).join(" ")} `.includes(` ${words.join(" ")} `);
+}
+
+// Postings are keyed "<field>:<word>" and serialize to plain JSON
+export class InvertedIndex {
+  private postings = new Map<string, Set<string>>();
+
+  constructor(data: Record<string, string[]> = {}) {
+    for (const [key, ids] of Object.entries(data)) this.postings.set(key, new Set(ids));
+  }
+
+  add(id: string, fields: Record<string, string>): void {
+    for (const key of this.keys(fields)) {
+      let ids = this.postings.get(key);
+      if (!ids) this.postings.set(key, (ids = new Set()));
+      ids.add(id);
+    }
+  }
+
+  // `fields` must hold the text the document was added with
+  remove(id: string, fields: Record<string, string>): void {
+    for (const key of this.keys(fields)) {
+      const ids = this.postings.get(key);
+      ids?.delete(id);
+      if (ids?.size === 0) this.postings.delete(key);
+    }
+  }
+
+  // Documents containing every word, in `field` or in any of `fields`
+  lookup(words: string[], fields: readonly string[]): Set<string> {
+    let result: Set<string> | undefined;
+    for (const word of words) {
+      const matches = new Set<string>();
+      for (const field of fields) {
+        for (const id of this.postings.get(`${field}:${word}`) || []) matches.add(id);
+      }
+      result = result ? new Set([...result].filter((id) => matches.has(id))) : matches;
+      if (result.size === 0) break;
+    }
+    return result || new Set();
+  }
+
+  toJSON(): Record<string, string[]> {
+    return Object.fromEntries([...this.postings].map(([key, ids]) => [key, [...ids]]));
+  }
+
+  private keys(fields: Record<string, string>): Set<string> {
+    const keys = new Set<string>();
+    for (const [field, text] of Object.entries(fields)) {
+      for (const word of tokenize(text)) keys.add(`${field}:${word}`);
+    }
+    return keys;
+  }
+}
@@ -0,0 +1,66 @@
+// ABOUTME: Parses List-Unsubscribe (RFC 2369) and List-Unsubscribe-Post (RFC 8058) headers
+// ABOUTME: Picks the best way to unsubscribe: one-click POST, mailto, or a link to open
+
+import { isAddrSpec } from "./mime.js";
+
+// Control characters in a decoded mailto would let a sender inject headers
+const CONTROL_CHARS = /[\x00-\x1f\x7f]/;
+
+export interface MailtoUnsubscribe {
+  to: string[];
+  subject?: string;
+  body?: string;
+}
+
+export interface UnsubscribeOptions {
+  oneClick?: string;            // HTTPS URL that accepts the RFC 8058 one-click POST
+  url?: string;                 // Web page to unsubscribe by hand
+  mailto?: MailtoUnsubscribe;
+}
+
+// `<mailto:leave@list.example?subject=unsubscribe>, <https://list.example/u/123>`
+export function parseListUnsubscribe(header: string | undefined, post: string | undefined): UnsubscribeOptions {
+  const result: UnsubscribeOptions = {};
+  for (const [, uri] of (header || "").matchAll(/<\s*([^>]+?)\s*>/g)) {
+    const clean = uri.replace(/\s+/g, "");
+    if (/^mailto:/i.test(clean) && !result.mailto) {
+      result.mailto = parseMailto(clean);
+    } else if (/^https?:\/\//i.test(clean) && !result.url) {
+      result.url = clean;
+    }
+  }
+  // One-click is only defined for HTTPS, and only when the sender opted in
+  if (result.url && /^https:/i.test(result.url) && /List-Unsubscribe\s*=\s*One-Click/i.test(post || "")) {
+    result.oneClick = result.url;
+  }
+  return result;
+}
+
+// Only a single plain address is accepted; the message is sent from the
+// user's account, so the sender must not pick extra recipients or headers
+function parseMailto(uri: string): MailtoUnsubscribe | undefined {
+  const [address, query = ""] = uri.slice("mailto:".length).split("?", 2);
+  const params = new URLSearchParams(query.replace(/\+/g, "%2B"));
+  let to: string;
+  try {
+    to = decodeURIComponent(address).trim();
+  } catch {
+    return undefined;
+  }
+  const subject = params.get("subject") || undefined;
+  if (!isAddrSpec(to) || CONTROL_CHARS.test(subject || "")) return undefined;
+  return { to: [to], subject, body: params.get("body") || undefined };
+}
+
+// RFC 8058 unsubscribes only mail with a valid DKIM signature. Gmail's own
+// Authentication-Results header (authserv-id mx.google.com) must report a
+// passing signature from the From domain or a parent of it.
+export function hasSenderDkim(authenticationResults: string | undefined, sender: string): boolean {
+  if (!authenticationResults || !/^\s*mx\.google\.com\s*;/i.test(authenticationResults)) return false;
+  const domain = sender.slice(sender.lastIndexOf("@") + 1).toLowerCase();
+  for (const [, signer] of authenticationResults.matchAll(/\bdkim=pass\b[^;]*?\bheader\.[di]=([^\s;]+)/gi)) {
+    const d = signer.slice(signer.lastIndexOf("@") + 1).toLowerCase();
+    if (d && (domain === d || domain.endsWith(`.${d}`))) return true;
+  }
+  return false;
+}
@@ -0,0 +1,205 @@
+// ABOUTME: Small YAML reader and writer for hand-edited config files
+// ABOUTME: Block maps and lists, flow lists, quoted and plain scalars and comments
+
+export type YamlValue = string | number | boolean | null | YamlValue[] | { [key: string]: YamlValue };
+
+interface Line {
+  indent: number;
+  text: string;
+  number: number;  // 1-based, for error messages
+}
+
+const NUMBER = /^[-+]?(\d+(\.\d*)?|\.\d+)([eE][-+]?\d+)?$/;
+const RESERVED = /^(true|false|yes|no|on|off|null|~)$/i;
+
+export function parseYaml(source: string): YamlValue {
+  const lines: Line[] = [];
+  source.replace(/^\uFEFF/, "").split(/\r?\n/).forEach((raw, i) => {
+    if (/^\t/.test(raw)) throw new Error(`line ${i + 1}: tabs are not allowed for indentation`);
+    const text = stripComment(raw).trimEnd();
+    if (!text.trim() || text === "---" || text === "...") return;
+    lines.push({ indent: text.length - text.trimStart().length, text: text.trimStart(), number: i + 1 });
+  });
+  if (lines.length === 0) return null;
+
+  let pos = 0;
+  const fail = (line: Line, message: string): never => {
+    throw new Error(`line ${line.number}: ${message}`);
+  };
+
+  const parseNode = (indent: number): YamlValue =>
+    isListItem(lines[pos].text) ? parseList(indent) : parseMap(indent);
+
+  const parseList = (indent: number): YamlValue[] => {
+    const items: YamlValue[] = [];
+    while (pos < lines.length && lines[pos].indent === indent && isListItem(lines[pos].text)) {
+      const line = lines[pos];
+      const rest = line.text.slice(1).trimStart();
+      const restIndent = indent + line.text.length - rest.length;
+      if (!rest) {
+        pos++;
+        items.push(pos < lines.length && lines[pos].indent > indent ? parseNode(lines[pos].indent) : null);
+      } else if (isListItem(rest) || splitKey(rest)) {
+        // "- key: value" starts a map (or list) nested at the item's content column
+        lines[pos] = { ...line, indent: restIndent, text: rest };
+        items.push(parseNode(restIndent));
+      } else {
+        pos++;
+        items.push(parseScalar(rest, line));
+      }
+    }
+    if (pos < lines.length && lines[pos].indent > indent) fail(lines[pos], "unexpected indentation");
+    return items;
+  };
+
+  const parseMap = (indent: number): { [key: string]: YamlValue } => {
+    const map: { [key: string]: YamlValue } = {};
+    while (pos < lines.length && lines[pos].indent === indent) {
+      const line = lines[pos];
+      const entry = splitKey(line.text);
+      if (!entry) fail(line, isListItem(line.text) ? "list item where a key was expected" : "expected key: value");
+      const [key, rest] = entry!;
+      if (Object.hasOwn(map, key)) fail(line, `duplicate key "${key}"`);
+      pos++;
+      if (rest) {
+        if (rest === "|" || rest === ">" || /^[|>][-+]?$/.test(rest)) fail(line, "block scalars are not supported");
+        setKey(map, key, parseScalar(rest, line));
+        continue;
+      }
+      const next = lines[pos];
+      const nested = next && (next.indent > indent || (next.indent === indent && isListItem(next.text)));
+      setKey(map, key, nested ? parseNode(next.indent) : null);
+    }
+    if (pos < lines.length && lines[pos].indent > indent) fail(lines[pos], "unexpected indentation");
+    return map;
+  };
+
+  const value = parseNode(lines[0].indent);
+  if (pos < lines.length) fail(lines[pos], "unexpected indentation");
+  return value;
+}
+
+// Defined rather than assigned, so keys like "__proto__" are stored as data
+function setKey(map: { [key: string]: YamlValue }, key: string, value: YamlValue): void {
+  Object.defineProperty(map, key, { value, enumerable: true, writable: true, configurable: true });
+}
+
+export function stringifyYaml(value: YamlValue): string {
+  return `${render(value, 0).join("\n")}\n`;
+}
+
+function render(value: YamlValue, indent: number): string[] {
+  const pad = " ".repeat(indent);
+  if (Array.isArray(value)) {
+    if (value.length === 0) return [`${pad}[]`];
+    return value.flatMap((item) => {
+      if (!isBlock(item)) return [`${pad}- ${scalar(item)}`];
+      // The first line of a nested block shares the "- " line
+      const [first, ...rest] = render(item, indent + 2);
+      return [`${pad}- ${first.trimStart()}`, ...rest];
+    });
+  }
+  if (value !== null && typeof value === "object") {
+    const entries = Object.entries(value);
+    if (entries.length === 0) return [`${pad}{}`];
+    return entries.flatMap(([key, item]) =>
+      isBlock(item) ? [`${pad}${scalar(key)}:`, ...render(item, indent + 2)] : [`${pad}${scalar(key)}: ${scalar(item)}`]
+    );
+  }
+  return [`${pad}${scalar(value)}`];
+}
+
+function isBlock(value: YamlValue): boolean {
+  if (Array.isArray(value)) return value.length > 0;
+  return value !== null && typeof value === "object" && Object.keys(value).length > 0;
+}
+
+function scalar(value: YamlValue): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "[]";
+  if (typeof value === "object") return "{}";
+  if (typeof value !== "string") return String(value);
+  const plain = value !== ""
+    && value === value.trim()
+    && !NUMBER.test(value)
+    && !RESERVED.test(value)
+    && !/^[-?:,[\]{}#&*!|>'"%@`]/.test(value)
+    && !/: |:$| #|[\x00-\x1f]/.test(value);
+  return plain ? value : JSON.stringify(value);
+}
+
+function parseScalar(text: string, line: Line): YamlValue {
+  if (text.startsWith('"')) {
+    try {
+      return JSON.parse(text) as string;
+    } catch {
+      throw new Error(`line ${line.number}: invalid double-quoted string`);
+    }
+  }
+  if (text.startsWith("'")) {
+    if (!/^'(?:[^']|'')*'$/.test(text)) throw new Error(`line ${line.number}: invalid single-quoted string`);
+    return text.slice(1, -1).replace(/''/g, "'");
+  }
+  if (text.startsWith("[")) {
+    if (!text.endsWith("]")) throw new Error(`line ${line.number}: unterminated [ list`);
+    const inner = text.slice(1, -1).trim();
+    return inner ? splitFlow(inner).map((item) => parseScalar(item.trim(), line)) : [];
+  }
+  if (text === "{}") return {};
+  if (text.startsWith("{")) throw new Error(`line ${line.number}: { } maps are not supported`);
+  if (/^(true|yes|on)$/i.test(text)) return true;
+  if (/^(false|no|off)$/i.test(text)) return false;
+  if (/^(null|~)$/i.test(text)) return null;
+  if (NUMBER.test(text)) return Number(text);
+  return text;
+}
+
+function isListItem(text: string): boolean {
+  return text === "-" || text.startsWith("- ");
+}
+
+// "key: rest" with the key optionally quoted; undefined when the line is not a map entry
+function splitKey(text: string): [string, string] | undefined {
+  const quoted = /^("(?:[^"\\]|\\.)*"|'(?:[^']|'')*')\s*:(?:\s+(.*))?$/.exec(text);
+  if (quoted) return [parseScalar(quoted[1], { indent: 0, text, number: 0 }) as string, quoted[2] || ""];
+  if (/^["'[{]/.test(text)) return undefined;
+  const plain = /^([^:]+?)\s*:(?:\s+(.*))?$/.exec(text);
+  return plain ? [plain[1], plain[2] || ""] : undefined;
+}
+
+function splitFlow(text: string): string[] {
+  const items: string[] = [];
+  let current = "";
+  let quote = "";
+  for (const c of text) {
+    if (quote) {
+      if (c === quote) quote = "";
+    } else if (c === '"' || c === "'") {
+      quote = c;
+    } else if (c === ",") {
+      items.push(current);
+      current = "";
+      continue;
+    }
+    current += c;
+  }
+  items.push(current);
+  return items;
+}
+
+function stripComment(line: string): string {
+  let quote = "";
+  for (let i = 0; i < line.length; i++) {
+    const c = line[i];
+    if (quote) {
+      if (c === "\\" && quote === '"') i++;
+      else if (c === quote) quote = "";
+    } else if (c === '"' || c === "'") {
+      // Quotes only open a string at the start of a value
+      if (i === 0 || /[\s:[,-]/.test(line[i - 1])) quote = c;
+    } else if (c === "#" && (i === 0 || /\s/.test(line[i - 1]))) {
+      return line.slice(0, i);
+    }
+  }
+  return line;
+}
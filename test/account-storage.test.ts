@@ -0,0 +1,134 @@
+import { afterEach, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import * as path from "path";
+import { AccountStorage, AccountStorageError } from "../src/account-storage.js";
+import { writeFileAtomic } from "../src/utils/secure-file.js";
+import { createTestStorage, makeTempDir, removeDir, testAccount } from "./helpers/accounts.js";
+
+describe("AccountStorage", () => {
+  let storage: AccountStorage;
+  let configDir: string;
+
+  beforeEach(() => {
+    ({ storage, configDir } = createTestStorage("me@example.com"));
+    storage.addAccount(testAccount("work@example.com"));
+    delete process.env.JGOOGLE_ACCOUNT;
+  });
+
+  afterEach(() => {
+    delete process.env.JGOOGLE_ACCOUNT;
+    removeDir(configDir);
+  });
+
+  describe("resolveAccount", () => {
+    it("resolves emails and aliases", () => {
+      storage.setAlias("work", "work@example.com");
+      assert.equal(storage.resolveAccount("me@example.com"), "me@example.com");
+      assert.equal(storage.resolveAccount("work"), "work@example.com");
+      assert.equal(storage.resolveAccount("unknown"), undefined);
+      assert.equal(storage.resolveAccount("other@example.com"), undefined);
+    });
+
+    it("falls back to JGOOGLE_ACCOUNT, then the default account", () => {
+      assert.equal(storage.resolveAccount(), undefined);
+      storage.setDefaultAccount("me@example.com");
+      assert.equal(storage.resolveAccount(), "me@example.com");
+      storage.setAlias("work", "work@example.com");
+      process.env.JGOOGLE_ACCOUNT = "work";
+      assert.equal(storage.resolveAccount(), "work@example.com");
+    });
+  });
+
+  it("persists the default account and aliases", () => {
+    storage.setDefaultAccount("work@example.com");
+    storage.setAlias("w", "work@example.com");
+
+    const reloaded = new AccountStorage({ configDir });
+    assert.equal(reloaded.getDefaultAccount(), "work@example.com");
+    assert.deepEqual(reloaded.getAliases(), { w: "work@example.com" });
+  });
+
+  it("drops the default and aliases of a removed account", () => {
+    storage.setDefaultAccount("work@example.com");
+    storage.setAlias("w", "work@example.com");
+    storage.setAlias("me", "me@example.com");
+
+    storage.deleteAccount("work@example.com");
+
+    assert.equal(storage.getDefaultAccount(), undefined);
+    assert.deepEqual(storage.getAliases(), { me: "me@example.com" });
+  });
+
+  describe("encryption at rest", () => {
+    it("writes accounts encrypted with mode 0600", () => {
+      const file = path.join(configDir, "accounts.json");
+      const content = fs.readFileSync(file, "utf8");
+      assert.ok(!content.includes("test-refresh"));
+      assert.equal(JSON.parse(content).cipher, "aes-256-gcm");
+      assert.equal(fs.statSync(file).mode & 0o777, 0o600);
+      assert.equal(fs.statSync(path.join(configDir, "key")).mode & 0o777, 0o600);
+
+      const reloaded = new AccountStorage({ configDir });
+      assert.equal(reloaded.getAccount("work@example.com")?.oauth2.refreshToken, "test-refresh");
+    });
+
+    it("keeps the previous version as a backup", () => {
+      storage.deleteAccount("work@example.com");
+      fs.copyFileSync(path.join(configDir, "accounts.json.bak"), path.join(configDir, "accounts.json"));
+      assert.ok(new AccountStorage({ configDir }).hasAccount("work@example.com"));
+    });
+
+    it("migrates a plaintext accounts.json", () => {
+      const dir = makeTempDir();
+      try {
+        const file = path.join(dir, "accounts.json");
+        fs.writeFileSync(file, JSON.stringify([testAccount("old@example.com")]));
+        fs.writeFileSync(`${file}.bak`, JSON.stringify([testAccount("old@example.com")]));
+
+        const migrated = new AccountStorage({ configDir: dir });
+        assert.ok(migrated.hasAccount("old@example.com"));
+        for (const name of fs.readdirSync(dir)) {
+          assert.ok(!fs.readFileSync(path.join(dir, name), "utf8").includes("test-refresh"), name);
+        }
+      } finally {
+        removeDir(dir);
+      }
+    });
+
+    it("requires the right passphrase", () => {
+      const dir = makeTempDir();
+      try {
+        new AccountStorage({ configDir: dir, passphrase: "correct horse" }).addAccount(testAccount("p@example.com"));
+
+        assert.ok(new AccountStorage({ configDir: dir, passphrase: "correct horse" }).hasAccount("p@example.com"));
+        assert.throws(
+          () => new AccountStorage({ configDir: dir, passphrase: "wrong" }).getAllAccounts(),
+          /Wrong passphrase/
+        );
+        assert.equal(fs.existsSync(path.join(dir, "key")), false);
+      } finally {
+        removeDir(dir);
+      }
+    });
+
+    it("fails loudly on corruption instead of overwriting", () => {
+      const file = path.join(configDir, "accounts.json");
+      fs.writeFileSync(file, "{ not json");
+
+      const broken = new AccountStorage({ configDir });
+      assert.throws(() => broken.getAllAccounts(), AccountStorageError);
+      assert.throws(() => broken.addAccount(testAccount("new@example.com")), /corrupted/);
+      assert.equal(fs.readFileSync(file, "utf8"), "{ not json");
+    });
+
+    it("removes the temp file when an atomic write fails", () => {
+      const target = path.join(configDir, "occupied");
+      fs.mkdirSync(target);
+      fs.writeFileSync(path.join(target, "keep"), "x");
+
+      assert.throws(() => writeFileAtomic(target, "data"));
+      assert.deepEqual(fs.readdirSync(configDir).filter((name) => name.includes(".tmp-")), []);
+    });
+  });
+});
@@ -0,0 +1,88 @@
+import { after, before, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { AccountStorage } from "../src/account-storage.js";
+import { AuthClients } from "../src/auth-client.js";
+import { ExitCode, classifyError } from "../src/utils/errors.js";
+import { CalendarService } from "../src/services/calendar.js";
+import { GmailService } from "../src/services/gmail.js";
+import { FakeGoogle } from "./helpers/fake-google.js";
+import { TEST_EMAIL, createTestStorage, removeDir, testAccount } from "./helpers/accounts.js";
+
+describe("AuthClients", () => {
+  let fake: FakeGoogle;
+  let rootUrl: string;
+  let storage: AccountStorage;
+  let configDir: string;
+  let auth: AuthClients;
+
+  before(async () => {
+    fake = new FakeGoogle();
+    rootUrl = await fake.start();
+  });
+
+  after(async () => {
+    await fake.stop();
+  });
+
+  beforeEach(() => {
+    if (configDir) removeDir(configDir);
+    ({ storage, configDir } = createTestStorage());
+    const account = testAccount();
+    account.oauth2.expiryDate = Date.now() - 1000;
+    storage.addAccount(account);
+    auth = new AuthClients(storage, { tokenUrl: `${rootUrl}token` });
+    fake.requests.length = 0;
+    fake.tokenError = undefined;
+  });
+
+  it("persists refreshed access tokens", async () => {
+    const gmail = new GmailService(storage, { rootUrl, auth });
+
+    await gmail.listLabels(TEST_EMAIL);
+
+    const [labels] = fake.requestsTo("GET", /\/labels$/);
+    const saved = new AccountStorage({ configDir }).getAccount(TEST_EMAIL)!;
+    assert.match(saved.oauth2.accessToken!, /^access-/);
+    assert.ok(saved.oauth2.expiryDate! > Date.now());
+    assert.equal(labels.headers.authorization, `Bearer ${saved.oauth2.accessToken}`);
+  });
+
+  it("shares one client per account across services", async () => {
+    const gmail = new GmailService(storage, { rootUrl, auth });
+    const calendar = new CalendarService(storage, { rootUrl, auth });
+    fake.addEvent("primary", { id: "e1", summary: "x", start: { date: "2026-01-01" }, end: { date: "2026-01-02" } });
+
+    await gmail.listLabels(TEST_EMAIL);
+    await calendar.getEvent(TEST_EMAIL, "primary", "e1");
+
+    assert.equal(fake.requestsTo("POST", /^\/token$/).length, 1);
+    assert.equal(AuthClients.for(storage), AuthClients.for(storage));
+  });
+
+  it("flags the account when the grant is revoked", async () => {
+    fake.tokenError = "invalid_grant";
+    const gmail = new GmailService(storage, { rootUrl, auth });
+
+    await assert.rejects(gmail.listLabels(TEST_EMAIL), /invalid_grant/);
+
+    const saved = new AccountStorage({ configDir }).getAccount(TEST_EMAIL)!;
+    assert.equal(saved.needsReauth, true);
+    assert.equal(saved.oauth2.accessToken, undefined);
+  });
+
+  it("clears the flag after a successful refresh", async () => {
+    storage.markNeedsReauth(TEST_EMAIL, "invalid_grant");
+    const gmail = new GmailService(storage, { rootUrl, auth });
+
+    await gmail.listLabels(TEST_EMAIL);
+
+    assert.equal(storage.getAccount(TEST_EMAIL)!.needsReauth, undefined);
+  });
+
+  it("reports unknown accounts as auth errors", () => {
+    assert.throws(() => auth.get("nobody@example.com"), (e) => {
+      assert.equal(classifyError(e).code, ExitCode.AUTH_ERROR);
+      return true;
+    });
+  });
+});
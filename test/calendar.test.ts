@@ -0,0 +1,79 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { CalendarService } from "../src/services/calendar.js";
+import { FakeGoogle } from "./helpers/fake-google.js";
+import { TEST_EMAIL, createTestStorage, removeDir } from "./helpers/accounts.js";
+
+describe("CalendarService", () => {
+  let fake: FakeGoogle;
+  let calendar: CalendarService;
+  let configDir: string;
+
+  before(async () => {
+    fake = new FakeGoogle();
+    const rootUrl = await fake.start();
+    const test = createTestStorage();
+    configDir = test.configDir;
+    calendar = new CalendarService(test.storage, { rootUrl });
+  });
+
+  after(async () => {
+    await fake.stop();
+    removeDir(configDir);
+  });
+
+  describe("updateEvent", () => {
+    it("keeps existing fields that are not updated", async () => {
+      fake.addEvent("primary", {
+        id: "e1",
+        summary: "Standup",
+        location: "Room 1",
+        description: "Daily",
+        start: { dateTime: "2026-01-05T09:00:00Z" },
+        end: { dateTime: "2026-01-05T09:15:00Z" },
+        attendees: [{ email: "a@example.com" }],
+        reminders: { useDefault: true },
+      });
+
+      const updated = await calendar.updateEvent(TEST_EMAIL, "primary", "e1", { summary: "Team standup" });
+
+      assert.equal(updated.summary, "Team standup");
+      const [put] = fake.requestsTo("PUT", /\/events\/e1$/);
+      assert.deepEqual(put.body, {
+        id: "e1",
+        summary: "Team standup",
+        location: "Room 1",
+        description: "Daily",
+        start: { dateTime: "2026-01-05T09:00:00Z" },
+        end: { dateTime: "2026-01-05T09:15:00Z" },
+        attendees: [{ email: "a@example.com" }],
+        reminders: { useDefault: true },
+      });
+    });
+
+    it("replaces times, all-day dates and attendees when given", async () => {
+      fake.addEvent("work", {
+        id: "e2",
+        summary: "Offsite",
+        start: { dateTime: "2026-02-01T09:00:00Z" },
+        end: { dateTime: "2026-02-01T17:00:00Z" },
+        attendees: [{ email: "a@example.com" }],
+      });
+
+      const updated = await calendar.updateEvent(TEST_EMAIL, "work", "e2", {
+        start: "2026-02-02",
+        end: "2026-02-04",
+        allDay: true,
+        attendees: ["b@example.com", "c@example.com"],
+      });
+
+      assert.equal(updated.allDay, true);
+      assert.equal(updated.start, "2026-02-02");
+      const event = fake.events.get("work/e2")!;
+      assert.deepEqual(event.start, { date: "2026-02-02" });
+      assert.deepEqual(event.end, { date: "2026-02-04" });
+      assert.deepEqual(event.attendees, [{ email: "b@example.com" }, { email: "c@example.com" }]);
+      assert.equal(event.summary, "Offsite");
+    });
+  });
+});
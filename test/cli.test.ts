@@ -0,0 +1,371 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import * as path from "path";
+import { FakeGoogle } from "./helpers/fake-google.js";
+import { makeTempDir, removeDir, TEST_EMAIL } from "./helpers/accounts.js";
+import { createCliHome, runCli } from "./helpers/cli.js";
+
+describe("cli", () => {
+  let fake: FakeGoogle;
+  let rootUrl: string;
+  let home: string;
+
+  before(async () => {
+    fake = new FakeGoogle();
+    rootUrl = await fake.start();
+    home = makeTempDir();
+    createCliHome(home, [TEST_EMAIL]);
+    fake.addMessage({
+      id: "m1",
+      threadId: "t1",
+      labelIds: ["INBOX"],
+      headers: { Date: "2026-01-05T10:00:00Z", From: "alice@example.com", Subject: "Hello" },
+      body: "Hi there",
+    });
+    fake.addEvent("primary", {
+      id: "e1",
+      summary: "Standup",
+      start: { dateTime: "2026-01-05T09:00:00Z" },
+      end: { dateTime: "2026-01-05T09:15:00Z" },
+    });
+  });
+
+  after(async () => {
+    await fake.stop();
+    removeDir(home);
+  });
+
+  const run = (...args: string[]) => runCli(args, { home, rootUrl });
+
+  it("lists accounts", async () => {
+    const result = await run("accounts", "list");
+    assert.equal(result.code, 0);
+    const [header, row] = result.stdout.trimEnd().split("\n");
+    assert.equal(header, "EMAIL\tSTATUS\tDEFAULT\tALIASES\tSCOPES");
+    assert.match(row, new RegExp(`^${TEST_EMAIL}\tok\t\t\tmail:read,.*cal:write`));
+  });
+
+  it("runs service commands through an alias or the default account", async () => {
+    const aliasHome = makeTempDir();
+    createCliHome(aliasHome, [TEST_EMAIL]);
+    const runIn = (...args: string[]) => runCli(args, { home: aliasHome, rootUrl });
+    try {
+      const missing = await runIn("mail", "search", "in:inbox");
+      assert.equal(missing.code, 4);
+      assert.match(missing.stderr, /no default set/);
+
+      assert.equal((await runIn("accounts", "alias", "me", TEST_EMAIL)).code, 0);
+      const viaAlias = await runIn("me", "mail", "search", "in:inbox");
+      assert.equal(viaAlias.code, 0, viaAlias.stderr);
+      assert.match(viaAlias.stdout, /^t1\t/m);
+
+      assert.equal((await runIn("accounts", "default", "me")).code, 0);
+      const viaDefault = await runIn("mail", "search", "in:inbox");
+      assert.equal(viaDefault.code, 0, viaDefault.stderr);
+      assert.match(viaDefault.stdout, /^t1\t/m);
+
+      const unknown = await runIn("nope", "mail", "search", "x");
+      assert.equal(unknown.code, 3);
+    } finally {
+      removeDir(aliasHome);
+    }
+  });
+
+  it("prints mail search results as TSV", async () => {
+    const result = await run(TEST_EMAIL, "mail", "search", "in:inbox", "--max", "5");
+    assert.equal(result.code, 0, result.stderr);
+    assert.equal(result.stdout, "ID\tDATE\tFROM\tSUBJECT\tLABELS\nt1\t2026-01-05 10:00\talice@example.com\tHello\tINBOX\n");
+    const list = fake.requestsTo("GET", /\/threads$/).at(-1)!;
+    assert.equal(list.query.get("maxResults"), "5");
+  });
+
+  it("searches mail offline after mail sync", async () => {
+    const sync = await run(TEST_EMAIL, "mail", "sync");
+    assert.equal(sync.code, 0, sync.stderr);
+    assert.match(sync.stdout, /1 added, 0 removed, 0 updated; 1 messages cached/);
+
+    const before = fake.requests.length;
+    const search = await run(TEST_EMAIL, "mail", "search", "hello from:alice", "--offline");
+    assert.equal(search.code, 0, search.stderr);
+    assert.equal(search.stdout, "ID\tDATE\tFROM\tSUBJECT\tLABELS\nt1\t2026-01-05 10:00\talice@example.com\tHello\tINBOX\n");
+    const thread = await run(TEST_EMAIL, "mail", "thread", "t1", "--offline");
+    assert.match(thread.stdout, /Hi there/);
+    assert.equal(fake.requests.length, before);
+  });
+
+  it("shows a message's headers and saves its source", async () => {
+    const raw = "Received: from mx.example.com\r\n by gmail\r\nAuthentication-Results: mx.google.com; spf=pass\r\n" +
+      "Message-ID: <abc@example.com>\r\nSubject: Raw\r\n\r\nBody\r\n";
+    fake.addMessage({ id: "r1", threadId: "tr", headers: {}, raw, internalDate: Date.UTC(2026, 0, 6) });
+    const outDir = makeTempDir();
+    try {
+      const summary = await run(TEST_EMAIL, "mail", "message", "r1");
+      assert.equal(summary.code, 0, summary.stderr);
+      assert.match(summary.stdout, /Received by Gmail: 2026-01-06 00:00/);
+      assert.match(summary.stdout, /Message-ID: <abc@example.com>/);
+      assert.match(summary.stdout, /Authentication-Results:\n {2}1\. mx\.google\.com; spf=pass/);
+      assert.match(summary.stdout, /Received \(newest first\):\n {2}1\. from mx\.example\.com by gmail/);
+
+      const headers = await run(TEST_EMAIL, "mail", "message", "r1", "--headers", "--json");
+      assert.deepEqual(JSON.parse(headers.stdout).items.map((h: { name: string }) => h.name), [
+        "Received",
+        "Authentication-Results",
+        "Message-ID",
+        "Subject",
+      ]);
+
+      const source = await run(TEST_EMAIL, "mail", "message", "r1", "--raw", "--save", outDir);
+      assert.equal(source.stdout, raw);
+      assert.equal(fs.readFileSync(path.join(outDir, "r1.eml"), "utf8"), raw);
+
+      // Saving again never overwrites
+      assert.equal((await run(TEST_EMAIL, "mail", "message", "r1", "--save", outDir)).code, 0);
+      assert.ok(fs.existsSync(path.join(outDir, "r1 (1).eml")));
+      const clobber = await run(TEST_EMAIL, "mail", "message", "r1", "--save", path.join(outDir, "r1.eml"));
+      assert.equal(clobber.code, 4);
+      assert.match(clobber.stderr, /already exists/);
+    } finally {
+      removeDir(outDir);
+      fake.messages.delete("r1");
+    }
+  });
+
+  it("prints JSON with --format json placed anywhere", async () => {
+    const result = await run("--format", "json", TEST_EMAIL, "mail", "search", "in:inbox");
+    assert.equal(result.code, 0, result.stderr);
+    const parsed = JSON.parse(result.stdout);
+    assert.equal(parsed.items[0].id, "t1");
+    assert.equal(parsed.items[0].subject, "Hello");
+  });
+
+  it("sends a Markdown body read from stdin as text and HTML", async () => {
+    const result = await runCli(
+      [TEST_EMAIL, "mail", "send", "--to", '"Doe, Jane" <jane@example.com>', "--subject", "Notes",
+        "--body-file", "-", "--markdown"],
+      { home, rootUrl, input: "# Notes\n\nShip **today**\n" }
+    );
+    assert.equal(result.code, 0, result.stderr);
+    const raw = fake.sent.at(-1)!.raw;
+    assert.match(raw, /^To: "Doe, Jane" <jane@example\.com>$/m);
+    assert.match(raw, /^Content-Type: multipart\/alternative; boundary=/m);
+    assert.ok(raw.includes("# Notes\r\n\r\nShip **today**"));
+    assert.ok(raw.includes("<h1>Notes</h1>\r\n<p>Ship <strong>today</strong></p>"));
+  });
+
+  it("imports a filter file into several accounts", async () => {
+    const multiHome = makeTempDir();
+    createCliHome(multiHome, [TEST_EMAIL, "other@example.com"]);
+    const file = path.join(multiHome, "filters.yaml");
+    fs.writeFileSync(file, "filters:\n  - criteria:\n      from: news@example.com\n    action:\n      markRead: true\n");
+    try {
+      const result = await runCli([TEST_EMAIL, "mail", "filters", "import", file, "--accounts", "all", "--dry-run"], {
+        home: multiHome,
+        rootUrl,
+      });
+      assert.equal(result.code, 0, result.stderr);
+      const rows = result.stdout.trimEnd().split("\n").slice(1).map((line) => line.split("\t").slice(0, 5));
+      assert.deepEqual(rows, [
+        [TEST_EMAIL, "1", "preview", "from:news@example.com", "markRead"],
+        ["other@example.com", "1", "preview", "from:news@example.com", "markRead"],
+      ]);
+      assert.equal(fake.requestsTo("POST", /\/settings\/filters$/).length, 0);
+    } finally {
+      removeDir(multiHome);
+    }
+  });
+
+  it("sets the vacation responder on several accounts", async () => {
+    const multiHome = makeTempDir();
+    createCliHome(multiHome, [TEST_EMAIL, "other@example.com"]);
+    try {
+      const result = await runCli([TEST_EMAIL, "mail", "settings", "vacation", "set", "--subject", "Away",
+        "--body", "Back soon", "--start", "2026-12-20", "--end", "2027-01-03", "--accounts", "all"], { home: multiHome, rootUrl });
+      assert.equal(result.code, 0, result.stderr);
+      const rows = result.stdout.trimEnd().split("\n").slice(1).map((line) => line.split("\t"));
+      assert.deepEqual(rows.map((r) => [r[0], r[1], r[2], r[5], r[6]]), [
+        [TEST_EMAIL, "ok", "yes", "Away", "Back soon"],
+        ["other@example.com", "ok", "yes", "Away", "Back soon"],
+      ]);
+      // The end date includes the whole day
+      const { startTime, endTime } = fake.vacation as { startTime: string; endTime: string };
+      assert.equal(Number(endTime) - Number(startTime), 15 * 24 * 60 * 60 * 1000);
+      assert.equal(fake.requestsTo("PUT", /\/settings\/vacation$/).length, 2);
+    } finally {
+      removeDir(multiHome);
+      fake.vacation = { enableAutoReply: false };
+    }
+  });
+
+  it("reports each account when a settings change fails for some", async () => {
+    const multiHome = makeTempDir();
+    createCliHome(multiHome, [TEST_EMAIL, "other@example.com"]);
+    // The second account has not granted mail:settings
+    const accountsFile = path.join(multiHome, ".jgoogle", "accounts.json");
+    const accounts = JSON.parse(fs.readFileSync(accountsFile, "utf8"));
+    accounts[1].scopes = accounts[1].scopes.filter((s: string) => !s.endsWith("gmail.settings.basic"));
+    fs.writeFileSync(accountsFile, JSON.stringify(accounts));
+    try {
+      const result = await runCli([TEST_EMAIL, "mail", "settings", "vacation", "off", "--accounts", "all"], {
+        home: multiHome,
+        rootUrl,
+      });
+      assert.equal(result.code, 5);
+      assert.match(result.stderr, /1 of 2 accounts failed/);
+      const rows = result.stdout.trimEnd().split("\n").slice(1).map((line) => line.split("\t"));
+      assert.deepEqual(rows.map((r) => [r[0], r[1]]), [[TEST_EMAIL, "ok"], ["other@example.com", "failed"]]);
+      assert.match(rows[1][7], /has not granted mail:settings/);
+    } finally {
+      removeDir(multiHome);
+      fake.vacation = { enableAutoReply: false };
+    }
+  });
+
+  it("lists send-as addresses of every account, continuing past one that fails", async () => {
+    const multiHome = makeTempDir();
+    createCliHome(multiHome, [TEST_EMAIL, "other@example.com"]);
+    // Requests for the second account fail
+    const accountsFile = path.join(multiHome, ".jgoogle", "accounts.json");
+    const accounts = JSON.parse(fs.readFileSync(accountsFile, "utf8"));
+    accounts[1].oauth2.accessToken = "other-access";
+    fs.writeFileSync(accountsFile, JSON.stringify(accounts));
+    fake.route("GET", /\/settings\/sendAs$/, (req) =>
+      req.headers.authorization === "Bearer other-access"
+        ? { status: 400, body: { error: { code: 400, message: "Bad request" } } }
+        : undefined
+    );
+    try {
+      const result = await runCli([TEST_EMAIL, "mail", "settings", "sendas", "list", "--accounts", "all"], {
+        home: multiHome,
+        rootUrl,
+      });
+      assert.equal(result.code, 5);
+      assert.match(result.stderr, /1 of 2 accounts failed/);
+      const rows = result.stdout.trimEnd().split("\n").slice(1).map((line) => line.split("\t"));
+      assert.ok(rows.slice(0, -1).every((r) => r[0] === TEST_EMAIL && r[4] !== "failed"));
+      assert.deepEqual([rows.at(-1)![0], rows.at(-1)![4]], ["other@example.com", "failed"]);
+      assert.match(rows.at(-1)![6], /Bad request/);
+    } finally {
+      removeDir(multiHome);
+    }
+  });
+
+  it("queues a send for later and cancels it", async () => {
+    const sentBefore = fake.sent.length;
+    const queued = await run(TEST_EMAIL, "mail", "send", "--to", "bob@example.com", "--subject", "Later",
+      "--body", "Hi", "--at", "2099-01-01T09:00", "--json");
+    assert.equal(queued.code, 0, queued.stderr);
+    const { id } = JSON.parse(queued.stdout);
+    assert.equal(fake.sent.length, sentBefore);
+
+    const list = await run(TEST_EMAIL, "mail", "queue", "list");
+    assert.match(list.stdout, new RegExp(`^${id}\t2099-01-01 \\d\\d:00\tqueued\tbob@example.com\tLater`, "m"));
+    assert.equal((await run(TEST_EMAIL, "mail", "queue", "cancel", id)).code, 0);
+    const ran = await run(TEST_EMAIL, "mail", "queue", "run");
+    assert.equal(ran.code, 0, ran.stderr);
+    assert.equal(fake.sent.length, sentBefore);
+
+    const past = await run(TEST_EMAIL, "mail", "send", "--to", "b@example.com", "--subject", "x", "--body", "x",
+      "--at", "2020-01-01T09:00");
+    assert.equal(past.code, 4);
+  });
+
+  it("previews a bulk unsubscribe with --dry-run", async () => {
+    fake.addMessage({
+      id: "u1",
+      threadId: "ut1",
+      labelIds: ["INBOX"],
+      headers: {
+        From: "Shop <deals@shop.example>",
+        "List-Unsubscribe": "<https://shop.example/u/1>",
+        "List-Unsubscribe-Post": "List-Unsubscribe=One-Click",
+        "Authentication-Results": "mx.google.com; dkim=pass header.i=@shop.example",
+      },
+    });
+    try {
+      const result = await run(TEST_EMAIL, "mail", "unsubscribe", "from:shop.example", "--dry-run", "--archive");
+      assert.equal(result.code, 0, result.stderr);
+      assert.match(result.stdout, /^deals@shop\.example\t\d+\tone-click\tpreview\thttps:\/\/shop\.example\/u\/1$/m);
+      assert.deepEqual(fake.messages.get("u1")!.labelIds, ["INBOX"]);
+      assert.equal((await run(TEST_EMAIL, "mail", "unsubscribe")).code, 4);
+      for (const max of ["abc", "-5", "0"]) {
+        assert.equal((await run(TEST_EMAIL, "mail", "unsubscribe", "x", "--max", max)).code, 4, max);
+      }
+    } finally {
+      fake.messages.delete("u1");
+    }
+  });
+
+  it("keeps the filter file format (--as) apart from the output --format", async () => {
+    fake.filters.push({ id: "f1", criteria: { from: "news@example.com" }, action: { removeLabelIds: ["UNREAD"] } });
+    const dir = makeTempDir();
+    try {
+      const yaml = await run(TEST_EMAIL, "mail", "filters", "export", "--as", "yaml");
+      assert.equal(yaml.code, 0, yaml.stderr);
+      assert.equal(yaml.stdout, "filters:\n  - criteria:\n      from: news@example.com\n    action:\n      markRead: true\n");
+
+      const file = path.join(dir, "f.yaml");
+      const json = await run(TEST_EMAIL, "mail", "filters", "export", "--format", "json", "--as", "json", "--out", file);
+      assert.equal(json.code, 0, json.stderr);
+      assert.deepEqual(JSON.parse(json.stdout), { ok: true, path: file, format: "json" });
+      assert.deepEqual(JSON.parse(fs.readFileSync(file, "utf8")).filters[0].criteria, { from: "news@example.com" });
+
+      assert.equal((await run(TEST_EMAIL, "mail", "filters", "export", "--format", "yaml")).code, 4);
+    } finally {
+      fake.filters.length = 0;
+      removeDir(dir);
+    }
+  });
+
+  it("passes update flags through to the calendar API", async () => {
+    const result = await run(TEST_EMAIL, "cal", "update", "primary", "e1", "--title", "Daily sync", "--location", "Room 2");
+    assert.equal(result.code, 0, result.stderr);
+    assert.equal(result.stdout, "Updated: e1\n");
+    const event = fake.events.get("primary/e1")!;
+    assert.equal(event.summary, "Daily sync");
+    assert.equal(event.location, "Room 2");
+    assert.deepEqual(event.start, { dateTime: "2026-01-05T09:00:00Z" });
+  });
+
+  it("exits with INVALID_INPUT for missing arguments", async () => {
+    const result = await run(TEST_EMAIL, "mail", "search");
+    assert.equal(result.code, 4);
+    assert.match(result.stderr, /Missing search query/);
+  });
+
+  it("exports with --as and validates --max", async () => {
+    const dir = makeTempDir();
+    try {
+      const out = path.join(dir, "eml");
+      const bad = await run(TEST_EMAIL, "mail", "export", "in:inbox", "--out", out, "--max", "abc");
+      assert.equal(bad.code, 4);
+      assert.match(bad.stderr, /--max must be a positive whole number/);
+
+      const result = await run(TEST_EMAIL, "mail", "export", "in:inbox", "--out", out, "--as", "eml", "--json");
+      assert.equal(result.code, 0, result.stderr);
+      assert.equal(JSON.parse(result.stdout).format, "eml");
+      assert.ok(fs.readdirSync(out).includes("m1.eml"));
+    } finally {
+      removeDir(dir);
+    }
+  });
+
+  it("exits with INVALID_INPUT for an unknown output format", async () => {
+    const result = await run(TEST_EMAIL, "mail", "search", "x", "--format", "xml");
+    assert.equal(result.code, 4);
+  });
+
+  it("exits with NOT_FOUND for unknown accounts", async () => {
+    const result = await run("nobody@example.com", "mail", "search", "x");
+    assert.equal(result.code, 3);
+    assert.match(result.stderr, /Account 'nobody@example.com' not found/);
+  });
+
+  it("maps API 404s to NOT_FOUND with a JSON error in json mode", async () => {
+    const result = await run(TEST_EMAIL, "mail", "thread", "missing", "--json");
+    assert.equal(result.code, 3);
+    const { error } = JSON.parse(result.stderr);
+    assert.equal(error.type, "not_found");
+    assert.equal(error.status, 404);
+  });
+});
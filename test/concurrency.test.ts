@@ -0,0 +1,39 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { mapWithConcurrency } from "../src/utils/concurrency.js";
+
+const tick = () => new Promise((resolve) => setImmediate(resolve));
+
+describe("mapWithConcurrency", () => {
+  it("keeps input order and never exceeds the limit", async () => {
+    let active = 0;
+    let peak = 0;
+    const results = await mapWithConcurrency([1, 2, 3, 4, 5, 6, 7], 3, async (n) => {
+      active++;
+      peak = Math.max(peak, active);
+      for (let i = 0; i < 8 - n; i++) await tick();
+      active--;
+      return n * 10;
+    });
+
+    assert.deepEqual(results, [10, 20, 30, 40, 50, 60, 70]);
+    assert.equal(peak, 3);
+  });
+
+  it("stops starting work after a failure", async () => {
+    const started: number[] = [];
+    await assert.rejects(
+      mapWithConcurrency([1, 2, 3, 4, 5], 1, async (n) => {
+        started.push(n);
+        if (n === 2) throw new Error("boom");
+        return n;
+      }),
+      /boom/
+    );
+    assert.deepEqual(started, [1, 2]);
+  });
+
+  it("handles an empty list", async () => {
+    assert.deepEqual(await mapWithConcurrency([], 4, async () => 1), []);
+  });
+});
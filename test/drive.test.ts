@@ -0,0 +1,79 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import * as path from "path";
+import { DriveService } from "../src/services/drive.js";
+import { FakeGoogle } from "./helpers/fake-google.js";
+import { TEST_EMAIL, createTestStorage, removeDir } from "./helpers/accounts.js";
+
+describe("DriveService", () => {
+  let fake: FakeGoogle;
+  let drive: DriveService;
+  let configDir: string;
+
+  before(async () => {
+    fake = new FakeGoogle();
+    const rootUrl = await fake.start();
+    const test = createTestStorage();
+    configDir = test.configDir;
+    drive = new DriveService(test.storage, { rootUrl });
+  });
+
+  after(async () => {
+    await fake.stop();
+    removeDir(configDir);
+  });
+
+  describe("download", () => {
+    it("saves binary files into the downloads dir", async () => {
+      fake.addFile({ id: "f1", name: "notes.txt", mimeType: "text/plain", content: "hello drive" });
+
+      const result = await drive.download(TEST_EMAIL, "f1");
+
+      const expected = path.join(configDir, "downloads", "f1_notes.txt");
+      assert.deepEqual(result, { success: true, path: expected, size: 11 });
+      assert.equal(fs.readFileSync(expected, "utf8"), "hello drive");
+    });
+
+    it("exports Google Docs as PDF, replacing the extension", async () => {
+      fake.addFile({
+        id: "d1",
+        name: "Plan.gdoc",
+        mimeType: "application/vnd.google-apps.document",
+        exports: { "application/pdf": "%PDF-plan" },
+      });
+
+      const result = await drive.download(TEST_EMAIL, "d1");
+
+      assert.equal(result.success, true);
+      assert.equal(result.path, path.join(configDir, "downloads", "d1_Plan.pdf"));
+      assert.equal(fs.readFileSync(result.path!, "utf8"), "%PDF-plan");
+      const [exportReq] = fake.requestsTo("GET", /\/files\/d1\/export$/);
+      assert.equal(exportReq.query.get("mimeType"), "application/pdf");
+    });
+
+    it("exports spreadsheets as CSV to the requested path", async () => {
+      fake.addFile({
+        id: "s1",
+        name: "Budget",
+        mimeType: "application/vnd.google-apps.spreadsheet",
+        exports: { "text/csv": "a,b\n1,2\n" },
+      });
+      const dest = path.join(configDir, "budget.xlsx");
+
+      const result = await drive.download(TEST_EMAIL, "s1", dest);
+
+      assert.equal(result.path, path.join(configDir, "budget.csv"));
+      assert.equal(fs.readFileSync(result.path!, "utf8"), "a,b\n1,2\n");
+    });
+
+    it("reports a failed export without throwing", async () => {
+      fake.addFile({ id: "x1", name: "Slides", mimeType: "application/vnd.google-apps.presentation" });
+
+      const result = await drive.download(TEST_EMAIL, "x1");
+
+      assert.equal(result.success, false);
+      assert.ok(result.error);
+    });
+  });
+});
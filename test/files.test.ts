@@ -0,0 +1,48 @@
+import { after, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import * as path from "path";
+import { globToRegExp, sanitizeFilename, writeNewFile } from "../src/utils/files.js";
+import { makeTempDir, removeDir } from "./helpers/accounts.js";
+
+describe("sanitizeFilename", () => {
+  it("keeps only the last path component", () => {
+    assert.equal(sanitizeFilename("../../etc/passwd"), "passwd");
+    assert.equal(sanitizeFilename("C:\\Users\\x\\report.pdf"), "report.pdf");
+  });
+
+  it("replaces unsafe characters and reserved names", () => {
+    assert.equal(sanitizeFilename('a<b>:c"d|e?f*.txt'), "a_b__c_d_e_f_.txt");
+    assert.equal(sanitizeFilename("line\nbreak.txt"), "line_break.txt");
+    assert.equal(sanitizeFilename("CON.txt"), "_CON.txt");
+    assert.equal(sanitizeFilename(".."), "download");
+    assert.equal(sanitizeFilename("", "attachment"), "attachment");
+  });
+
+  it("shortens long names but keeps the extension", () => {
+    const name = sanitizeFilename(`${"x".repeat(300)}.pdf`);
+    assert.equal(name.length, 200);
+    assert.ok(name.endsWith(".pdf"));
+  });
+});
+
+describe("writeNewFile", () => {
+  const dir = makeTempDir();
+  after(() => removeDir(dir));
+
+  it("never overwrites an existing file", () => {
+    assert.equal(writeNewFile(dir, "a.txt", "1"), path.join(dir, "a.txt"));
+    assert.equal(writeNewFile(dir, "a.txt", "2"), path.join(dir, "a (1).txt"));
+    assert.equal(writeNewFile(dir, "a.txt", "3"), path.join(dir, "a (2).txt"));
+    assert.equal(fs.readFileSync(path.join(dir, "a.txt"), "utf8"), "1");
+  });
+});
+
+describe("globToRegExp", () => {
+  it("matches * and ? case-insensitively and escapes the rest", () => {
+    assert.ok(globToRegExp("*.pdf").test("Invoice.PDF"));
+    assert.ok(globToRegExp("scan-??.jpg").test("scan-01.jpg"));
+    assert.ok(!globToRegExp("*.pdf").test("invoice.pdf.exe"));
+    assert.ok(!globToRegExp("a+b.txt").test("aab.txt"));
+  });
+});
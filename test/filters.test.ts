@@ -0,0 +1,155 @@
+import { after, before, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { GmailService } from "../src/services/gmail.js";
+import { formatFilters, parseFilters, toApiFilter, type FilterSpec } from "../src/utils/filters.js";
+import { FakeGoogle } from "./helpers/fake-google.js";
+import { TEST_EMAIL, createTestStorage, removeDir } from "./helpers/accounts.js";
+
+const GMAIL_EXPORT = `<?xml version='1.0' encoding='UTF-8'?><feed xmlns='http://www.w3.org/2005/Atom' xmlns:apps='http://schemas.google.com/apps/2006'>
+<title>Mail Filters</title>
+<entry>
+  <category term='filter'></category>
+  <title>Mail Filter</title>
+  <id>tag:mail.google.com,2008:filter:1</id>
+  <content></content>
+  <apps:property name='from' value='billing@vendor.com'/>
+  <apps:property name='hasTheWord' value='invoice OR receipt'/>
+  <apps:property name='label' value='Finance/Invoices'/>
+  <apps:property name='shouldArchive' value='true'/>
+  <apps:property name='sizeOperator' value='s_sl'/>
+  <apps:property name='sizeUnit' value='s_smb'/>
+  <apps:property name='size' value='2'/>
+</entry>
+<entry>
+  <category term='filter'></category>
+  <apps:property name='subject' value='&quot;Weekly&quot; &amp; more'/>
+  <apps:property name='smartLabelToApply' value='^smartlabel_promo'/>
+  <apps:property name='shouldNeverSpam' value='true'/>
+</entry>
+</feed>`;
+
+const INVOICES: FilterSpec = {
+  criteria: { from: "billing@vendor.com", query: "invoice OR receipt", larger: 2 * 1024 * 1024 },
+  action: { addLabels: ["Finance/Invoices"], archive: true },
+};
+
+describe("filter formats", () => {
+  it("reads Gmail's XML export", () => {
+    assert.deepEqual(parseFilters(GMAIL_EXPORT, "xml"), [
+      INVOICES,
+      { criteria: { subject: '"Weekly" & more' }, action: { addLabels: ["CATEGORY_PROMOTIONS"], neverSpam: true } },
+    ]);
+  });
+
+  it("round-trips through JSON, YAML and XML", () => {
+    const filters: FilterSpec[] = [
+      INVOICES,
+      { criteria: { to: "me+news@example.com", excludeChats: true }, action: { star: true, forward: "a@example.com" } },
+    ];
+    for (const format of ["json", "yaml", "xml"] as const) {
+      assert.deepEqual(parseFilters(formatFilters(filters, format), format), filters, format);
+    }
+  });
+
+  it("leaves filter IDs out of exported files", () => {
+    const text = formatFilters([{ id: "ANe1Bmj", ...INVOICES }], "yaml");
+    assert.ok(!text.includes("ANe1Bmj"));
+    assert.match(text, /^      addLabels:\n        - Finance\/Invoices$/m);
+  });
+
+  it("rejects unknown fields and label removal in XML", () => {
+    assert.throws(
+      () => parseFilters('[{"criteria": {"form": "x"}, "action": {"star": true}}]', "json"),
+      /Filter 1: unknown criteria field "form"/
+    );
+    assert.throws(
+      () => parseFilters("filters:\n  - criteria:\n      from: x\n    action: {}\n", "yaml"),
+      /Filter 1: action must have at least one field/
+    );
+    assert.throws(
+      () => formatFilters([{ criteria: { from: "x" }, action: { removeLabels: ["Work"] } }], "xml"),
+      /cannot remove labels/
+    );
+  });
+
+  it("maps flags to system labels for the API", () => {
+    const filter = toApiFilter(
+      { criteria: { from: "x", smaller: 1000 }, action: { addLabels: ["Work"], markRead: true, star: true } },
+      (name) => `id-${name}`
+    );
+    assert.deepEqual(filter, {
+      criteria: { from: "x", size: 1000, sizeComparison: "smaller" },
+      action: { addLabelIds: ["id-Work", "STARRED"], removeLabelIds: ["UNREAD"] },
+    });
+  });
+});
+
+describe("GmailService filters", () => {
+  let fake: FakeGoogle;
+  let gmail: GmailService;
+  let configDir: string;
+
+  before(async () => {
+    fake = new FakeGoogle();
+    const rootUrl = await fake.start();
+    const test = createTestStorage();
+    configDir = test.configDir;
+    gmail = new GmailService(test.storage, { rootUrl });
+  });
+
+  after(async () => {
+    await fake.stop();
+    removeDir(configDir);
+  });
+
+  beforeEach(() => {
+    fake.requests.length = 0;
+    fake.filters.length = 0;
+    fake.labels.splice(3);
+  });
+
+  it("lists filters with label names instead of IDs", async () => {
+    fake.labels.push({ id: "Label_7", name: "Finance/Invoices", type: "user" });
+    fake.filters.push({
+      id: "f1",
+      criteria: { from: "billing@vendor.com", query: "invoice OR receipt", size: 2097152, sizeComparison: "larger" },
+      action: { addLabelIds: ["Label_7"], removeLabelIds: ["INBOX"] },
+    });
+
+    assert.deepEqual(await gmail.listFilters(TEST_EMAIL), [{ id: "f1", ...INVOICES }]);
+  });
+
+  it("imports missing filters, creating their labels, and skips existing ones", async () => {
+    const other: FilterSpec = { criteria: { from: "news@example.com" }, action: { markRead: true } };
+
+    const first = await gmail.importFilters(TEST_EMAIL, [INVOICES, other]);
+
+    assert.deepEqual(first.map((r) => [r.status, r.newLabels]), [["created", ["Finance/Invoices"]], ["created", []]]);
+    assert.deepEqual(fake.labels.slice(3).map((l) => l.name), ["Finance", "Finance/Invoices"]);
+    const invoices = fake.labels[4].id;
+    assert.deepEqual(fake.filters[0].action, { addLabelIds: [invoices], removeLabelIds: ["INBOX"] });
+    // Created labels are added to the first list instead of listing again
+    assert.equal(fake.requestsTo("GET", /\/labels$/).length, 1);
+
+    const second = await gmail.importFilters(TEST_EMAIL, [INVOICES, other]);
+
+    assert.deepEqual(second.map((r) => r.status), ["exists", "exists"]);
+    assert.equal(fake.filters.length, 2);
+  });
+
+  it("changes nothing on a dry run", async () => {
+    const results = await gmail.importFilters(TEST_EMAIL, [INVOICES], { dryRun: true });
+
+    assert.deepEqual(results.map((r) => [r.status, r.newLabels]), [["preview", ["Finance/Invoices"]]]);
+    assert.equal(fake.filters.length, 0);
+    assert.equal(fake.labels.length, 3);
+  });
+
+  it("requires existing labels when creating a single filter unless asked to create them", async () => {
+    await assert.rejects(gmail.createFilter(TEST_EMAIL, INVOICES), /Unknown label: Finance\/Invoices/);
+
+    const id = await gmail.createFilter(TEST_EMAIL, INVOICES, { createLabels: true });
+
+    assert.equal(fake.filters[0].id, id);
+  });
+});
@@ -0,0 +1,562 @@
+import { after, before, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import * as path from "path";
+import { GmailService } from "../src/services/gmail.js";
+import { CliError, ExitCode } from "../src/utils/errors.js";
+import { FakeGoogle } from "./helpers/fake-google.js";
+import { TEST_EMAIL, createTestStorage, removeDir } from "./helpers/accounts.js";
+
+describe("GmailService", () => {
+  let fake: FakeGoogle;
+  let gmail: GmailService;
+  let configDir: string;
+
+  before(async () => {
+    fake = new FakeGoogle();
+    const rootUrl = await fake.start();
+    const test = createTestStorage();
+    configDir = test.configDir;
+    gmail = new GmailService(test.storage, { rootUrl });
+  });
+
+  after(async () => {
+    await fake.stop();
+    removeDir(configDir);
+  });
+
+  beforeEach(() => {
+    fake.messages.clear();
+    fake.requests.length = 0;
+    fake.sent.length = 0;
+    fake.drafts.clear();
+    fake.draftWrites.length = 0;
+    fake.labels.splice(3);  // Keep the seeded system labels
+  });
+
+  describe("searchThreads", () => {
+    it("summarizes each thread from its first message", async () => {
+      fake.addMessage({
+        id: "m1",
+        threadId: "t1",
+        labelIds: ["INBOX", "UNREAD"],
+        headers: { Date: "Mon, 5 Jan 2026 10:00:00 +0000", From: "Alice <alice@example.com>", Subject: "Hello" },
+        body: "first",
+      });
+      fake.addMessage({
+        id: "m2",
+        threadId: "t1",
+        headers: { Date: "Mon, 5 Jan 2026 11:00:00 +0000", From: "me@example.com", Subject: "Re: Hello" },
+        body: "reply",
+      });
+      fake.addMessage({
+        id: "m3",
+        threadId: "t2",
+        headers: { Date: "Tue, 6 Jan 2026 09:00:00 +0000", From: "bob@example.com", Subject: "Lunch" },
+        body: "?",
+      });
+
+      const result = await gmail.searchThreads(TEST_EMAIL, "in:inbox", 10);
+
+      assert.deepEqual(result.threads, [
+        { id: "t1", date: "Mon, 5 Jan 2026 10:00:00 +0000", from: "Alice <alice@example.com>", subject: "Hello", labels: ["INBOX", "UNREAD"] },
+        { id: "t2", date: "Tue, 6 Jan 2026 09:00:00 +0000", from: "bob@example.com", subject: "Lunch", labels: [] },
+      ]);
+      assert.equal(result.nextPageToken, undefined);
+      const [list] = fake.requestsTo("GET", /\/threads$/);
+      assert.equal(list.query.get("q"), "in:inbox");
+    });
+
+    it("fetches only the summary headers of each thread", async () => {
+      fake.addMessage({ id: "m1", threadId: "t1", headers: { Subject: "A", To: "x@example.com" }, body: "long body" });
+      fake.addMessage({ id: "m2", threadId: "t2", headers: { Subject: "B" }, body: "long body" });
+
+      await gmail.searchThreads(TEST_EMAIL, "", 10);
+
+      const gets = fake.requestsTo("GET", /\/threads\/[^/]+$/);
+      assert.equal(gets.length, 2);
+      for (const get of gets) {
+        assert.equal(get.query.get("format"), "metadata");
+        assert.deepEqual(get.query.getAll("metadataHeaders"), ["Date", "From", "Subject"]);
+      }
+    });
+
+    it("passes through the next page token", async () => {
+      for (let i = 1; i <= 3; i++) {
+        fake.addMessage({ id: `m${i}`, threadId: `t${i}`, headers: { Subject: `S${i}` } });
+      }
+
+      const first = await gmail.searchThreads(TEST_EMAIL, "", 2);
+      assert.deepEqual(first.threads.map((t) => t.id), ["t1", "t2"]);
+      assert.equal(first.nextPageToken, "2");
+
+      const second = await gmail.searchThreads(TEST_EMAIL, "", 2, first.nextPageToken);
+      assert.deepEqual(second.threads.map((t) => t.id), ["t3"]);
+      assert.equal(second.nextPageToken, undefined);
+    });
+  });
+
+  describe("getThread", () => {
+    it("renders HTML-only messages as text and keeps the HTML", async () => {
+      fake.addMessage({
+        id: "m1",
+        threadId: "t1",
+        headers: { From: "news@example.com", Subject: "News" },
+        parts: [
+          {
+            mimeType: "multipart/alternative",
+            parts: [{ mimeType: "text/html", data: "<p>Big</p><p>news</p>" }],
+          },
+          { mimeType: "text/csv", filename: "list.csv", attachmentId: "a1", data: "x" },
+        ],
+      });
+
+      const thread = await gmail.getThread(TEST_EMAIL, "t1");
+
+      const [message] = thread.messages;
+      assert.equal(message.body, "Big\n\nnews");
+      assert.equal(message.html, "<p>Big</p><p>news</p>");
+      assert.deepEqual(message.attachments.map((a) => a.filename), ["list.csv"]);
+    });
+  });
+
+  describe("modifyLabels", () => {
+    it("resolves label names and changes every message in one batchModify", async () => {
+      fake.labels.push({ id: "Label_9", name: "Clients/Acme", type: "user" });
+      fake.addMessage({ id: "m1", threadId: "t1", labelIds: ["INBOX", "UNREAD"], headers: {} });
+      fake.addMessage({ id: "m2", threadId: "t1", labelIds: ["UNREAD"], headers: {} });
+      fake.addMessage({ id: "m3", threadId: "t2", labelIds: ["INBOX"], headers: {} });
+
+      await gmail.modifyLabels(TEST_EMAIL, ["t1", "t2"], ["clients/acme", "STARRED"], ["Unread"]);
+
+      const batches = fake.requestsTo("POST", /\/messages\/batchModify$/);
+      assert.equal(batches.length, 1);
+      assert.deepEqual(batches[0].body, {
+        ids: ["m1", "m2", "m3"],
+        addLabelIds: ["Label_9", "STARRED"],
+        removeLabelIds: ["UNREAD"],
+      });
+      assert.deepEqual(fake.messages.get("m2")!.labelIds, ["Label_9", "STARRED"]);
+      assert.equal(fake.requestsTo("POST", /\/threads\/[^/]+\/modify$/).length, 0);
+      assert.equal(fake.requestsTo("GET", /\/labels$/).length, 1);
+    });
+
+    it("rejects unknown labels before changing anything", async () => {
+      fake.addMessage({ id: "m1", threadId: "t1", headers: {} });
+
+      await assert.rejects(gmail.modifyLabels(TEST_EMAIL, ["t1"], ["Nope"]), /Unknown label: Nope/);
+      assert.equal(fake.requestsTo("POST", /\/messages\/batchModify$/).length, 0);
+    });
+  });
+
+  describe("label management", () => {
+    it("creates missing parents of a nested label", async () => {
+      fake.labels.push({ id: "Label_1", name: "Clients", type: "user" });
+
+      const label = await gmail.createLabel(TEST_EMAIL, "Clients/Acme/2026", { background: "#4a86e8", text: "#ffffff" });
+
+      assert.equal(label.name, "Clients/Acme/2026");
+      const created = fake.requestsTo("POST", /\/labels$/).map((r) => r.body as { name: string; color?: unknown });
+      assert.deepEqual(created.map((b) => b.name), ["Clients/Acme", "Clients/Acme/2026"]);
+      assert.equal(created[0].color, undefined);
+      assert.deepEqual(created[1].color, { backgroundColor: "#4a86e8", textColor: "#ffffff" });
+    });
+
+    it("refuses to create a label that exists", async () => {
+      fake.labels.push({ id: "Label_1", name: "Clients", type: "user" });
+
+      await assert.rejects(gmail.createLabel(TEST_EMAIL, "clients"), /Label already exists: Clients/);
+    });
+
+    it("renames a label together with its nested labels", async () => {
+      fake.labels.push(
+        { id: "Label_1", name: "Clients", type: "user" },
+        { id: "Label_2", name: "Clients/Acme", type: "user" },
+        { id: "Label_3", name: "ClientsOld", type: "user" }
+      );
+
+      const renamed = await gmail.renameLabel(TEST_EMAIL, "Clients", "Customers");
+
+      assert.deepEqual(renamed.map((l) => l.name), ["Customers", "Customers/Acme"]);
+      assert.deepEqual(fake.labels.map((l) => l.name).slice(3), ["Customers", "Customers/Acme", "ClientsOld"]);
+    });
+
+    it("deletes and colors user labels but not system labels", async () => {
+      fake.labels.push({ id: "Label_1", name: "Old", type: "user" }, { id: "Label_2", name: "Keep", type: "user" });
+
+      await gmail.deleteLabel(TEST_EMAIL, "old");
+      await gmail.setLabelColor(TEST_EMAIL, "Label_2", { background: "#000000", text: "#ffffff" });
+
+      assert.deepEqual(fake.labels.map((l) => l.id).slice(3), ["Label_2"]);
+      assert.deepEqual(fake.labels[3].color, { backgroundColor: "#000000", textColor: "#ffffff" });
+      await assert.rejects(gmail.deleteLabel(TEST_EMAIL, "INBOX"), /INBOX is a system label/);
+    });
+  });
+
+  describe("sendMessage", () => {
+    it("sends a plain text message", async () => {
+      await gmail.sendMessage(TEST_EMAIL, ["a@example.com", "b@example.com"], "Hi", "Body text", {
+        cc: ["c@example.com"],
+      });
+
+      assert.equal(fake.sent.length, 1);
+      const raw = fake.sent[0].raw;
+      const [headers, body] = raw.split("\r\n\r\n");
+      assert.match(headers, /^From: me@example\.com$/m);
+      assert.match(headers, /^To: a@example\.com, b@example\.com$/m);
+      assert.match(headers, /^Cc: c@example\.com$/m);
+      assert.match(headers, /^Subject: Hi$/m);
+      assert.match(headers, /^Content-Type: text\/plain; charset=UTF-8$/m);
+      assert.equal(body, "Body text");
+    });
+
+    it("builds multipart/mixed with base64 attachments", async () => {
+      const file = path.join(configDir, "report.pdf");
+      fs.writeFileSync(file, "%PDF-fake");
+
+      await gmail.sendMessage(TEST_EMAIL, ["a@example.com"], "Report", "See attached", {
+        attachments: [file],
+      });
+
+      const raw = fake.sent[0].raw;
+      const boundary = /boundary="([^"]+)"/.exec(raw)?.[1];
+      assert.ok(boundary);
+      assert.match(raw, /^Content-Type: multipart\/mixed; boundary=/m);
+      assert.ok(raw.includes(`--${boundary}\r\nContent-Type: text/plain; charset=UTF-8\r\n\r\nSee attached`));
+      assert.match(raw, /Content-Type: application\/pdf\r\nContent-Transfer-Encoding: base64\r\nContent-Disposition: attachment; filename="report.pdf"/);
+      assert.ok(raw.includes(Buffer.from("%PDF-fake").toString("base64")));
+      assert.ok(raw.trimEnd().endsWith(`--${boundary}--`));
+    });
+
+    it("threads replies using the original Message-ID", async () => {
+      fake.addMessage({
+        id: "orig",
+        threadId: "t9",
+        headers: { "Message-ID": "<orig@mail>", References: "<root@mail>", Subject: "Question" },
+      });
+
+      await gmail.sendMessage(TEST_EMAIL, ["a@example.com"], "Re: Question", "Answer", {
+        replyToMessageId: "orig",
+      });
+
+      const raw = fake.sent[0].raw;
+      assert.match(raw, /^In-Reply-To: <orig@mail>$/m);
+      assert.match(raw, /^References: <root@mail> <orig@mail>$/m);
+      assert.equal(fake.sent[0].threadId, "t9");
+    });
+  });
+
+  describe("downloadAttachments", () => {
+    const addMailWithAttachments = () => {
+      fake.addMessage({
+        id: "m1",
+        threadId: "t1",
+        headers: { Subject: "Invoices" },
+        parts: [
+          { mimeType: "text/plain", data: "see attached" },
+          { mimeType: "application/pdf", filename: "invoice.pdf", attachmentId: "a1", data: "%PDF-1" },
+          {
+            mimeType: "multipart/mixed",
+            parts: [{ mimeType: "image/png", filename: "../../evil.png", attachmentId: "a2", data: "PNG" }],
+          },
+        ],
+      });
+      fake.addMessage({
+        id: "m2",
+        threadId: "t1",
+        headers: { Subject: "Re: Invoices" },
+        parts: [{ mimeType: "application/pdf", filename: "invoice.pdf", attachmentId: "a3", data: "%PDF-2" }],
+      });
+    };
+
+    it("saves every attachment in a thread with safe, unique names", async () => {
+      addMailWithAttachments();
+      const outDir = path.join(configDir, "out-thread");
+
+      const saved = await gmail.downloadAttachments(TEST_EMAIL, "t1", { outDir });
+
+      assert.deepEqual(saved.map((a) => [a.messageId, a.filename, path.basename(a.path)]), [
+        ["m1", "invoice.pdf", "invoice.pdf"],
+        ["m1", "../../evil.png", "evil.png"],
+        ["m2", "invoice.pdf", "invoice (1).pdf"],
+      ]);
+      assert.ok(saved.every((a) => path.dirname(a.path) === outDir));
+      assert.equal(fs.readFileSync(path.join(outDir, "invoice (1).pdf"), "utf8"), "%PDF-2");
+    });
+
+    it("accepts a message ID and filters by glob", async () => {
+      addMailWithAttachments();
+      const outDir = path.join(configDir, "out-message");
+
+      const saved = await gmail.downloadAttachments(TEST_EMAIL, "m2", { outDir, match: "*.PDF" });
+
+      assert.deepEqual(saved.map((a) => a.path), [path.join(outDir, "invoice.pdf")]);
+      assert.equal(saved[0].size, 6);
+    });
+
+    it("defaults to the downloads directory", async () => {
+      addMailWithAttachments();
+
+      const saved = await gmail.downloadAttachments(TEST_EMAIL, "t1", { match: "*.png" });
+
+      assert.equal(saved[0].path, path.join(configDir, "downloads", "evil.png"));
+    });
+  });
+
+  describe("drafts", () => {
+    it("creates drafts with bcc, attachments and reply threading", async () => {
+      fake.addMessage({ id: "orig", threadId: "t5", headers: { "Message-ID": "<orig@mail>" } });
+      const file = path.join(configDir, "notes.txt");
+      fs.writeFileSync(file, "notes");
+
+      const draftId = await gmail.createDraft(TEST_EMAIL, ["a@example.com"], "Re: Plan", "Draft body", {
+        bcc: ["boss@example.com"],
+        attachments: [file],
+        replyToMessageId: "orig",
+      });
+
+      assert.equal(draftId, fake.draftWrites[0].draftId);
+      const { raw, threadId } = fake.draftWrites[0];
+      assert.equal(threadId, "t5");
+      assert.match(raw, /^Bcc: boss@example\.com$/m);
+      assert.match(raw, /^In-Reply-To: <orig@mail>$/m);
+      assert.match(raw, /Content-Disposition: attachment; filename="notes.txt"/);
+    });
+
+    it("updates only the given fields and keeps existing attachments", async () => {
+      fake.addDraft("d1", {
+        id: "dm1",
+        threadId: "t7",
+        headers: {
+          From: "me@example.com",
+          To: "Doe, Jane <jane@example.com>",
+          Subject: "Plan",
+          "In-Reply-To": "<prev@mail>",
+          References: "<prev@mail>",
+        },
+        parts: [
+          { mimeType: "text/plain", data: "Old body" },
+          { mimeType: "application/pdf", filename: "plan.pdf", attachmentId: "pa1", data: "%PDF-plan" },
+        ],
+      });
+
+      await gmail.updateDraft(TEST_EMAIL, "d1", { body: "New body" });
+
+      const { draftId, raw, threadId } = fake.draftWrites[0];
+      assert.equal(draftId, "d1");
+      assert.equal(threadId, "t7");
+      assert.match(raw, /^To: Doe, Jane <jane@example\.com>$/m);
+      assert.match(raw, /^Subject: Plan$/m);
+      assert.match(raw, /^References: <prev@mail>$/m);
+      assert.ok(raw.includes("\r\n\r\nNew body"));
+      assert.ok(raw.includes(Buffer.from("%PDF-plan").toString("base64")));
+    });
+
+    it("shows a draft as a message", async () => {
+      fake.addDraft("d2", {
+        id: "dm2",
+        threadId: "t8",
+        headers: { To: "a@example.com", Bcc: "b@example.com", Subject: "Review me" },
+        body: "Hello",
+      });
+
+      const draft = await gmail.showDraft(TEST_EMAIL, "d2");
+
+      assert.equal(draft.id, "d2");
+      assert.equal(draft.message.subject, "Review me");
+      assert.equal(draft.message.bcc, "b@example.com");
+      assert.equal(draft.message.body, "Hello");
+    });
+  });
+
+  describe("reply and forward", () => {
+    const addOriginal = () => {
+      fake.addMessage({
+        id: "o1",
+        threadId: "t3",
+        headers: {
+          "Message-ID": "<o1@mail>",
+          Date: "Wed, 7 Jan 2026 08:00:00 +0000",
+          From: "Alice <alice@example.com>",
+          To: "Me <ME@example.com>, \"Doe, Bob\" <bob@example.com>",
+          Cc: "carol@example.com, alice@example.com",
+          Subject: "Budget",
+        },
+        parts: [
+          { mimeType: "text/plain", data: "Numbers attached.\nThanks" },
+          { mimeType: "application/pdf", filename: "budget.pdf", attachmentId: "b1", data: "%PDF-budget" },
+        ],
+      });
+    };
+
+    it("replies to the sender with a quoted original in the same thread", async () => {
+      addOriginal();
+
+      await gmail.reply(TEST_EMAIL, "o1", "Looks good");
+
+      const { raw, threadId } = fake.sent[0];
+      assert.equal(threadId, "t3");
+      assert.match(raw, /^To: Alice <alice@example\.com>$/m);
+      assert.doesNotMatch(raw, /^Cc:/m);
+      assert.match(raw, /^Subject: Re: Budget$/m);
+      assert.match(raw, /^In-Reply-To: <o1@mail>$/m);
+      assert.ok(raw.includes("Looks good\r\n\r\nOn Wed, 7 Jan 2026 08:00:00 +0000, Alice <alice@example.com> wrote:\r\n> Numbers attached.\r\n> Thanks"));
+    });
+
+    it("replies to all recipients except ourselves", async () => {
+      addOriginal();
+
+      await gmail.reply(TEST_EMAIL, "o1", "Thanks all", { all: true });
+
+      const raw = fake.sent[0].raw;
+      assert.match(raw, /^To: Alice <alice@example\.com>$/m);
+      assert.match(raw, /^Cc: "Doe, Bob" <bob@example\.com>, carol@example\.com$/m);
+    });
+
+    it("leaves our send-as aliases out of reply-all", async () => {
+      fake.sendAs.push({ sendAsEmail: "support@example.com", verificationStatus: "accepted" });
+      fake.addMessage({
+        id: "o3",
+        threadId: "t5",
+        headers: { From: "alice@example.com", To: "Support <support@example.com>", Cc: "bob@example.com", Subject: "Help" },
+        body: "x",
+      });
+      try {
+        await gmail.reply(TEST_EMAIL, "o3", "On it", { all: true });
+      } finally {
+        fake.sendAs.length = 1;
+      }
+
+      const raw = fake.sent[0].raw;
+      assert.match(raw, /^To: alice@example\.com$/m);
+      assert.match(raw, /^Cc: bob@example\.com$/m);
+    });
+
+    it("keeps an existing Re: prefix and can save a draft instead", async () => {
+      fake.addMessage({ id: "o2", threadId: "t4", headers: { From: "a@example.com", Subject: "RE: Budget" }, body: "x" });
+
+      const draftId = await gmail.reply(TEST_EMAIL, "o2", "ok", { draft: true });
+
+      assert.equal(fake.sent.length, 0);
+      assert.equal(fake.draftWrites[0].draftId, draftId);
+      assert.match(fake.draftWrites[0].raw, /^Subject: RE: Budget$/m);
+    });
+
+    it("forwards with the original attachments", async () => {
+      addOriginal();
+
+      await gmail.forward(TEST_EMAIL, "o1", ["dave@example.com"], "FYI");
+
+      const { raw, threadId } = fake.sent[0];
+      assert.equal(threadId, undefined);
+      assert.match(raw, /^To: dave@example\.com$/m);
+      assert.match(raw, /^Subject: Fwd: Budget$/m);
+      assert.ok(raw.includes("FYI\r\n\r\n---------- Forwarded message ---------\r\nFrom: Alice <alice@example.com>"));
+      assert.match(raw, /filename="budget\.pdf"/);
+      assert.ok(raw.includes(Buffer.from("%PDF-budget").toString("base64")));
+    });
+    it("forwards the HTML version with its inline images", async () => {
+      fake.addMessage({
+        id: "o4",
+        threadId: "t6",
+        headers: { From: "alice@example.com", To: "me@example.com", Subject: "Logo" },
+        parts: [
+          {
+            mimeType: "multipart/related",
+            parts: [
+              { mimeType: "text/html", data: '<p>New <img src="cid:logo@x"></p>' },
+              { mimeType: "image/png", filename: "logo.png", headers: { "Content-ID": "<logo@x>" }, attachmentId: "i1", data: "PNGDATA" },
+            ],
+          },
+        ],
+      });
+
+      await gmail.forward(TEST_EMAIL, "o4", ["dave@example.com"], "See <this>");
+
+      const raw = fake.sent[0].raw;
+      assert.match(raw, /^Content-Type: text\/html/m);
+      assert.ok(raw.includes("<p>See &lt;this&gt;</p>"));
+      assert.ok(raw.includes('<p>New <img src="cid:logo@x"></p>'));
+      assert.match(raw, /^Content-ID: <logo@x>$/m);
+      assert.ok(raw.includes(Buffer.from("PNGDATA").toString("base64")));
+    });
+  });
+
+  describe("send-as aliases", () => {
+    it("sends from a verified alias", async () => {
+      fake.sendAs.push({ sendAsEmail: "support@example.com", verificationStatus: "accepted" });
+      try {
+        await gmail.sendMessage(TEST_EMAIL, ["a@example.com"], "Hi", "Hello", { from: "Support <support@example.com>" });
+        assert.match(fake.sent[0].raw, /^From: Support <support@example\.com>$/m);
+      } finally {
+        fake.sendAs.length = 1;
+      }
+    });
+
+    it("refuses an address that is not a verified alias", async () => {
+      fake.sendAs.push({ sendAsEmail: "pending@example.com", verificationStatus: "pending" });
+      try {
+        await assert.rejects(
+          gmail.sendMessage(TEST_EMAIL, ["a@example.com"], "Hi", "Hello", { from: "pending@example.com" }),
+          (e: unknown) => e instanceof CliError && e.exitCode === ExitCode.INVALID_INPUT && /Available: me@example\.com$/.test(e.message)
+        );
+        assert.equal(fake.sent.length, 0);
+      } finally {
+        fake.sendAs.length = 1;
+      }
+    });
+  });
+
+  describe("settings", () => {
+    it("reads and updates the signature of the default or a named send-as address", async () => {
+      fake.sendAs.push({ sendAsEmail: "support@example.com", displayName: "Support", verificationStatus: "accepted" });
+      try {
+        assert.equal((await gmail.getSignature(TEST_EMAIL)).email, "me@example.com");
+
+        const updated = await gmail.setSignature(TEST_EMAIL, "<b>Support team</b>", "Support <support@example.com>");
+
+        assert.equal(updated.signature, "<b>Support team</b>");
+        assert.deepEqual(fake.requestsTo("PATCH", /\/settings\/sendAs\//).map((r) => r.path.split("/").pop()), [
+          "support%40example.com",
+        ]);
+        await assert.rejects(
+          gmail.getSignature(TEST_EMAIL, "nobody@example.com"),
+          (e: unknown) => e instanceof CliError && e.exitCode === ExitCode.NOT_FOUND && /Available: me@example\.com, support/.test(e.message)
+        );
+      } finally {
+        fake.sendAs.length = 1;
+      }
+    });
+
+    it("sets the vacation responder and turns it off keeping the message", async () => {
+      const set = await gmail.setVacation(TEST_EMAIL, {
+        enabled: true,
+        subject: "Away",
+        text: "Back on Monday",
+        start: "2026-12-20T00:00:00.000Z",
+        end: "2027-01-04T00:00:00.000Z",
+        contactsOnly: true,
+        domainOnly: false,
+      });
+
+      assert.equal(fake.vacation.startTime, String(Date.UTC(2026, 11, 20)));
+      assert.equal(set.end, "2027-01-04T00:00:00.000Z");
+
+      const off = await gmail.disableVacation(TEST_EMAIL);
+
+      assert.deepEqual(off, { ...set, enabled: false });
+    });
+
+    it("rejects a vacation responder without a message or with the end before the start", async () => {
+      const base = { enabled: true, contactsOnly: false, domainOnly: false };
+      const invalid = (e: unknown) => e instanceof CliError && e.exitCode === ExitCode.INVALID_INPUT;
+
+      await assert.rejects(gmail.setVacation(TEST_EMAIL, { ...base, subject: "Away" }), invalid);
+      await assert.rejects(
+        gmail.setVacation(TEST_EMAIL, { ...base, text: "x", start: "2026-02-01T00:00:00Z", end: "2026-01-01T00:00:00Z" }),
+        invalid
+      );
+      assert.equal(fake.requestsTo("PUT", /\/settings\/vacation$/).length, 0);
+    });
+  });
+});
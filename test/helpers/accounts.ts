@@ -0,0 +1,43 @@
+// ABOUTME: Test helpers for temporary account storage
+// ABOUTME: Creates throwaway config dirs holding a ready-to-use test account
+
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { AccountStorage, type EmailAccount } from "../../src/account-storage.js";
+import { SCOPES, toScopeUrls, type ScopeName } from "../../src/scopes.js";
+
+export const TEST_EMAIL = "me@example.com";
+
+// Grants every scope unless a narrower list is given
+export function testAccount(email = TEST_EMAIL, scopes = Object.keys(SCOPES) as ScopeName[]): EmailAccount {
+  return {
+    email,
+    scopes: toScopeUrls(scopes),
+    oauth2: {
+      clientId: "test-client",
+      clientSecret: "test-secret",
+      refreshToken: "test-refresh",
+      accessToken: "test-access",
+    },
+  };
+}
+
+export function makeTempDir(prefix = "jgoogle-test-"): string {
+  return fs.mkdtempSync(path.join(os.tmpdir(), prefix));
+}
+
+// Fresh AccountStorage in a temp config dir with one account added
+export function createTestStorage(email = TEST_EMAIL): { storage: AccountStorage; configDir: string } {
+  const configDir = makeTempDir();
+  const storage = new AccountStorage({
+    configDir,
+    credentials: { clientId: "test-client", clientSecret: "test-secret" },
+  });
+  storage.addAccount(testAccount(email));
+  return { storage, configDir };
+}
+
+export function removeDir(dir: string): void {
+  fs.rmSync(dir, { recursive: true, force: true });
+}
@@ -0,0 +1,53 @@
+// ABOUTME: Runs the jgoogle CLI as a child process for end-to-end tests
+// ABOUTME: Points HOME at a temp dir and the API root at the fake server
+
+import { execFile } from "child_process";
+import * as fs from "fs";
+import * as path from "path";
+import { fileURLToPath } from "url";
+import { testAccount } from "./accounts.js";
+
+const CLI = path.resolve(path.dirname(fileURLToPath(import.meta.url)), "../../src/cli.ts");
+
+export interface CliResult {
+  code: number;
+  stdout: string;
+  stderr: string;
+}
+
+// Create a HOME dir whose ~/.jgoogle holds the given test accounts
+export function createCliHome(home: string, emails: string[]): void {
+  const configDir = path.join(home, ".jgoogle");
+  fs.mkdirSync(configDir, { recursive: true });
+  fs.writeFileSync(path.join(configDir, "README.md"), "");
+  fs.writeFileSync(
+    path.join(configDir, "accounts.json"),
+    JSON.stringify(emails.map((email) => testAccount(email)), null, 2)
+  );
+}
+
+export function runCli(
+  args: string[],
+  options: { home: string; rootUrl?: string; env?: Record<string, string>; input?: string }
+): Promise<CliResult> {
+  return new Promise((resolve) => {
+    const child = execFile(
+      process.execPath,
+      ["--import", "tsx", CLI, ...args],
+      {
+        env: {
+          PATH: process.env.PATH,
+          HOME: options.home,
+          JGOOGLE_API_ROOT_URL: options.rootUrl || "http://127.0.0.1:9/",
+          ...options.env,
+        },
+        timeout: 30_000,
+      },
+      (error, stdout, stderr) => {
+        const code = error ? (typeof error.code === "number" ? error.code : 1) : 0;
+        resolve({ code, stdout, stderr });
+      }
+    );
+    if (options.input !== undefined) child.stdin?.end(options.input);
+  });
+}
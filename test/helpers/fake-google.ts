@@ -0,0 +1,565 @@
+// ABOUTME: In-process fake of the Gmail, Calendar and Drive REST endpoints
+// ABOUTME: Serves seeded data on localhost and records every request for assertions
+
+import * as http from "http";
+import type { AddressInfo } from "net";
+
+export interface RecordedRequest {
+  method: string;
+  path: string;
+  query: URLSearchParams;
+  body: unknown;
+  headers: http.IncomingHttpHeaders;
+}
+
+export interface FakeResponse {
+  status?: number;
+  body?: unknown;
+  headers?: Record<string, string>;
+}
+
+type Handler = (req: RecordedRequest, params: string[]) => FakeResponse | undefined;
+
+interface Route {
+  method: string;
+  pattern: RegExp;
+  handler: Handler;
+}
+
+export interface FakeMessage {
+  id: string;
+  threadId: string;
+  labelIds?: string[];
+  headers: Record<string, string>;
+  body?: string;
+  mimeType?: string;
+  parts?: FakePart[];
+  snippet?: string;
+  raw?: string;            // Served for format=raw; built from headers and body otherwise
+  internalDate?: number;   // Epoch milliseconds
+}
+
+export interface FakePart {
+  mimeType: string;
+  filename?: string;
+  headers?: Record<string, string>;
+  data?: string | Buffer;
+  attachmentId?: string;
+  parts?: FakePart[];
+}
+
+export interface FakeFile {
+  id: string;
+  name: string;
+  mimeType: string;
+  content?: string;
+  exports?: Record<string, string>;
+  modifiedTime?: string;
+}
+
+export interface FakeLabel {
+  id: string;
+  name: string;
+  type: "system" | "user";
+  color?: { backgroundColor: string; textColor: string };
+}
+
+const METADATA_HEADERS = (query: URLSearchParams): string[] =>
+  query.getAll("metadataHeaders").map((h) => h.toLowerCase());
+
+export class FakeGoogle {
+  readonly requests: RecordedRequest[] = [];
+  readonly messages = new Map<string, FakeMessage>();
+  readonly attachments = new Map<string, Buffer>();
+  readonly sent: { raw: string; threadId?: string }[] = [];
+  readonly drafts = new Map<string, FakeMessage>();
+  readonly draftWrites: { draftId: string; raw: string; threadId?: string }[] = [];  // drafts.create/update bodies
+  readonly events = new Map<string, Record<string, unknown>>();
+  readonly files = new Map<string, FakeFile>();
+  readonly sendAs: Record<string, unknown>[] = [{ sendAsEmail: "me@example.com", isPrimary: true }];
+  readonly filters: Record<string, unknown>[] = [];
+  vacation: Record<string, unknown> = { enableAutoReply: false };
+  readonly history: { id: string; [change: string]: unknown }[] = [];  // users.history records
+  historyId = 100;           // Current mailbox history ID
+  oldestHistoryId = 0;       // Older start IDs get the 404 Gmail returns for expired history
+  readonly labels: FakeLabel[] = [
+    { id: "INBOX", name: "INBOX", type: "system" },
+    { id: "STARRED", name: "STARRED", type: "system" },
+    { id: "UNREAD", name: "UNREAD", type: "system" },
+  ];
+  tokenError: string | undefined;  // OAuth error returned by POST /token, e.g. "invalid_grant"
+
+  private server: http.Server | null = null;
+  private routes: Route[] = [];
+  private nextId = 1;
+
+  constructor() {
+    this.registerOAuth();
+    this.registerGmail();
+    this.registerCalendar();
+    this.registerDrive();
+  }
+
+  // Register a route ahead of the built-in ones. Return undefined from the
+  // handler to fall through to the next matching route.
+  route(method: string, pattern: RegExp, handler: Handler): void {
+    this.routes.unshift({ method, pattern, handler });
+  }
+
+  async start(): Promise<string> {
+    this.server = http.createServer((req, res) => this.handle(req, res));
+    await new Promise<void>((resolve) => this.server!.listen(0, "127.0.0.1", resolve));
+    const { port } = this.server.address() as AddressInfo;
+    return `http://127.0.0.1:${port}/`;
+  }
+
+  async stop(): Promise<void> {
+    if (!this.server) return;
+    await new Promise<void>((resolve) => this.server!.close(() => resolve()));
+    this.server = null;
+  }
+
+  addMessage(message: FakeMessage): void {
+    this.messages.set(message.id, message);
+  }
+
+  addDraft(draftId: string, message: FakeMessage): void {
+    this.drafts.set(draftId, message);
+    this.messages.set(message.id, message);
+  }
+
+  addEvent(calendarId: string, event: Record<string, unknown>): void {
+    this.events.set(`${calendarId}/${event.id}`, event);
+  }
+
+  addFile(file: FakeFile): void {
+    this.files.set(file.id, file);
+  }
+
+  requestsTo(method: string, pathPattern: RegExp): RecordedRequest[] {
+    return this.requests.filter((r) => r.method === method && pathPattern.test(r.path));
+  }
+
+  private id(prefix: string): string {
+    return `${prefix}${this.nextId++}`;
+  }
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk as Buffer);
+    const raw = Buffer.concat(chunks).toString();
+    const url = new URL(req.url || "/", "http://localhost");
+    let body: unknown = raw;
+    if (raw && (req.headers["content-type"] || "").includes("json")) {
+      body = JSON.parse(raw);
+    }
+
+    const recorded: RecordedRequest = {
+      method: req.method || "GET",
+      path: url.pathname,
+      query: url.searchParams,
+      body,
+      headers: req.headers,
+    };
+    this.requests.push(recorded);
+
+    for (const route of this.routes) {
+      if (route.method !== recorded.method) continue;
+      const match = route.pattern.exec(recorded.path);
+      if (!match) continue;
+      const result = route.handler(recorded, match.slice(1).map(decodeURIComponent));
+      if (result === undefined) continue;
+      this.send(res, result);
+      return;
+    }
+    this.send(res, notFound(`No fake route for ${recorded.method} ${recorded.path}`));
+  }
+
+  private send(res: http.ServerResponse, result: FakeResponse): void {
+    const status = result.status ?? 200;
+    if (Buffer.isBuffer(result.body) || typeof result.body === "string") {
+      res.writeHead(status, { "content-type": "application/octet-stream", ...result.headers });
+      res.end(result.body);
+      return;
+    }
+    res.writeHead(status, { "content-type": "application/json", ...result.headers });
+    res.end(result.body === undefined ? "" : JSON.stringify(result.body));
+  }
+
+  private registerOAuth(): void {
+    this.routes.push({
+      method: "POST",
+      pattern: /^\/token$/,
+      handler: () => {
+        if (this.tokenError) {
+          return { status: 400, body: { error: this.tokenError, error_description: "Token has been expired or revoked." } };
+        }
+        return { body: { access_token: this.id("access-"), expires_in: 3600, token_type: "Bearer" } };
+      },
+    });
+  }
+
+  private registerGmail(): void {
+    const base = "^/gmail/v1/users/me";
+
+    this.routes.push({
+      method: "GET",
+      pattern: new RegExp(`${base}/threads$`),
+      handler: (req) => {
+        const threadIds = [...new Set([...this.messages.values()].map((m) => m.threadId))];
+        const max = parseInt(req.query.get("maxResults") || "100");
+        const start = parseInt(req.query.get("pageToken") || "0");
+        const page = threadIds.slice(start, start + max);
+        const next = start + max < threadIds.length ? String(start + max) : undefined;
+        return { body: { threads: page.map((id) => ({ id })), nextPageToken: next } };
+      },
+    });
+
+    this.routes.push({
+      method: "GET",
+      pattern: new RegExp(`${base}/threads/([^/]+)$`),
+      handler: (req, [id]) => {
+        const messages = [...this.messages.values()].filter((m) => m.threadId === id);
+        if (messages.length === 0) return notFound("Thread not found");
+        const format = req.query.get("format") || "full";
+        return { body: { id, messages: messages.map((m) => this.toApiMessage(m, format, req.query)) } };
+      },
+    });
+
+    this.routes.push({
+      method: "GET",
+      pattern: new RegExp(`${base}/messages$`),
+      handler: (req) => {
+        const ids = [...this.messages.keys()];
+        const max = parseInt(req.query.get("maxResults") || "100");
+        const start = parseInt(req.query.get("pageToken") || "0");
+        const next = start + max < ids.length ? String(start + max) : undefined;
+        return { body: { messages: ids.slice(start, start + max).map((id) => ({ id })), nextPageToken: next } };
+      },
+    });
+
+    this.routes.push({
+      method: "GET",
+      pattern: new RegExp(`${base}/messages/([^/]+)$`),
+      handler: (req, [id]) => {
+        const message = this.messages.get(id);
+        if (!message) return notFound("Message not found");
+        return { body: this.toApiMessage(message, req.query.get("format") || "full", req.query) };
+      },
+    });
+
+    this.routes.push({
+      method: "GET",
+      pattern: new RegExp(`${base}/messages/([^/]+)/attachments/([^/]+)$`),
+      handler: (_req, [, attachmentId]) => {
+        const data = this.attachments.get(attachmentId);
+        if (!data) return notFound("Attachment not found");
+        return { body: { attachmentId, size: data.length, data: data.toString("base64url") } };
+      },
+    });
+
+    this.routes.push({
+      method: "POST",
+      pattern: new RegExp(`${base}/messages/send$`),
+      handler: (req) => {
+        const { raw, threadId } = req.body as { raw: string; threadId?: string };
+        this.sent.push({ raw: Buffer.from(raw, "base64url").toString(), threadId });
+        const id = this.id("sent");
+        return { body: { id, threadId: threadId || id, labelIds: ["SENT"] } };
+      },
+    });
+
+    this.routes.push({
+      method: "POST",
+      pattern: new RegExp(`${base}/drafts$`),
+      handler: (req) => {
+        const { message } = req.body as { message: { raw: string; threadId?: string } };
+        const draftId = this.id("draft");
+        this.draftWrites.push({ draftId, raw: Buffer.from(message.raw, "base64url").toString(), threadId: message.threadId });
+        return { body: { id: draftId, message: { id: this.id("msg"), threadId: message.threadId } } };
+      },
+    });
+
+    this.routes.push({
+      method: "GET",
+      pattern: new RegExp(`${base}/drafts/([^/]+)$`),
+      handler: (req, [draftId]) => {
+        const message = this.drafts.get(draftId);
+        if (!message) return notFound("Draft not found");
+        return { body: { id: draftId, message: this.toApiMessage(message, req.query.get("format") || "full", req.query) } };
+      },
+    });
+
+    this.routes.push({
+      method: "PUT",
+      pattern: new RegExp(`${base}/drafts/([^/]+)$`),
+      handler: (req, [draftId]) => {
+        if (!this.drafts.has(draftId)) return notFound("Draft not found");
+        const { message } = req.body as { message: { raw: string; threadId?: string } };
+        this.draftWrites.push({ draftId, raw: Buffer.from(message.raw, "base64url").toString(), threadId: message.threadId });
+        return { body: { id: draftId, message: { id: this.id("msg"), threadId: message.threadId } } };
+      },
+    });
+
+    this.routes.push({
+      method: "GET",
+      pattern: new RegExp(`${base}/settings/sendAs$`),
+      handler: () => ({ body: { sendAs: this.sendAs } }),
+    });
+
+    this.routes.push({
+      method: "PATCH",
+      pattern: new RegExp(`${base}/settings/sendAs/([^/]+)$`),
+      handler: (req, [address]) => {
+        const sendAs = this.sendAs.find((s) => s.sendAsEmail === decodeURIComponent(address));
+        if (!sendAs) return notFound("Send-as address not found");
+        Object.assign(sendAs, req.body);
+        return { body: sendAs };
+      },
+    });
+
+    this.routes.push({
+      method: "GET",
+      pattern: new RegExp(`${base}/settings/vacation$`),
+      handler: () => ({ body: this.vacation }),
+    });
+
+    this.routes.push({
+      method: "PUT",
+      pattern: new RegExp(`${base}/settings/vacation$`),
+      handler: (req) => {
+        this.vacation = req.body as Record<string, unknown>;
+        return { body: this.vacation };
+      },
+    });
+
+    this.routes.push({
+      method: "GET",
+      pattern: new RegExp(`${base}/profile$`),
+      handler: () => ({ body: { emailAddress: "me@example.com", historyId: String(this.historyId) } }),
+    });
+
+    this.routes.push({
+      method: "GET",
+      pattern: new RegExp(`${base}/history$`),
+      handler: (req) => {
+        const startId = Number(req.query.get("startHistoryId"));
+        if (startId < this.oldestHistoryId) return notFound("Requested entity was not found.");
+        const records = this.history.filter((h) => Number(h.id) > startId);
+        const max = parseInt(req.query.get("maxResults") || "100");
+        const start = parseInt(req.query.get("pageToken") || "0");
+        const next = start + max < records.length ? String(start + max) : undefined;
+        return { body: { history: records.slice(start, start + max), historyId: String(this.historyId), nextPageToken: next } };
+      },
+    });
+
+    this.routes.push({
+      method: "GET",
+      pattern: new RegExp(`${base}/settings/filters$`),
+      handler: () => ({ body: this.filters.length > 0 ? { filter: this.filters } : {} }),
+    });
+
+    this.routes.push({
+      method: "POST",
+      pattern: new RegExp(`${base}/settings/filters$`),
+      handler: (req) => {
+        const filter = { id: this.id("filter"), ...(req.body as object) };
+        this.filters.push(filter);
+        return { body: filter };
+      },
+    });
+
+    this.routes.push({
+      method: "DELETE",
+      pattern: new RegExp(`${base}/settings/filters/([^/]+)$`),
+      handler: (_req, [id]) => {
+        const index = this.filters.findIndex((f) => f.id === id);
+        if (index === -1) return notFound("Filter not found");
+        this.filters.splice(index, 1);
+        return { status: 204 };
+      },
+    });
+
+    this.routes.push({
+      method: "GET",
+      pattern: new RegExp(`${base}/labels$`),
+      handler: () => ({ body: { labels: this.labels } }),
+    });
+
+    this.routes.push({
+      method: "POST",
+      pattern: new RegExp(`${base}/labels$`),
+      handler: (req) => {
+        const { name, color } = req.body as { name: string; color?: FakeLabel["color"] };
+        if (this.labels.some((l) => l.name.toLowerCase() === name.toLowerCase())) {
+          return { status: 409, body: { error: { code: 409, message: "Label name exists or conflicts" } } };
+        }
+        const label: FakeLabel = { id: this.id("Label_"), name, type: "user", ...(color ? { color } : {}) };
+        this.labels.push(label);
+        return { body: label };
+      },
+    });
+
+    this.routes.push({
+      method: "PATCH",
+      pattern: new RegExp(`${base}/labels/([^/]+)$`),
+      handler: (req, [id]) => {
+        const label = this.labels.find((l) => l.id === id);
+        if (!label) return notFound("Label not found");
+        Object.assign(label, req.body);
+        return { body: label };
+      },
+    });
+
+    this.routes.push({
+      method: "DELETE",
+      pattern: new RegExp(`${base}/labels/([^/]+)$`),
+      handler: (_req, [id]) => {
+        const index = this.labels.findIndex((l) => l.id === id);
+        if (index === -1) return notFound("Label not found");
+        this.labels.splice(index, 1);
+        return { status: 204 };
+      },
+    });
+
+    this.routes.push({
+      method: "POST",
+      pattern: new RegExp(`${base}/messages/batchModify$`),
+      handler: (req) => {
+        const { ids, addLabelIds = [], removeLabelIds = [] } = req.body as {
+          ids: string[];
+          addLabelIds?: string[];
+          removeLabelIds?: string[];
+        };
+        for (const id of ids) {
+          const message = this.messages.get(id);
+          if (!message) continue;
+          const labels = (message.labelIds || []).filter((l) => !removeLabelIds.includes(l));
+          message.labelIds = [...new Set([...labels, ...addLabelIds])];
+        }
+        return { status: 204 };
+      },
+    });
+  }
+
+  private registerCalendar(): void {
+    const base = "^/calendar/v3/calendars/([^/]+)";
+
+    this.routes.push({
+      method: "GET",
+      pattern: new RegExp(`${base}/events/([^/]+)$`),
+      handler: (_req, [calendarId, eventId]) => {
+        const event = this.events.get(`${calendarId}/${eventId}`);
+        return event ? { body: event } : notFound("Event not found");
+      },
+    });
+
+    this.routes.push({
+      method: "PUT",
+      pattern: new RegExp(`${base}/events/([^/]+)$`),
+      handler: (req, [calendarId, eventId]) => {
+        const key = `${calendarId}/${eventId}`;
+        if (!this.events.has(key)) return notFound("Event not found");
+        const event = { ...(req.body as Record<string, unknown>), id: eventId };
+        this.events.set(key, event);
+        return { body: event };
+      },
+    });
+  }
+
+  private registerDrive(): void {
+    this.routes.push({
+      method: "GET",
+      pattern: /^\/drive\/v3\/files\/([^/]+)\/export$/,
+      handler: (req, [fileId]) => {
+        const file = this.files.get(fileId);
+        const content = file?.exports?.[req.query.get("mimeType") || ""];
+        return content === undefined ? notFound("Export not available") : { body: content };
+      },
+    });
+
+    this.routes.push({
+      method: "GET",
+      pattern: /^\/drive\/v3\/files\/([^/]+)$/,
+      handler: (req, [fileId]) => {
+        const file = this.files.get(fileId);
+        if (!file) return notFound("File not found");
+        if (req.query.get("alt") === "media") {
+          return { body: file.content || "" };
+        }
+        return {
+          body: {
+            id: file.id,
+            name: file.name,
+            mimeType: file.mimeType,
+            size: file.content ? String(Buffer.byteLength(file.content)) : undefined,
+            modifiedTime: file.modifiedTime || "2026-01-01T00:00:00.000Z",
+          },
+        };
+      },
+    });
+  }
+
+  private toApiMessage(message: FakeMessage, format: string, query: URLSearchParams) {
+    let headers = Object.entries(message.headers).map(([name, value]) => ({ name, value }));
+    if (format === "metadata") {
+      const wanted = METADATA_HEADERS(query);
+      if (wanted.length > 0) {
+        headers = headers.filter((h) => wanted.includes(h.name.toLowerCase()));
+      }
+    }
+    const result: Record<string, unknown> = {
+      id: message.id,
+      threadId: message.threadId,
+      labelIds: message.labelIds || [],
+      snippet: message.snippet ?? (message.body || "").slice(0, 100),
+      internalDate: String(message.internalDate ?? 0),
+    };
+    if (format === "minimal") return result;
+    if (format === "raw") {
+      const headers = Object.entries(message.headers).map(([name, value]) => `${name}: ${value}\r\n`).join("");
+      result.raw = Buffer.from(message.raw ?? `${headers}\r\n${message.body || ""}`).toString("base64url");
+      return result;
+    }
+
+    const payload: Record<string, unknown> = {
+      mimeType: message.mimeType || (message.parts ? "multipart/mixed" : "text/plain"),
+      headers,
+    };
+    if (format !== "metadata") {
+      if (message.parts) {
+        payload.parts = message.parts.map((p) => this.toApiPart(p));
+      } else {
+        payload.body = { size: (message.body || "").length, data: Buffer.from(message.body || "").toString("base64url") };
+      }
+    }
+    result.payload = payload;
+    return result;
+  }
+
+  private toApiPart(part: FakePart): Record<string, unknown> {
+    const headers = Object.entries(part.headers || {}).map(([name, value]) => ({ name, value }));
+    const body: Record<string, unknown> = {};
+    if (part.attachmentId) {
+      const data = Buffer.from(part.data || "");
+      this.attachments.set(part.attachmentId, data);
+      body.attachmentId = part.attachmentId;
+      body.size = data.length;
+    } else if (part.data !== undefined) {
+      const data = Buffer.from(part.data);
+      body.data = data.toString("base64url");
+      body.size = data.length;
+    }
+    return {
+      mimeType: part.mimeType,
+      filename: part.filename || "",
+      headers,
+      body,
+      parts: part.parts?.map((p) => this.toApiPart(p)),
+    };
+  }
+}
+
+export function notFound(message: string): FakeResponse {
+  return { status: 404, body: { error: { code: 404, message, errors: [{ reason: "notFound" }] } } };
+}
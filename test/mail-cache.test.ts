@@ -0,0 +1,172 @@
+import { after, before, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import * as path from "path";
+import { GmailService } from "../src/services/gmail.js";
+import { MailCache } from "../src/services/mail-cache.js";
+import { CliError, ExitCode } from "../src/utils/errors.js";
+import { FakeGoogle } from "./helpers/fake-google.js";
+import { TEST_EMAIL, createTestStorage, removeDir } from "./helpers/accounts.js";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+describe("MailCache", () => {
+  let fake: FakeGoogle;
+  let cache: MailCache;
+  let configDir: string;
+
+  before(async () => {
+    fake = new FakeGoogle();
+    const rootUrl = await fake.start();
+    const test = createTestStorage();
+    configDir = test.configDir;
+    cache = new MailCache(new GmailService(test.storage, { rootUrl }), test.storage);
+  });
+
+  after(async () => {
+    await fake.stop();
+    removeDir(configDir);
+  });
+
+  beforeEach(() => {
+    fs.rmSync(path.join(configDir, "cache"), { recursive: true, force: true });
+    fake.messages.clear();
+    fake.history.length = 0;
+    fake.historyId = 100;
+    fake.oldestHistoryId = 0;
+    fake.requests.length = 0;
+  });
+
+  const addMessage = (id: string, threadId: string, day: number, subject: string, body: string, labelIds = ["INBOX"]) => {
+    fake.addMessage({
+      id,
+      threadId,
+      labelIds,
+      headers: { From: `${id} <${id}@acme.com>`, Subject: subject, Date: new Date(day * DAY).toUTCString() },
+      body,
+      internalDate: day * DAY,
+    });
+  };
+
+  const fetched = () => fake.requestsTo("GET", /\/messages\/[^/]+$/).map((r) => r.path.split("/").pop());
+
+  it("fills the cache and searches it offline", async () => {
+    addMessage("m1", "t1", 1, "March invoice", "Please find the invoice attached");
+    addMessage("m2", "t1", 3, "Re: March invoice", "Paid in full, thanks");
+    addMessage("m3", "t2", 2, "Lunch", "Café on Friday? Bring the invoice");
+    addMessage("d1", "t3", 4, "Draft invoice", "unsent", ["DRAFT"]);
+
+    const result = await cache.sync(TEST_EMAIL);
+
+    assert.deepEqual(result, { added: 3, removed: 0, updated: 0, messages: 3, historyId: "100", rebuilt: false });
+    assert.deepEqual(cache.search(TEST_EMAIL, "invoice").map((t) => [t.id, t.subject]), [
+      ["t1", "Re: March invoice"],
+      ["t2", "Lunch"],
+    ]);
+    assert.deepEqual(cache.search(TEST_EMAIL, "subject:invoice").map((t) => t.id), ["t1"]);
+    assert.deepEqual(cache.search(TEST_EMAIL, "from:m3 cafe").map((t) => t.id), ["t2"]);
+    assert.deepEqual(cache.search(TEST_EMAIL, '"paid in full"').map((t) => t.id), ["t1"]);
+    assert.deepEqual(cache.search(TEST_EMAIL, '"full paid"'), []);
+    assert.equal(cache.search(TEST_EMAIL, "", 1).length, 1);
+
+    const thread = cache.getThread(TEST_EMAIL, "t1");
+    assert.deepEqual(thread.messages.map((m) => [m.id, m.body]), [
+      ["m1", "Please find the invoice attached"],
+      ["m2", "Paid in full, thanks"],
+    ]);
+  });
+
+  it("applies history changes without refetching cached messages", async () => {
+    addMessage("m1", "t1", 1, "Old news", "first");
+    addMessage("m2", "t2", 2, "Doomed", "second");
+    await cache.sync(TEST_EMAIL);
+    fake.requests.length = 0;
+
+    addMessage("m3", "t3", 3, "Fresh news", "third", ["INBOX", "UNREAD"]);
+    fake.history.push(
+      { id: "101", messagesAdded: [{ message: { id: "m3", threadId: "t3", labelIds: ["INBOX", "UNREAD"] } }] },
+      { id: "102", messagesDeleted: [{ message: { id: "m2", threadId: "t2" } }] },
+      { id: "103", labelsRemoved: [{ message: { id: "m1", threadId: "t1" }, labelIds: ["INBOX"] }] },
+      { id: "104", messagesAdded: [{ message: { id: "d1", threadId: "t4", labelIds: ["DRAFT"] } }] }
+    );
+    fake.historyId = 104;
+
+    const result = await cache.sync(TEST_EMAIL);
+
+    assert.deepEqual(result, { added: 1, removed: 1, updated: 1, messages: 2, historyId: "104", rebuilt: false });
+    assert.deepEqual(fetched(), ["m3"]);
+    assert.deepEqual(cache.search(TEST_EMAIL, "news").map((t) => [t.id, t.labels]), [
+      ["t3", ["INBOX", "UNREAD"]],
+      ["t1", []],
+    ]);
+    assert.deepEqual(cache.search(TEST_EMAIL, "doomed"), []);
+    assert.deepEqual(cache.getThread(TEST_EMAIL, "t1").messages[0].labels, []);
+  });
+
+  it("tolerates message files removed by a sync that died before saving the index", async () => {
+    addMessage("m1", "t1", 1, "March invoice", "Please find the invoice attached");
+    addMessage("m2", "t1", 3, "Re: March invoice", "Paid in full, thanks");
+    await cache.sync(TEST_EMAIL);
+    fs.rmSync(path.join(configDir, "cache", TEST_EMAIL, "messages", "m2.json"));
+
+    assert.deepEqual(cache.getThread(TEST_EMAIL, "t1").messages.map((m) => m.id), ["m1"]);
+    assert.deepEqual(cache.search(TEST_EMAIL, '"paid in full"'), []);
+  });
+
+  it("resumes an interrupted first sync", async () => {
+    for (let i = 1; i <= 25; i++) addMessage(`m${i}`, `t${i}`, i, `Subject ${i}`, "body");
+    let failing = true;
+    fake.route("GET", /\/messages\/m25$/, () =>
+      failing ? { status: 400, body: { error: { code: 400, message: "Bad request" } } } : undefined
+    );
+
+    await assert.rejects(cache.sync(TEST_EMAIL));
+    failing = false;
+    fake.requests.length = 0;
+    const result = await cache.sync(TEST_EMAIL);
+
+    // The two batches of ten fetched before the failure were kept
+    assert.equal(result.messages, 25);
+    assert.equal(fetched().length, 5);
+  });
+
+  it("keeps only the newest messages with maxMessages", async () => {
+    for (let i = 1; i <= 5; i++) addMessage(`m${i}`, `t${i}`, i, `Subject ${i}`, "body");
+
+    const result = await cache.sync(TEST_EMAIL, { maxMessages: 2 });
+
+    assert.equal(result.messages, 2);
+  });
+
+  it("rebuilds the cache when history has expired", async () => {
+    addMessage("m1", "t1", 1, "Kept", "body");
+    await cache.sync(TEST_EMAIL);
+    fake.messages.clear();
+    addMessage("m2", "t2", 2, "Replacement", "body");
+    fake.historyId = 500;
+    fake.oldestHistoryId = 400;
+
+    const result = await cache.sync(TEST_EMAIL);
+
+    assert.equal(result.rebuilt, true);
+    assert.equal(result.historyId, "500");
+    assert.deepEqual(cache.search(TEST_EMAIL, "").map((t) => t.id), ["t2"]);
+  });
+
+  it("refuses a different query without --full", async () => {
+    await cache.sync(TEST_EMAIL, { query: "newer_than:1y" });
+
+    await assert.rejects(
+      cache.sync(TEST_EMAIL, { query: "in:inbox" }),
+      (e: unknown) => e instanceof CliError && e.exitCode === ExitCode.INVALID_INPUT
+    );
+    assert.equal((await cache.sync(TEST_EMAIL, { query: "in:inbox", full: true })).messages, 0);
+  });
+
+  it("explains that search --offline needs a sync first", () => {
+    assert.throws(
+      () => cache.search(TEST_EMAIL, "anything"),
+      (e: unknown) => e instanceof CliError && e.exitCode === ExitCode.NOT_FOUND && /mail sync/.test(e.message)
+    );
+  });
+});
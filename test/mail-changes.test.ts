@@ -0,0 +1,146 @@
+import { after, before, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import * as path from "path";
+import { GmailService } from "../src/services/gmail.js";
+import { MailChanges, type NewMessageEvent } from "../src/services/mail-changes.js";
+import { CliError, ExitCode } from "../src/utils/errors.js";
+import { FakeGoogle } from "./helpers/fake-google.js";
+import { TEST_EMAIL, createTestStorage, removeDir } from "./helpers/accounts.js";
+
+describe("MailChanges", () => {
+  let fake: FakeGoogle;
+  let changes: MailChanges;
+  let configDir: string;
+
+  before(async () => {
+    fake = new FakeGoogle();
+    const rootUrl = await fake.start();
+    const test = createTestStorage();
+    configDir = test.configDir;
+    changes = new MailChanges(new GmailService(test.storage, { rootUrl }), test.storage);
+  });
+
+  after(async () => {
+    await fake.stop();
+    removeDir(configDir);
+  });
+
+  beforeEach(() => {
+    fs.rmSync(path.join(configDir, "history.json"), { force: true });
+    fake.messages.clear();
+    fake.history.length = 0;
+    fake.historyId = 100;
+    fake.oldestHistoryId = 0;
+  });
+
+  const addMessage = (id: string, historyId: number, labelIds: string[]) => {
+    fake.addMessage({ id, threadId: `t-${id}`, labelIds, headers: { From: "alice@example.com", Subject: `About ${id}` }, body: "text" });
+    fake.history.push({ id: String(historyId), messagesAdded: [{ message: { id, threadId: `t-${id}`, labelIds } }] });
+    fake.historyId = historyId;
+  };
+
+  it("starts a checkpoint on the first run and reports changes after it", async () => {
+    const first = await changes.changes(TEST_EMAIL);
+
+    assert.deepEqual(first, { changes: [], historyId: "100", checkpointSet: true });
+    assert.equal(changes.getCheckpoint(TEST_EMAIL), "100");
+
+    addMessage("m1", 101, ["INBOX", "UNREAD"]);
+    fake.history.push(
+      { id: "102", labelsRemoved: [{ message: { id: "m1", threadId: "t-m1" }, labelIds: ["UNREAD"] }] },
+      { id: "103", messagesDeleted: [{ message: { id: "m0", threadId: "t0" } }] }
+    );
+    fake.historyId = 103;
+
+    const second = await changes.changes(TEST_EMAIL);
+
+    assert.deepEqual(second.changes, [
+      { historyId: "101", type: "added", messageId: "m1", threadId: "t-m1", labels: ["INBOX", "UNREAD"] },
+      { historyId: "102", type: "labelsRemoved", messageId: "m1", threadId: "t-m1", labels: ["UNREAD"] },
+      { historyId: "103", type: "deleted", messageId: "m0", threadId: "t0", labels: [] },
+    ]);
+    assert.equal(changes.getCheckpoint(TEST_EMAIL), "103");
+    assert.deepEqual((await changes.changes(TEST_EMAIL)).changes, []);
+  });
+
+  it("reads from --since without moving the checkpoint", async () => {
+    changes.setCheckpoint(TEST_EMAIL, "100");
+    addMessage("m1", 101, ["INBOX"]);
+
+    const result = await changes.changes(TEST_EMAIL, { since: "50" });
+
+    assert.equal(result.changes.length, 1);
+    assert.equal(result.checkpointSet, false);
+    assert.equal(changes.getCheckpoint(TEST_EMAIL), "100");
+  });
+
+  it("explains how to recover when the checkpoint has expired", async () => {
+    changes.setCheckpoint(TEST_EMAIL, "10");
+    fake.oldestHistoryId = 50;
+
+    await assert.rejects(
+      changes.changes(TEST_EMAIL),
+      (e: unknown) => e instanceof CliError && e.exitCode === ExitCode.NOT_FOUND && /--reset/.test(e.message)
+    );
+    const reset = await changes.changes(TEST_EMAIL, { reset: true });
+    assert.equal(reset.historyId, "100");
+    assert.equal(changes.getCheckpoint(TEST_EMAIL), "100");
+  });
+
+  it("polls for new messages, leaving out drafts, deleted and unmatched ones", async () => {
+    changes.setCheckpoint(TEST_EMAIL, "100");
+    addMessage("m1", 101, ["INBOX", "UNREAD"]);
+    addMessage("m2", 102, ["DRAFT"]);
+    addMessage("m3", 103, ["SENT"]);
+    addMessage("m4", 104, ["INBOX"]);
+    fake.history.push({ id: "105", messagesDeleted: [{ message: { id: "m4" } }] });
+    fake.historyId = 105;
+
+    const events = await changes.poll(TEST_EMAIL, { labelId: "INBOX" });
+
+    assert.deepEqual(events.map((e) => [e.type, e.id, e.subject, e.historyId]), [["message", "m1", "About m1", "101"]]);
+    assert.equal(changes.getCheckpoint(TEST_EMAIL), "105");
+  });
+
+  it("keeps the checkpoint when a summary cannot be fetched, so the next poll re-emits", async () => {
+    changes.setCheckpoint(TEST_EMAIL, "100");
+    addMessage("m1", 101, ["INBOX"]);
+    addMessage("m2", 102, ["INBOX"]);
+    let failing = true;
+    fake.route("GET", /\/messages\/m2$/, () =>
+      failing ? { status: 403, body: { error: { code: 403, message: "Forbidden", errors: [{ reason: "forbidden" }] } } } : undefined
+    );
+    const emitted: string[] = [];
+
+    await assert.rejects(changes.poll(TEST_EMAIL, { onEvent: (e) => emitted.push(e.id) }));
+    assert.equal(emitted.length, 0);
+    assert.equal(changes.getCheckpoint(TEST_EMAIL), "100");
+
+    failing = false;
+    await changes.poll(TEST_EMAIL, { onEvent: (e) => emitted.push(e.id) });
+    assert.deepEqual(emitted, ["m1", "m2"]);
+    assert.equal(changes.getCheckpoint(TEST_EMAIL), "102");
+  });
+
+  it("watches until stopped, emitting each new message once", async () => {
+    changes.setCheckpoint(TEST_EMAIL, "100");
+    addMessage("m1", 101, ["INBOX"]);
+    const stop = new AbortController();
+    const events: NewMessageEvent[] = [];
+
+    await changes.watch(TEST_EMAIL, {
+      intervalMs: 5,
+      label: "inbox",
+      signal: stop.signal,
+      onEvent: (event) => {
+        events.push(event);
+        if (events.length === 1) addMessage("m2", 102, ["INBOX"]);
+        else stop.abort();
+      },
+    });
+
+    assert.deepEqual(events.map((e) => e.id), ["m1", "m2"]);
+    assert.equal(changes.getCheckpoint(TEST_EMAIL), "102");
+  });
+});
@@ -0,0 +1,139 @@
+import { after, before, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import * as path from "path";
+import { GmailService } from "../src/services/gmail.js";
+import { MailExport } from "../src/services/mail-export.js";
+import { asctime, toMboxEntry } from "../src/utils/mbox.js";
+import { FakeGoogle } from "./helpers/fake-google.js";
+import { TEST_EMAIL, createTestStorage, makeTempDir, removeDir } from "./helpers/accounts.js";
+
+const JAN_5 = Date.UTC(2026, 0, 5, 10, 0, 0);
+
+describe("toMboxEntry", () => {
+  it("writes a From_ line and quotes From lines mboxrd-style", () => {
+    const raw = Buffer.from("From: \"Alice\" <alice@example.com>\r\nSubject: Hi\r\n\r\nFrom now on\r\n>From here\r\nFrom: x\r\n");
+
+    const entry = toMboxEntry(raw, new Date(JAN_5)).toString("latin1");
+
+    assert.equal(entry, [
+      "From alice@example.com Mon Jan  5 10:00:00 2026",
+      'From: "Alice" <alice@example.com>',
+      "Subject: Hi",
+      "",
+      ">From now on",
+      ">>From here",
+      "From: x",
+      "",
+      "",
+    ].join("\n"));
+  });
+
+  it("keeps 8-bit bytes and falls back to MAILER-DAEMON", () => {
+    const raw = Buffer.concat([Buffer.from("Subject: x\n\n"), Buffer.from([0xe9, 0xff])]);
+
+    const entry = toMboxEntry(raw, new Date(0));
+
+    assert.equal(entry.subarray(0, 44).toString(), "From MAILER-DAEMON Thu Jan  1 00:00:00 1970\n");
+    assert.deepEqual([...entry.subarray(-4)], [0xe9, 0xff, 0x0a, 0x0a]);
+    assert.equal(asctime(new Date(Date.UTC(2026, 11, 25, 1, 2, 3))), "Fri Dec 25 01:02:03 2026");
+  });
+});
+
+describe("MailExport", () => {
+  let fake: FakeGoogle;
+  let exporter: MailExport;
+  let configDir: string;
+  let outDir: string;
+
+  before(async () => {
+    fake = new FakeGoogle();
+    const rootUrl = await fake.start();
+    const test = createTestStorage();
+    configDir = test.configDir;
+    exporter = new MailExport(new GmailService(test.storage, { rootUrl }));
+  });
+
+  after(async () => {
+    await fake.stop();
+    removeDir(configDir);
+  });
+
+  beforeEach(() => {
+    fake.messages.clear();
+    fake.requests.length = 0;
+    outDir = makeTempDir();
+    for (let i = 1; i <= 3; i++) {
+      fake.addMessage({
+        id: `m${i}`,
+        threadId: `t${i}`,
+        headers: { From: `user${i}@example.com`, Subject: `Message ${i}` },
+        body: `Body ${i}\r\nFrom the team\r\n`,
+        internalDate: JAN_5 + i * 1000,
+      });
+    }
+  });
+
+  it("writes every message across result pages to one mbox", async () => {
+    // Serve the list in two pages
+    fake.route("GET", /\/messages$/, (req) => {
+      if (req.query.get("q") !== "label:work") return undefined;
+      return req.query.get("pageToken")
+        ? { body: { messages: [{ id: "m3" }] } }
+        : { body: { messages: [{ id: "m1" }, { id: "m2" }], nextPageToken: "p2" } };
+    });
+    const out = path.join(outDir, "mail.mbox");
+
+    const result = await exporter.run(TEST_EMAIL, "label:work", { format: "mbox", out });
+
+    assert.deepEqual(result, { format: "mbox", path: out, exported: 3, skipped: 0 });
+    const mbox = fs.readFileSync(out, "utf8");
+    assert.deepEqual(mbox.match(/^From \S+ .*$/gm), [
+      "From user1@example.com Mon Jan  5 10:00:01 2026",
+      "From user2@example.com Mon Jan  5 10:00:02 2026",
+      "From user3@example.com Mon Jan  5 10:00:03 2026",
+    ]);
+    assert.equal(mbox.match(/^>From the team$/gm)?.length, 3);
+    assert.equal(fs.statSync(out).mode & 0o777, 0o600);
+    assert.equal(fs.statSync(`${out}.progress`).mode & 0o777, 0o600);
+    const list = fake.requestsTo("GET", /\/messages$/)[0];
+    assert.equal(list.query.get("q"), "label:work");
+    assert.equal(list.query.get("maxResults"), "500");
+  });
+
+  it("resumes an interrupted mbox export without duplicates or partial messages", async () => {
+    const out = path.join(outDir, "mail.mbox");
+    const first = await exporter.run(TEST_EMAIL, "", { format: "mbox", out, maxMessages: 1 });
+    fs.appendFileSync(out, "From user2@example.com Mon Jan  5 10:00:02 2026\nSubject: Mess");  // Cut off mid-write
+    fs.appendFileSync(`${out}.progress`, '{"id":"m2","off');  // Progress line torn by the same crash
+
+    const result = await exporter.run(TEST_EMAIL, "", { format: "mbox", out });
+
+    assert.deepEqual([first.exported, first.skipped], [1, 0]);
+    assert.deepEqual([result.exported, result.skipped], [2, 1]);
+    const mbox = fs.readFileSync(out, "utf8");
+    assert.deepEqual(mbox.match(/^Subject: .*$/gm), ["Subject: Message 1", "Subject: Message 2", "Subject: Message 3"]);
+    assert.equal(fake.requestsTo("GET", /\/messages\/m1$/).length, 1);
+    assert.equal((await exporter.run(TEST_EMAIL, "", { format: "mbox", out })).skipped, 3);
+  });
+
+  it("refuses to append to an mbox it did not write", async () => {
+    const out = path.join(outDir, "mail.mbox");
+    fs.writeFileSync(out, "From someone Thu Jan  1 00:00:00 1970\n\n");
+
+    await assert.rejects(exporter.run(TEST_EMAIL, "", { format: "mbox", out }), /has no mail\.mbox\.progress/);
+  });
+
+  it("writes one raw .eml per message and skips existing ones", async () => {
+    const dir = path.join(outDir, "eml");
+    fake.messages.get("m2")!.raw = "Subject: exact\r\n\r\nbytes\r\n";
+    await exporter.run(TEST_EMAIL, "", { format: "eml", out: dir, maxMessages: 2 });
+
+    const result = await exporter.run(TEST_EMAIL, "", { format: "eml", out: dir });
+
+    assert.deepEqual([result.exported, result.skipped], [1, 2]);
+    assert.deepEqual(fs.readdirSync(dir).sort(), ["m1.eml", "m2.eml", "m3.eml"]);
+    assert.equal(fs.readFileSync(path.join(dir, "m2.eml"), "utf8"), "Subject: exact\r\n\r\nbytes\r\n");
+    assert.equal(fs.statSync(path.join(dir, "m3.eml")).mtimeMs, JAN_5 + 3000);
+  });
+});
@@ -0,0 +1,182 @@
+import { after, before, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import * as path from "path";
+import { GmailService } from "../src/services/gmail.js";
+import { MailMerge, loadRows, loadTemplate, renderPlaceholders } from "../src/services/mail-merge.js";
+import { parseCsv } from "../src/utils/csv.js";
+import { FakeGoogle } from "./helpers/fake-google.js";
+import { TEST_EMAIL, createTestStorage, removeDir } from "./helpers/accounts.js";
+
+describe("parseCsv", () => {
+  it("handles quotes, embedded commas, newlines and a BOM", () => {
+    const rows = parseCsv('﻿name,email,note\r\n"Doe, Jane",jane@x.com,"said ""hi""\nthen left"\r\nBob,bob@x.com,\r\n\r\n');
+    assert.deepEqual(rows, [
+      { name: "Doe, Jane", email: "jane@x.com", note: 'said "hi"\nthen left' },
+      { name: "Bob", email: "bob@x.com", note: "" },
+    ]);
+  });
+});
+
+describe("renderPlaceholders", () => {
+  it("fills fields and reports missing ones", () => {
+    assert.equal(renderPlaceholders("Hi {{ name }}, {{name}}!", { name: "Ann" }), "Hi Ann, Ann!");
+    assert.throws(() => renderPlaceholders("{{a}} {{b}}", {}), /Missing fields: a, b/);
+  });
+});
+
+describe("MailMerge", () => {
+  let fake: FakeGoogle;
+  let merge: MailMerge;
+  let configDir: string;
+  let templateFile: string;
+  let dataFile: string;
+
+  before(async () => {
+    fake = new FakeGoogle();
+    const rootUrl = await fake.start();
+    const test = createTestStorage();
+    configDir = test.configDir;
+    merge = new MailMerge(new GmailService(test.storage, { rootUrl }));
+
+    templateFile = path.join(configDir, "invite.txt");
+    fs.writeFileSync(
+      templateFile,
+      "Subject: Invite for {{name}}\nAttach: files/{{id}}.pdf\n\nHello {{name}},\nyour code is {{code}}.\n"
+    );
+    fs.mkdirSync(path.join(configDir, "files"));
+    fs.writeFileSync(path.join(configDir, "files", "1.pdf"), "%PDF-1");
+    fs.writeFileSync(path.join(configDir, "files", "2.pdf"), "%PDF-2");
+    dataFile = path.join(configDir, "people.json");
+    fs.writeFileSync(
+      dataFile,
+      JSON.stringify([
+        { id: 1, name: "Ann", email: "ann@example.com", code: "A1" },
+        { id: 2, name: "Bob", email: "bob@example.com" },
+        { id: 2, name: "Cy", email: "cy@example.com", code: "C3" },
+      ])
+    );
+  });
+
+  after(async () => {
+    await fake.stop();
+    removeDir(configDir);
+  });
+
+  beforeEach(() => {
+    fake.sent.length = 0;
+    fake.draftWrites.length = 0;
+  });
+
+  it("renders each row and reports rows that cannot be rendered", () => {
+    const planned = merge.plan(loadTemplate(templateFile), loadRows(dataFile));
+
+    assert.deepEqual(planned[0].message, {
+      to: ["ann@example.com"],
+      cc: undefined,
+      bcc: undefined,
+      from: undefined,
+      subject: "Invite for Ann",
+      body: "Hello Ann,\nyour code is A1.\n",
+      html: undefined,
+      attachments: [path.join(configDir, "files", "1.pdf")],
+    });
+    assert.equal(planned[1].error, "Missing field: code");
+  });
+
+  it("fails rows whose recipients contain line breaks or invalid addresses", () => {
+    const csv = path.join(configDir, "form.csv");
+    fs.writeFileSync(
+      csv,
+      'name,email,code\nEve,"eve@example.com\nBcc: spy@evil.com",E1\nMal,not an address,M1\nAnn,ann@example.com,A1\n'
+    );
+    const template = { ...loadTemplate(templateFile), attach: [] };
+
+    const planned = merge.plan(template, loadRows(csv));
+
+    assert.match(planned[0].error!, /^Line break in recipient/);
+    assert.equal(planned[0].message, undefined);
+    assert.equal(planned[1].error, 'Invalid address: "not an address"');
+    assert.deepEqual(planned[2].message?.to, ["ann@example.com"]);
+  });
+
+  it("fails rows whose attachment path leaves the template directory", () => {
+    const rows = [
+      { id: "../accounts.json", name: "Eve", email: "eve@example.com", code: "E1" },
+      { id: "/etc/passwd", name: "Mal", email: "mal@example.com", code: "M1" },
+      { id: "1", name: "Ann", email: "ann@example.com", code: "A1" },
+    ];
+    const template = { ...loadTemplate(templateFile), attach: ["{{id}}"] };
+
+    const planned = merge.plan(template, rows);
+
+    assert.match(planned[0].error!, /^Attachment outside the template directory/);
+    assert.match(planned[1].error!, /^Attachment outside the template directory/);
+    assert.deepEqual(planned[2].message?.attachments, [path.join(configDir, "1")]);
+    // Paths written in the template itself are trusted
+    assert.deepEqual(
+      merge.plan({ ...template, attach: ["../shared.pdf"] }, rows.slice(2))[0].message?.attachments,
+      [path.resolve(configDir, "../shared.pdf")]
+    );
+  });
+
+  it("previews without sending on a dry run", async () => {
+    const planned = merge.plan(loadTemplate(templateFile), loadRows(dataFile));
+
+    const results = await merge.run(TEST_EMAIL, planned, { dryRun: true });
+
+    assert.deepEqual(results.map((r) => r.status), ["preview", "failed", "preview"]);
+    assert.equal(fake.sent.length, 0);
+  });
+
+  it("sends each row, logs results and skips logged rows on the next run", async () => {
+    const logFile = path.join(configDir, "merge.ndjson");
+    const planned = merge.plan(loadTemplate(templateFile), loadRows(dataFile));
+
+    const first = await merge.run(TEST_EMAIL, planned, { logFile });
+
+    assert.deepEqual(first.map((r) => r.status), ["sent", "failed", "sent"]);
+    assert.equal(fake.sent.length, 2);
+    assert.match(fake.sent[0].raw, /^Subject: Invite for Ann$/m);
+    assert.ok(fake.sent[1].raw.includes(Buffer.from("%PDF-2").toString("base64")));
+    const logged = fs.readFileSync(logFile, "utf8").trim().split("\n").map((line) => JSON.parse(line));
+    assert.deepEqual(logged.map((e) => [e.row, e.status]), [[1, "sent"], [2, "failed"], [3, "sent"]]);
+
+    const second = await merge.run(TEST_EMAIL, planned, { logFile });
+
+    assert.deepEqual(second.map((r) => r.status), ["skipped", "failed", "skipped"]);
+    assert.equal(fake.sent.length, 2);
+  });
+
+  it("resumes from a log whose last line was torn by a crash", async () => {
+    const logFile = path.join(configDir, "torn.ndjson");
+    const planned = merge.plan(loadTemplate(templateFile), loadRows(dataFile));
+    fs.writeFileSync(logFile, JSON.stringify({ row: 1, to: "ann@example.com", subject: "x", status: "sent" }) + '\n{"row":3,"to":"cy@ex');
+
+    const results = await merge.run(TEST_EMAIL, planned, { logFile });
+
+    assert.deepEqual(results.map((r) => r.status), ["skipped", "failed", "sent"]);
+    assert.equal(fake.sent.length, 1);
+    const logged = fs.readFileSync(logFile, "utf8").trim().split("\n").map((line) => JSON.parse(line));
+    assert.deepEqual(logged.map((e) => [e.row, e.status]), [[1, "sent"], [2, "failed"], [3, "sent"]]);
+  });
+
+  it("creates drafts with Markdown rendered to HTML", async () => {
+    const mdTemplate = path.join(configDir, "note.md");
+    fs.writeFileSync(mdTemplate, "To: {{name}} <{{email}}>\nSubject: Note\n\n**{{name}}**, see you.\n");
+
+    const planned = merge.plan(loadTemplate(mdTemplate, "markdown"), [{ name: "Ann", email: "ann@example.com" }]);
+    const results = await merge.run(TEST_EMAIL, planned, { draft: true });
+
+    assert.equal(results[0].status, "drafted");
+    assert.equal(results[0].id, fake.draftWrites[0].draftId);
+    assert.match(fake.draftWrites[0].raw, /^To: Ann <ann@example\.com>$/m);
+    assert.ok(fake.draftWrites[0].raw.includes("<p><strong>Ann</strong>, see you.</p>"));
+  });
+
+  it("rejects templates without headers", () => {
+    const bad = path.join(configDir, "bad.txt");
+    fs.writeFileSync(bad, "Hello {{name}}\n");
+    assert.throws(() => loadTemplate(bad), /Invalid template header line/);
+  });
+});
@@ -0,0 +1,163 @@
+import { after, before, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { GmailService } from "../src/services/gmail.js";
+import { MailUnsubscribe } from "../src/services/mail-unsubscribe.js";
+import { MissingScopeError } from "../src/scopes.js";
+import { FakeGoogle } from "./helpers/fake-google.js";
+import { TEST_EMAIL, createTestStorage, removeDir, testAccount } from "./helpers/accounts.js";
+
+describe("MailUnsubscribe", () => {
+  let fake: FakeGoogle;
+  let gmail: GmailService;
+  let rootUrl: string;
+  let configDir: string;
+  let posted: string[];
+  let postStatus: number;
+
+  before(async () => {
+    fake = new FakeGoogle();
+    rootUrl = await fake.start();
+    const test = createTestStorage();
+    configDir = test.configDir;
+    gmail = new GmailService(test.storage, { rootUrl });
+  });
+
+  after(async () => {
+    await fake.stop();
+    removeDir(configDir);
+  });
+
+  beforeEach(() => {
+    fake.messages.clear();
+    fake.sent.length = 0;
+    fake.requests.length = 0;
+    posted = [];
+    postStatus = 200;
+    const headers = (from: string, list?: string, post?: string): Record<string, string> => ({
+      From: from,
+      Subject: "News",
+      "Authentication-Results": `mx.google.com; dkim=pass header.i=@${from.replace(/.*@|>/g, "")} header.s=s1`,
+      ...(list && { "List-Unsubscribe": list }),
+      ...(post && { "List-Unsubscribe-Post": post }),
+    });
+    const oneClick = headers("Shop <deals@shop.example>", "<https://shop.example/u/1>", "List-Unsubscribe=One-Click");
+    fake.addMessage({ id: "m1", threadId: "t1", labelIds: ["INBOX"], headers: oneClick });
+    fake.addMessage({ id: "m2", threadId: "t2", labelIds: ["INBOX"], headers: oneClick });
+    fake.addMessage({
+      id: "m3",
+      threadId: "t3",
+      labelIds: ["INBOX"],
+      headers: headers("list@club.example", "<mailto:leave@club.example?subject=stop>"),
+    });
+    fake.addMessage({
+      id: "m4",
+      threadId: "t4",
+      labelIds: ["INBOX"],
+      headers: headers("Blog <blog@web.example>", "<https://web.example/prefs>"),
+    });
+    fake.addMessage({ id: "m5", threadId: "t5", labelIds: ["INBOX"], headers: headers("friend@example.com") });
+  });
+
+  const service = () => new MailUnsubscribe(gmail, async (url) => {
+    posted.push(url);
+    return postStatus;
+  });
+
+  it("groups matching mail by sender and picks a method for each", async () => {
+    const subscriptions = await service().scan(TEST_EMAIL, "category:promotions");
+
+    assert.deepEqual(subscriptions.map((s) => [s.sender, s.messages, s.method]), [
+      ["deals@shop.example", 2, "one-click"],
+      ["list@club.example", 1, "mailto"],
+      ["blog@web.example", 1, "link"],
+      ["friend@example.com", 1, "none"],
+    ]);
+    assert.deepEqual(subscriptions[0].threadIds, ["t1", "t2"]);
+  });
+
+  it("unsubscribes by one-click POST or mailto and archives the sender's mail", async () => {
+    const unsubscribe = service();
+    const results = await unsubscribe.run(TEST_EMAIL, await unsubscribe.scan(TEST_EMAIL, "x"), { archive: true });
+
+    assert.deepEqual(results.map((r) => [r.sender, r.status]), [
+      ["deals@shop.example", "unsubscribed"],
+      ["list@club.example", "unsubscribed"],
+      ["blog@web.example", "manual"],
+      ["friend@example.com", "unavailable"],
+    ]);
+    assert.deepEqual(posted, ["https://shop.example/u/1"]);
+    assert.equal(fake.sent.length, 1);
+    assert.match(fake.sent[0].raw, /^To: leave@club\.example/m);
+    assert.match(fake.sent[0].raw, /^Subject: stop/m);
+    assert.deepEqual(["m1", "m2", "m3", "m4"].map((id) => fake.messages.get(id)!.labelIds), [[], [], [], ["INBOX"]]);
+  });
+
+  it("changes nothing in a dry run", async () => {
+    const unsubscribe = service();
+    const results = await unsubscribe.run(TEST_EMAIL, await unsubscribe.scan(TEST_EMAIL, "x"), {
+      dryRun: true,
+      archive: true,
+    });
+
+    assert.deepEqual(results.map((r) => r.status), ["preview", "preview", "manual", "unavailable"]);
+    assert.deepEqual(posted, []);
+    assert.equal(fake.sent.length, 0);
+    assert.equal(fake.requestsTo("POST", /batchModify$/).length, 0);
+  });
+
+  it("reports a rejected one-click request and leaves that sender's mail alone", async () => {
+    postStatus = 500;
+    const unsubscribe = service();
+    const [shop] = await unsubscribe.scan(TEST_EMAIL, "x");
+    const [result] = await unsubscribe.run(TEST_EMAIL, [shop], { archive: true });
+
+    assert.equal(result.status, "failed");
+    assert.match(result.error!, /HTTP 500/);
+    assert.deepEqual(fake.messages.get("m1")!.labelIds, ["INBOX"]);
+  });
+
+  it("leaves senders without a passing DKIM signature to do by hand", async () => {
+    fake.messages.get("m3")!.headers["Authentication-Results"] = "mx.google.com; dkim=fail header.i=@club.example";
+    fake.messages.get("m1")!.headers["Authentication-Results"] = "mx.google.com; dkim=pass header.i=@attacker.example";
+    const unsubscribe = service();
+    const [shop, club] = await unsubscribe.scan(TEST_EMAIL, "x");
+    const results = await unsubscribe.run(TEST_EMAIL, [shop, club]);
+
+    assert.deepEqual(results.map((r) => [r.sender, r.authenticated, r.status]), [
+      ["deals@shop.example", false, "manual"],
+      ["list@club.example", false, "manual"],
+    ]);
+    assert.match(results[0].error!, /DKIM/);
+    assert.deepEqual(posted, []);
+    assert.equal(fake.sent.length, 0);
+  });
+
+  it("checks the mail:modify scope for --archive before unsubscribing", async () => {
+    const test = createTestStorage();
+    try {
+      test.storage.addAccount(testAccount(TEST_EMAIL, ["mail:read", "mail:compose"]));
+      const unsubscribe = new MailUnsubscribe(new GmailService(test.storage, { rootUrl }), async (url) => {
+        posted.push(url);
+        return 200;
+      });
+      const subscriptions = await unsubscribe.scan(TEST_EMAIL, "x");
+
+      await assert.rejects(
+        unsubscribe.run(TEST_EMAIL, subscriptions, { archive: true }),
+        (e: unknown) => e instanceof MissingScopeError && e.scope === "mail:modify"
+      );
+      assert.deepEqual(posted, []);
+      assert.equal(fake.sent.length, 0);
+    } finally {
+      removeDir(test.configDir);
+    }
+  });
+
+  it("rejects an unknown label before unsubscribing", async () => {
+    const unsubscribe = service();
+    const subscriptions = await unsubscribe.scan(TEST_EMAIL, "x");
+
+    await assert.rejects(unsubscribe.run(TEST_EMAIL, subscriptions, { label: "No such label" }));
+    assert.deepEqual(posted, []);
+  });
+});
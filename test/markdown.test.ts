@@ -0,0 +1,34 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { renderMarkdown } from "../src/utils/markdown.js";
+
+describe("renderMarkdown", () => {
+  it("renders block structure", () => {
+    const html = renderMarkdown(
+      "# Title\n\nFirst line\nsecond line\n\n- one\n- two\n\n1. a\n2. b\n\n> quoted\n\n```\n<code>\n```\n\n---"
+    );
+    assert.equal(
+      html,
+      [
+        "<h1>Title</h1>",
+        "<p>First line\nsecond line</p>",
+        "<ul>\n<li>one</li>\n<li>two</li>\n</ul>",
+        "<ol>\n<li>a</li>\n<li>b</li>\n</ol>",
+        "<blockquote>\n<p>quoted</p>\n</blockquote>",
+        "<pre><code>&lt;code&gt;</code></pre>",
+        "<hr>",
+      ].join("\n")
+    );
+  });
+
+  it("renders inline formatting without touching code or URLs", () => {
+    assert.equal(
+      renderMarkdown("**Bold** and *it* with `a_b_c` see [docs](https://x.com/a_b_c) & snake_case_name"),
+      '<p><strong>Bold</strong> and <em>it</em> with <code>a_b_c</code> see <a href="https://x.com/a_b_c">docs</a> &amp; snake_case_name</p>'
+    );
+  });
+
+  it("renders images for inline CID references and escapes HTML", () => {
+    assert.equal(renderMarkdown("![Logo](cid:logo.png) <b>"), '<p><img src="cid:logo.png" alt="Logo"> &lt;b&gt;</p>');
+  });
+});
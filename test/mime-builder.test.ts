@@ -0,0 +1,94 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { CliError, ExitCode } from "../src/utils/errors.js";
+import { buildMimeMessage, encodeWords } from "../src/utils/mime-builder.js";
+
+const base = { from: "me@example.com", to: ["a@example.com"], subject: "Hi", body: "Hello" };
+
+function header(raw: string, name: string): string | undefined {
+  const head = raw.split("\r\n\r\n")[0].replace(/\r\n /g, " ");
+  return new RegExp(`^${name}: (.*)$`, "mi").exec(head)?.[1];
+}
+
+// Whitespace between adjacent encoded words is not part of the text
+function decodeWords(value: string): string {
+  return value
+    .replace(/\?=\s+=\?/g, "?==?")
+    .replace(/=\?UTF-8\?B\?([^?]+)\?=/g, (_m, b64: string) => Buffer.from(b64, "base64").toString());
+}
+
+describe("buildMimeMessage", () => {
+  it("encodes non-ASCII subjects and display names as RFC 2047 words", () => {
+    const raw = buildMimeMessage({
+      ...base,
+      from: "Zoë Dupré <zoe@example.com>",
+      to: ["Renée <renee@example.com>", "plain@example.com"],
+      subject: "Réunion demain — ordre du jour très détaillé pour l'équipe 🚀",
+    });
+
+    assert.ok(raw.split("\r\n\r\n")[0].split("\r\n").every((line) => line.length <= 78));
+    assert.match(header(raw, "From")!, /^=\?UTF-8\?B\?[^?]+\?= <zoe@example\.com>$/);
+    assert.equal(decodeWords(header(raw, "From")!), "Zoë Dupré <zoe@example.com>");
+    assert.equal(decodeWords(header(raw, "To")!), "Renée <renee@example.com>, plain@example.com");
+    assert.equal(decodeWords(header(raw, "Subject")!), "Réunion demain — ordre du jour très détaillé pour l'équipe 🚀");
+  });
+
+  it("keeps ASCII headers readable", () => {
+    assert.deepEqual(encodeWords("Hello there"), ["Hello there"]);
+    const raw = buildMimeMessage(base);
+    assert.equal(header(raw, "Subject"), "Hi");
+    assert.equal(raw.split("\r\n\r\n")[1], "Hello");
+  });
+
+  it("base64-encodes non-ASCII bodies and normalizes line endings", () => {
+    const raw = buildMimeMessage({ ...base, body: "Line 1\nLigne 2 — é" });
+    assert.match(raw, /^Content-Transfer-Encoding: base64$/m);
+    const body = raw.split("\r\n\r\n")[1];
+    assert.equal(Buffer.from(body, "base64").toString(), "Line 1\r\nLigne 2 — é");
+  });
+
+  it("nests text, HTML with inline images, and attachments", () => {
+    const raw = buildMimeMessage({
+      ...base,
+      html: '<p>Hello <img src="cid:logo.png"></p>',
+      inline: [{ filename: "logo.png", mimeType: "image/png", content: Buffer.from("PNG"), contentId: "logo.png" }],
+      attachments: [{ filename: "résumé.pdf", mimeType: "application/pdf", content: Buffer.alloc(200, 1) }],
+    });
+
+    const types = [...raw.matchAll(/^Content-Type: ([^;\r]+)/gm)].map((m) => m[1]);
+    assert.deepEqual(types, [
+      "multipart/mixed",
+      "multipart/alternative",
+      "text/plain",
+      "multipart/related",
+      "text/html",
+      "image/png",
+      "application/pdf",
+    ]);
+    assert.match(raw, /^Content-ID: <logo\.png>$/m);
+    assert.match(raw, /^Content-Disposition: inline; filename="logo\.png"$/m);
+    assert.match(raw, /^Content-Disposition: attachment; filename\*=UTF-8''r%C3%A9sum%C3%A9\.pdf$/m);
+  });
+
+  it("wraps base64 at 76 columns", () => {
+    const raw = buildMimeMessage({
+      ...base,
+      attachments: [{ filename: "big.bin", mimeType: "application/octet-stream", content: Buffer.alloc(1000, 7) }],
+    });
+    const encoded = raw.split('filename="big.bin"\r\n\r\n')[1].split("\r\n--")[0];
+    const lines = encoded.split("\r\n");
+    assert.ok(lines.length > 1);
+    assert.ok(lines.every((line) => line.length <= 76));
+    assert.deepEqual(Buffer.from(lines.join(""), "base64"), Buffer.alloc(1000, 7));
+  });
+
+  it("rejects line breaks and control characters in addresses and threading headers", () => {
+    const invalid = (e: unknown) => e instanceof CliError && e.exitCode === ExitCode.INVALID_INPUT;
+    assert.throws(() => buildMimeMessage({ ...base, to: ["ann@example.com\nBcc: spy@evil.com"] }), invalid);
+    assert.throws(() => buildMimeMessage({ ...base, cc: ["ann@example.com\r"] }), invalid);
+    assert.throws(() => buildMimeMessage({ ...base, bcc: ["ann\x00@example.com"] }), invalid);
+    assert.throws(() => buildMimeMessage({ ...base, from: "Me\r\nX-Evil: 1 <me@example.com>" }), invalid);
+    assert.throws(() => buildMimeMessage({ ...base, inReplyTo: "<a@x>\r\nBcc: spy@evil.com" }), invalid);
+    assert.throws(() => buildMimeMessage({ ...base, references: "<a@x>\n<b@x>" }), invalid);
+  });
+});
@@ -0,0 +1,167 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { gmail_v1 } from "googleapis";
+import {
+  decodeCharset,
+  formatAddress,
+  htmlToText,
+  parseAddressList,
+  parseHeaderValue,
+  parseMessagePayload,
+  parseRawHeaders,
+} from "../src/utils/mime.js";
+
+type Part = gmail_v1.Schema$MessagePart;
+
+function leaf(mimeType: string, data: string | Buffer, headers: Record<string, string> = {}, filename = ""): Part {
+  return {
+    mimeType,
+    filename,
+    headers: Object.entries(headers).map(([name, value]) => ({ name, value })),
+    body: { data: Buffer.from(data).toString("base64url"), size: Buffer.byteLength(data) },
+  };
+}
+
+function file(mimeType: string, filename: string, attachmentId: string, headers: Record<string, string> = {}): Part {
+  return {
+    mimeType,
+    filename,
+    headers: Object.entries(headers).map(([name, value]) => ({ name, value })),
+    body: { attachmentId, size: 10 },
+  };
+}
+
+describe("parseMessagePayload", () => {
+  it("finds bodies and attachments at any depth", () => {
+    const payload: Part = {
+      mimeType: "multipart/mixed",
+      parts: [
+        {
+          mimeType: "multipart/alternative",
+          parts: [
+            leaf("text/plain", "Hello"),
+            {
+              mimeType: "multipart/related",
+              parts: [
+                leaf("text/html", '<p>Hello <img src="cid:logo@x"></p>'),
+                file("image/png", "logo.png", "img1", { "Content-ID": "<logo@x>", "Content-Disposition": "inline" }),
+              ],
+            },
+          ],
+        },
+        file("application/pdf", "a.pdf", "att1", { "Content-Disposition": 'attachment; filename="a.pdf"' }),
+      ],
+    };
+
+    const parsed = parseMessagePayload(payload);
+
+    assert.equal(parsed.text, "Hello");
+    assert.equal(parsed.html, '<p>Hello <img src="cid:logo@x"></p>');
+    assert.deepEqual(parsed.inline, [
+      { contentId: "logo@x", mimeType: "image/png", filename: "logo.png", attachmentId: "img1", size: 10 },
+    ]);
+    assert.deepEqual(parsed.attachments.map((a) => a.id), ["att1"]);
+  });
+
+  it("keeps the outer body and collects attachments of forwarded messages", () => {
+    const payload: Part = {
+      mimeType: "multipart/mixed",
+      parts: [
+        leaf("text/plain", "FYI"),
+        {
+          mimeType: "message/rfc822",
+          parts: [
+            {
+              mimeType: "multipart/mixed",
+              parts: [leaf("text/plain", "Original"), file("text/csv", "data.csv", "att2")],
+            },
+          ],
+        },
+      ],
+    };
+
+    const parsed = parseMessagePayload(payload);
+
+    assert.equal(parsed.text, "FYI");
+    assert.deepEqual(parsed.attachments.map((a) => a.filename), ["data.csv"]);
+  });
+
+  it("falls back to the forwarded body when the outer message has none", () => {
+    const payload: Part = {
+      mimeType: "multipart/mixed",
+      parts: [{ mimeType: "message/rfc822", parts: [leaf("text/html", "<b>Inner</b>")] }],
+    };
+
+    assert.equal(parseMessagePayload(payload).html, "<b>Inner</b>");
+  });
+
+  it("decodes bodies using the declared charset", () => {
+    const latin1 = Buffer.from([0x43, 0x61, 0x66, 0xe9]); // "Café" in ISO-8859-1
+    const parsed = parseMessagePayload(leaf("text/plain", latin1, { "Content-Type": 'text/plain; charset="ISO-8859-1"' }));
+    assert.equal(parsed.text, "Café");
+  });
+});
+
+describe("decodeCharset", () => {
+  it("falls back to UTF-8 for unknown charsets", () => {
+    assert.equal(decodeCharset(Buffer.from("naïve"), "x-unknown"), "naïve");
+  });
+});
+
+describe("parseRawHeaders", () => {
+  it("unfolds header fields in order and measures the header block", () => {
+    const head = "Received: from a.example\r\n\tby b.example; Mon, 5 Jan 2026\r\nReceived: from c\r\nSubject: Hi\r\n\r\n";
+    const { headers, headerBytes } = parseRawHeaders(Buffer.from(`${head}Body: not a header\r\n`));
+
+    assert.deepEqual(headers, [
+      { name: "Received", value: "from a.example\tby b.example; Mon, 5 Jan 2026" },
+      { name: "Received", value: "from c" },
+      { name: "Subject", value: "Hi" },
+    ]);
+    assert.equal(headerBytes, Buffer.byteLength(head));
+  });
+
+  it("accepts bare LF line endings and messages without a body", () => {
+    assert.deepEqual(parseRawHeaders(Buffer.from("A: 1\n\nB: 2\n")).headerBytes, 6);
+    assert.deepEqual(parseRawHeaders(Buffer.from("A: 1")), { headers: [{ name: "A", value: "1" }], headerBytes: 4 });
+  });
+});
+
+describe("parseHeaderValue", () => {
+  it("splits the value and quoted parameters", () => {
+    assert.deepEqual(parseHeaderValue('attachment; filename="a; b.pdf"; size=10'), {
+      value: "attachment",
+      params: { filename: "a; b.pdf", size: "10" },
+    });
+  });
+});
+
+describe("parseAddressList", () => {
+  it("respects quotes and angle brackets", () => {
+    assert.deepEqual(parseAddressList('"Doe, Jane" <jane@x.com>, bob@y.com,Ann <ann@z.com>'), [
+      { name: "Doe, Jane", address: "jane@x.com" },
+      { address: "bob@y.com" },
+      { name: "Ann", address: "ann@z.com" },
+    ]);
+    assert.deepEqual(parseAddressList(undefined), []);
+  });
+
+  it("round-trips through formatAddress", () => {
+    const header = '"Doe, Jane" <jane@x.com>, Ann <ann@z.com>, bob@y.com';
+    assert.equal(parseAddressList(header).map(formatAddress).join(", "), header);
+  });
+});
+
+describe("htmlToText", () => {
+  it("turns block structure into lines and keeps link targets", () => {
+    const html = `<html><head><style>p { color: red }</style></head><body>
+      <h1>Report</h1><p>Totals&nbsp;are <b>up</b> &amp; rising.<br>See
+      <a href="https://example.com/r">the dashboard</a>.</p>
+      <ul><li>One</li><li>Two</li></ul><script>alert(1)</script>&#x263A;</body></html>`;
+
+    assert.equal(
+      htmlToText(html),
+      "Report\n\nTotals are up & rising.\nSee the dashboard (https://example.com/r).\n\n- One\n- Two\n\n☺"
+    );
+  });
+});
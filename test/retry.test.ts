@@ -0,0 +1,142 @@
+import { after, before, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createJGoogle } from "../src/index.js";
+import { GmailService } from "../src/services/gmail.js";
+import { getRetryAfterMs, isRetryable, withRetry } from "../src/utils/retry.js";
+import { FakeGoogle, type FakeResponse } from "./helpers/fake-google.js";
+import { TEST_EMAIL, createTestStorage, removeDir } from "./helpers/accounts.js";
+
+const RATE_LIMITED: FakeResponse = {
+  status: 429,
+  headers: { "retry-after": "0" },
+  body: { error: { code: 429, message: "Too many requests", errors: [{ reason: "rateLimitExceeded" }] } },
+};
+const SERVER_ERROR: FakeResponse = {
+  status: 503,
+  body: { error: { code: 503, message: "Backend error", errors: [{ reason: "backendError" }] } },
+};
+
+function httpError(status: number, reason?: string): Error {
+  return Object.assign(new Error(`HTTP ${status}`), {
+    response: { status, headers: {}, data: { error: { errors: reason ? [{ reason }] : [] } } },
+  });
+}
+
+describe("isRetryable", () => {
+  it("retries rate limits and 5xx on idempotent calls", () => {
+    assert.ok(isRetryable(httpError(429)));
+    assert.ok(isRetryable(httpError(403, "userRateLimitExceeded")));
+    assert.ok(isRetryable(httpError(503)));
+    assert.ok(isRetryable(Object.assign(new Error("reset"), { code: "ECONNRESET" })));
+    assert.ok(!isRetryable(httpError(403, "forbidden")));
+    assert.ok(!isRetryable(httpError(404)));
+  });
+
+  it("only retries non-idempotent calls that were certainly not applied", () => {
+    assert.ok(isRetryable(httpError(429), false));
+    assert.ok(isRetryable(Object.assign(new Error("refused"), { code: "ECONNREFUSED" }), false));
+    assert.ok(!isRetryable(httpError(500), false));
+    assert.ok(!isRetryable(Object.assign(new Error("reset"), { code: "ECONNRESET" }), false));
+  });
+});
+
+describe("getRetryAfterMs", () => {
+  it("reads seconds and HTTP dates", () => {
+    const withHeader = (value: string) => ({ response: { headers: { "retry-after": value } } });
+    assert.equal(getRetryAfterMs(withHeader("3")), 3000);
+    assert.equal(getRetryAfterMs(withHeader(new Date(0).toUTCString())), 0);
+    assert.equal(getRetryAfterMs(httpError(429)), undefined);
+  });
+});
+
+describe("withRetry", () => {
+  it("stops after maxAttempts and rethrows the last error", async () => {
+    let calls = 0;
+    const delays: number[] = [];
+    await assert.rejects(
+      withRetry(
+        async () => {
+          calls++;
+          throw httpError(503);
+        },
+        { maxAttempts: 3, baseDelayMs: 1, onRetry: (_e, _attempt, delay) => delays.push(delay) }
+      ),
+      /HTTP 503/
+    );
+    assert.equal(calls, 3);
+    assert.equal(delays.length, 2);
+    assert.ok(delays.every((d) => d >= 0 && d <= 2));
+  });
+});
+
+describe("service retries", () => {
+  let fake: FakeGoogle;
+  let rootUrl: string;
+  let gmail: GmailService;
+  let configDir: string;
+  let failures: FakeResponse[] = [];
+
+  before(async () => {
+    fake = new FakeGoogle();
+    rootUrl = await fake.start();
+    const test = createTestStorage();
+    configDir = test.configDir;
+    gmail = new GmailService(test.storage, { rootUrl, retry: { baseDelayMs: 1 } });
+    // Fail the next requests with the queued responses, then fall through
+    fake.route("GET", /\/labels$/, () => failures.shift());
+    fake.route("POST", /\/messages\/send$/, () => failures.shift());
+  });
+
+  after(async () => {
+    await fake.stop();
+    removeDir(configDir);
+  });
+
+  beforeEach(() => {
+    fake.requests.length = 0;
+    fake.sent.length = 0;
+    failures = [];
+  });
+
+  it("retries reads on 5xx and rate limits", async () => {
+    failures = [SERVER_ERROR, RATE_LIMITED];
+
+    const labels = await gmail.listLabels(TEST_EMAIL);
+
+    assert.equal(labels[0].id, "INBOX");
+    assert.equal(fake.requestsTo("GET", /\/labels$/).length, 3);
+  });
+
+  it("retries a send that was rate limited", async () => {
+    failures = [RATE_LIMITED];
+
+    await gmail.sendMessage(TEST_EMAIL, ["bob@example.com"], "Hi", "Hello");
+
+    assert.equal(fake.requestsTo("POST", /\/messages\/send$/).length, 2);
+    assert.equal(fake.sent.length, 1);
+  });
+
+  it("does not retry a send that failed with a 5xx", async () => {
+    failures = [SERVER_ERROR];
+
+    await assert.rejects(
+      gmail.sendMessage(TEST_EMAIL, ["bob@example.com"], "Hi", "Hello"),
+      (e: unknown) => (e as { status?: number }).status === 503
+    );
+    assert.equal(fake.requestsTo("POST", /\/messages\/send$/).length, 1);
+    assert.equal(fake.sent.length, 0);
+  });
+
+  it("applies the retry policy passed to createJGoogle", async () => {
+    failures = [SERVER_ERROR];
+    const jgoogle = createJGoogle({
+      configDir,
+      credentials: { clientId: "test-client", clientSecret: "test-secret" },
+      rootUrl,
+      retry: { maxAttempts: 1 },
+    });
+
+    await assert.rejects(jgoogle.gmail.listLabels(TEST_EMAIL), (e: unknown) => (e as { status?: number }).status === 503);
+    assert.equal(fake.requestsTo("GET", /\/labels$/).length, 1);
+  });
+});
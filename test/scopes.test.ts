@@ -0,0 +1,70 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { CalendarService } from "../src/services/calendar.js";
+import { GmailService } from "../src/services/gmail.js";
+import { MissingScopeError, SCOPES, hasScope, parseScopeNames } from "../src/scopes.js";
+import { CliError, ExitCode } from "../src/utils/errors.js";
+import { FakeGoogle } from "./helpers/fake-google.js";
+import { TEST_EMAIL, createTestStorage, removeDir, testAccount } from "./helpers/accounts.js";
+
+describe("scopes", () => {
+  it("treats broader scopes as granting narrower ones", () => {
+    assert.ok(hasScope([SCOPES["cal:write"]], "cal:read"));
+    assert.ok(hasScope([SCOPES["mail:modify"]], "mail:compose"));
+    assert.ok(!hasScope([SCOPES["cal:read"]], "cal:write"));
+    assert.ok(!hasScope([SCOPES["drive:read"]], "drive:write"));
+  });
+
+  it("parses short scope names", () => {
+    assert.deepEqual(parseScopeNames("cal:write, drive:write"), ["cal:write", "drive:write"]);
+    assert.deepEqual(parseScopeNames(""), []);
+    assert.throws(() => parseScopeNames("cal:admin"), (e: CliError) => e.exitCode === ExitCode.INVALID_INPUT);
+  });
+
+  describe("pre-flight checks", () => {
+    let fake: FakeGoogle;
+    let rootUrl: string;
+    let configDir: string;
+
+    before(async () => {
+      fake = new FakeGoogle();
+      rootUrl = await fake.start();
+    });
+
+    after(async () => {
+      await fake.stop();
+      removeDir(configDir);
+    });
+
+    it("names the missing scope before calling Google", async () => {
+      const test = createTestStorage();
+      configDir = test.configDir;
+      test.storage.addAccount(testAccount(TEST_EMAIL, ["mail:read", "mail:compose", "cal:read", "drive:read"]));
+      const calendar = new CalendarService(test.storage, { rootUrl });
+      const gmail = new GmailService(test.storage, { rootUrl });
+
+      await assert.rejects(
+        calendar.deleteEvent(TEST_EMAIL, "primary", "e1"),
+        (e: MissingScopeError) => {
+          assert.equal(e.scope, "cal:write");
+          assert.equal(e.exitCode, ExitCode.AUTH_ERROR);
+          assert.match(e.message, /jgoogle accounts reauth me@example\.com --scopes cal:write/);
+          return true;
+        }
+      );
+      await assert.rejects(gmail.modifyLabels(TEST_EMAIL, ["t1"], ["STARRED"]), /mail:modify/);
+      assert.equal(fake.requests.length, 0);
+    });
+
+    it("assumes the default scopes for accounts without recorded scopes", async () => {
+      const test = createTestStorage();
+      const account = testAccount();
+      delete account.scopes;
+      test.storage.addAccount(account);
+      const calendar = new CalendarService(test.storage, { rootUrl });
+
+      await assert.rejects(calendar.deleteEvent(TEST_EMAIL, "primary", "e1"), MissingScopeError);
+      removeDir(test.configDir);
+    });
+  });
+});
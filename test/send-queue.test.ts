@@ -0,0 +1,150 @@
+import { after, before, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import * as path from "path";
+import { GmailService } from "../src/services/gmail.js";
+import { SendQueue, type QueueEntry } from "../src/services/send-queue.js";
+import { CliError, ExitCode } from "../src/utils/errors.js";
+import { FakeGoogle } from "./helpers/fake-google.js";
+import { TEST_EMAIL, createTestStorage, removeDir } from "./helpers/accounts.js";
+
+// Far above the Linux pid limit, so never a running process
+const DEAD_PID = 99_999_999;
+
+describe("SendQueue", () => {
+  let fake: FakeGoogle;
+  let queue: SendQueue;
+  let other: SendQueue;
+  let configDir: string;
+
+  before(async () => {
+    fake = new FakeGoogle();
+    const rootUrl = await fake.start();
+    const test = createTestStorage();
+    configDir = test.configDir;
+    const gmail = new GmailService(test.storage, { rootUrl });
+    queue = new SendQueue(gmail, test.storage);
+    other = new SendQueue(gmail, test.storage);
+  });
+
+  after(async () => {
+    await fake.stop();
+    removeDir(configDir);
+  });
+
+  beforeEach(() => {
+    fs.rmSync(path.join(configDir, "queue.json"), { force: true });
+    fake.sent.length = 0;
+  });
+
+  const message = (subject: string) => ({ to: ["bob@example.com"], subject, body: "Hello", options: {} });
+  const queueFile = () => path.join(configDir, "queue.json");
+
+  it("sends only the messages that are due, once", async () => {
+    const early = await queue.add(TEST_EMAIL, message("Early"), new Date("2026-10-20T09:00:00Z"));
+    await queue.add(TEST_EMAIL, message("Late"), new Date("2026-10-21T09:00:00Z"));
+
+    const first = await queue.run(TEST_EMAIL, { now: new Date("2026-10-20T12:00:00Z") });
+    const second = await queue.run(TEST_EMAIL, { now: new Date("2026-10-20T12:00:00Z") });
+
+    assert.deepEqual(first.map((e) => [e.id, e.status]), [[early.id, "sent"]]);
+    assert.ok(first[0].messageId);
+    assert.deepEqual(second, []);
+    assert.equal(fake.sent.length, 1);
+    assert.match(fake.sent[0].raw, /^Subject: Early$/m);
+    assert.deepEqual(queue.list(TEST_EMAIL).map((e) => e.status), ["sent", "queued"]);
+    assert.equal(fs.statSync(queueFile()).mode & 0o777, 0o600);
+  });
+
+  it("never resends a message whose run died while sending it", async () => {
+    const entry = await queue.add(TEST_EMAIL, message("Crashed"), new Date("2026-10-20T09:00:00Z"));
+    const data = JSON.parse(fs.readFileSync(queueFile(), "utf8")) as { messages: QueueEntry[] };
+    Object.assign(data.messages[0], { status: "sending", pid: DEAD_PID });
+    fs.writeFileSync(queueFile(), JSON.stringify(data));
+    fs.writeFileSync(path.join(configDir, "queue.lock"), String(DEAD_PID));
+
+    const results = await queue.run(TEST_EMAIL, { now: new Date("2026-10-21T00:00:00Z") });
+
+    assert.deepEqual(results.map((e) => [e.id, e.status]), [[entry.id, "interrupted"]]);
+    assert.match(results[0].error!, /Check Sent mail/);
+    assert.equal(fake.sent.length, 0);
+    assert.ok(!fs.existsSync(path.join(configDir, "queue.lock")));
+  });
+
+  it("sends each message once when two runs overlap after a stale lock", async () => {
+    const subjects = ["One", "Two", "Three", "Four"];
+    for (const subject of subjects) await queue.add(TEST_EMAIL, message(subject), new Date("2026-10-20T09:00:00Z"));
+    fs.writeFileSync(path.join(configDir, "queue.lock"), String(DEAD_PID));
+
+    const now = new Date("2026-10-21T00:00:00Z");
+    const [a, b] = await Promise.all([queue.run(TEST_EMAIL, { now }), other.run(TEST_EMAIL, { now })]);
+
+    assert.equal(a.length + b.length, subjects.length);
+    assert.deepEqual(fake.sent.map((m) => m.raw.match(/^Subject: (.*)$/m)![1]).sort(), [...subjects].sort());
+    assert.deepEqual(queue.list(TEST_EMAIL).map((e) => e.status), subjects.map(() => "sent"));
+  });
+
+  it("does not send a message already claimed by a run whose queue update was lost", async () => {
+    const entry = await queue.add(TEST_EMAIL, message("Claimed"), new Date("2026-10-20T09:00:00Z"));
+    const stale = fs.readFileSync(queueFile(), "utf8");
+    const now = new Date("2026-10-21T00:00:00Z");
+    // While the first run is sending, another run writes back the queue as it was before the claim
+    let overlapping: Promise<QueueEntry[]> | undefined;
+    fake.route("POST", /\/messages\/send$/, () => {
+      if (!overlapping) {
+        fs.writeFileSync(queueFile(), stale);
+        overlapping = other.run(TEST_EMAIL, { now });
+      }
+      return undefined;
+    });
+
+    const first = await queue.run(TEST_EMAIL, { now });
+    const second = await overlapping!;
+
+    assert.deepEqual(first.map((e) => [e.id, e.status]), [[entry.id, "sent"]]);
+    assert.deepEqual(second.map((e) => [e.id, e.status]), [[entry.id, "interrupted"]]);
+    assert.equal(fake.sent.length, 1);
+    assert.deepEqual(fs.readdirSync(path.join(configDir, "queue.claims")), []);
+  });
+
+  it("records failures and cancels only queued messages", async () => {
+    const bad = await queue.add(
+      TEST_EMAIL,
+      { ...message("Bad"), options: { from: "nobody@example.com" } },
+      new Date("2026-10-20T09:00:00Z")
+    );
+    const later = await queue.add(TEST_EMAIL, message("Later"), new Date("2026-10-22T09:00:00Z"));
+
+    const [failed] = await queue.run(TEST_EMAIL, { now: new Date("2026-10-21T00:00:00Z") });
+    await queue.cancel(TEST_EMAIL, later.id);
+
+    assert.equal(failed.status, "failed");
+    assert.match(failed.error!, /not a verified send-as address/);
+    assert.deepEqual(queue.list(TEST_EMAIL).map((e) => e.status), ["failed", "cancelled"]);
+    await assert.rejects(
+      queue.cancel(TEST_EMAIL, bad.id),
+      (e: unknown) => e instanceof CliError && e.exitCode === ExitCode.INVALID_INPUT && /already failed/.test(e.message)
+    );
+    await assert.rejects(
+      queue.cancel(TEST_EMAIL, "missing"),
+      (e: unknown) => e instanceof CliError && e.exitCode === ExitCode.NOT_FOUND
+    );
+  });
+
+  it("checks attachments when queueing and keeps absolute paths", async () => {
+    const file = path.join(configDir, "report.txt");
+    fs.writeFileSync(file, "data");
+
+    const entry = await queue.add(
+      TEST_EMAIL,
+      { ...message("Report"), options: { attachments: [path.relative(process.cwd(), file)] } },
+      new Date("2026-10-20T09:00:00Z")
+    );
+
+    assert.deepEqual(entry.options.attachments, [file]);
+    await assert.rejects(
+      queue.add(TEST_EMAIL, { ...message("x"), options: { attachments: ["missing.pdf"] } }, new Date()),
+      (e: unknown) => e instanceof CliError && e.exitCode === ExitCode.INVALID_INPUT
+    );
+  });
+});
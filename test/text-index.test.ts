@@ -0,0 +1,62 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { InvertedIndex, containsPhrase, parseQuery, tokenize } from "../src/utils/text-index.js";
+
+const FIELDS = ["subject", "from", "body"];
+
+describe("tokenize", () => {
+  it("lowercases, drops punctuation and accents", () => {
+    assert.deepEqual(tokenize("Re: Café meeting @ 10:30, José!"), ["re", "cafe", "meeting", "10", "30", "jose"]);
+    assert.deepEqual(tokenize("Алиса 東京"), ["алиса", "東京"]);
+  });
+});
+
+describe("parseQuery", () => {
+  it("reads words, field prefixes and quoted phrases", () => {
+    assert.deepEqual(parseQuery('invoice from:acme subject:"March report" "paid in full"', FIELDS), [
+      { field: undefined, words: ["invoice"], phrase: false },
+      { field: "from", words: ["acme"], phrase: false },
+      { field: "subject", words: ["march", "report"], phrase: true },
+      { field: undefined, words: ["paid", "in", "full"], phrase: true },
+    ]);
+  });
+
+  it("treats unknown prefixes as plain words", () => {
+    assert.deepEqual(parseQuery("https://example.com label:x", FIELDS), [
+      { field: undefined, words: ["https", "example", "com"], phrase: false },
+      { field: undefined, words: ["label", "x"], phrase: false },
+    ]);
+  });
+});
+
+describe("InvertedIndex", () => {
+  it("finds documents with every word, optionally in one field", () => {
+    const index = new InvertedIndex();
+    index.add("m1", { subject: "Invoice for March", from: "Acme <billing@acme.com>", body: "Please pay" });
+    index.add("m2", { subject: "Lunch", from: "Bob", body: "The invoice is attached" });
+
+    assert.deepEqual([...index.lookup(["invoice"], FIELDS)].sort(), ["m1", "m2"]);
+    assert.deepEqual([...index.lookup(["invoice"], ["subject"])], ["m1"]);
+    assert.deepEqual([...index.lookup(["invoice", "lunch"], FIELDS)], ["m2"]);
+    assert.deepEqual([...index.lookup(["missing"], FIELDS)], []);
+  });
+
+  it("removes documents and round-trips through JSON", () => {
+    const index = new InvertedIndex();
+    index.add("m1", { subject: "Hello world", body: "" });
+    index.add("m2", { subject: "Hello", body: "" });
+    index.remove("m1", { subject: "Hello world", body: "" });
+
+    const restored = new InvertedIndex(JSON.parse(JSON.stringify(index)));
+
+    assert.deepEqual(restored.toJSON(), { "subject:hello": ["m2"] });
+  });
+});
+
+describe("containsPhrase", () => {
+  it("matches whole words in order", () => {
+    assert.ok(containsPhrase("We were paid in full, thanks", ["paid", "in", "full"]));
+    assert.ok(!containsPhrase("paid in fullness", ["paid", "in", "full"]));
+    assert.ok(!containsPhrase("full paid in", ["paid", "in", "full"]));
+  });
+});
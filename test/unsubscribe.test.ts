@@ -0,0 +1,51 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { hasSenderDkim, parseListUnsubscribe } from "../src/utils/unsubscribe.js";
+
+describe("parseListUnsubscribe", () => {
+  it("reads mailto and web links", () => {
+    assert.deepEqual(
+      parseListUnsubscribe("<mailto:leave%2B42@list.example?subject=Unsubscribe%20me>, <http://list.example/u/42>", undefined),
+      { mailto: { to: ["leave+42@list.example"], subject: "Unsubscribe me", body: undefined }, url: "http://list.example/u/42" }
+    );
+  });
+
+  it("offers one-click only for HTTPS links the sender opted in", () => {
+    const header = "<https://list.example/u/42>";
+    assert.equal(parseListUnsubscribe(header, "List-Unsubscribe=One-Click").oneClick, "https://list.example/u/42");
+    assert.equal(parseListUnsubscribe(header, undefined).oneClick, undefined);
+    assert.equal(parseListUnsubscribe("<http://list.example/u/42>", "List-Unsubscribe=One-Click").oneClick, undefined);
+  });
+
+  it("drops mailto links that add recipients or headers", () => {
+    for (const header of [
+      "<mailto:leave@list.example%0D%0ABcc:%20victim@corp.example>",
+      "<mailto:leave@list.example,victim@corp.example>",
+      "<mailto:Leave%20<leave@list.example>>",
+      "<mailto:leave@list.example?subject=stop%0D%0ABcc:%20victim@corp.example>",
+      "<mailto:%E0%A4%A>",
+    ]) {
+      assert.equal(parseListUnsubscribe(header, undefined).mailto, undefined, header);
+    }
+  });
+
+  it("ignores folded whitespace and missing headers", () => {
+    assert.deepEqual(parseListUnsubscribe("<https://list.example/\r\n u/42>", undefined), {
+      url: "https://list.example/u/42",
+    });
+    assert.deepEqual(parseListUnsubscribe(undefined, undefined), {});
+  });
+});
+
+describe("hasSenderDkim", () => {
+  it("requires Gmail's passing DKIM result for the sender's domain", () => {
+    const results = (r: string) => `mx.google.com; ${r}; spf=pass smtp.mailfrom=list.example`;
+    assert.ok(hasSenderDkim(results("dkim=pass header.i=@list.example header.s=s1"), "news@list.example"));
+    assert.ok(hasSenderDkim(results("dkim=pass header.d=list.example"), "news@mail.list.example"));
+    assert.ok(!hasSenderDkim(results("dkim=pass header.i=@other.example"), "news@list.example"));
+    assert.ok(!hasSenderDkim(results("dkim=fail header.i=@list.example"), "news@list.example"));
+    assert.ok(!hasSenderDkim(results("dkim=pass header.i=@list.example"), "news@badlist.example"));
+    assert.ok(!hasSenderDkim("evil.example; dkim=pass header.i=@list.example", "news@list.example"));
+    assert.ok(!hasSenderDkim(undefined, "news@list.example"));
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { parseYaml, stringifyYaml, type YamlValue } from "../src/utils/yaml.js";
+
+describe("parseYaml", () => {
+  it("reads nested maps, lists of maps, flow lists and scalars", () => {
+    const source = [
+      "# Filters for work mail",
+      "filters:",
+      "- criteria:",
+      "    from: boss@example.com   # the boss",
+      "    query: 'from:x \"quoted\" it''s'",
+      "    larger: 1048576",
+      "  action:",
+      "    addLabels: [Work, \"Clients/Acme\"]",
+      "    star: true",
+      "-   criteria: {}",
+      "    action:",
+      "      - one",
+      "      -",
+      "empty:",
+      "url: http://example.com/#anchor",
+    ].join("\n");
+
+    assert.deepEqual(parseYaml(source), {
+      filters: [
+        {
+          criteria: { from: "boss@example.com", query: `from:x "quoted" it's`, larger: 1048576 },
+          action: { addLabels: ["Work", "Clients/Acme"], star: true },
+        },
+        { criteria: {}, action: ["one", null] },
+      ],
+      empty: null,
+      url: "http://example.com/#anchor",
+    });
+  });
+
+  it("reads keys that are also Object.prototype names as plain data", () => {
+    const value = parseYaml("constructor: a\ntoString: b\n__proto__:\n  polluted: true\n") as Record<string, YamlValue>;
+
+    assert.deepEqual(Object.keys(value), ["constructor", "toString", "__proto__"]);
+    assert.equal(value.constructor, "a");
+    assert.equal(value.toString, "b");
+    assert.deepEqual(Object.getOwnPropertyDescriptor(value, "__proto__")?.value, { polluted: true });
+    assert.equal(Object.getPrototypeOf(value), Object.prototype);
+    assert.throws(() => parseYaml("toString: a\ntoString: b\n"), /line 2: duplicate key "toString"/);
+  });
+
+  it("reports the line of a problem", () => {
+    assert.throws(() => parseYaml("a: 1\n  b: 2\n"), /line 2: unexpected indentation/);
+    assert.throws(() => parseYaml("a: 1\na: 2\n"), /line 2: duplicate key "a"/);
+    assert.throws(() => parseYaml("text: |\n  block\n"), /line 1: block scalars are not supported/);
+  });
+});
+
+describe("stringifyYaml", () => {
+  it("quotes strings that would read back as something else and round-trips", () => {
+    const value = {
+      filters: [{ criteria: { from: "a@example.com", query: "subject: hi #1", size: "10" }, action: { labels: ["yes", "Work"] } }],
+      empty: [],
+      none: null,
+    };
+
+    const text = stringifyYaml(value);
+
+    assert.equal(text, [
+      "filters:",
+      "  - criteria:",
+      "      from: a@example.com",
+      '      query: "subject: hi #1"',
+      '      size: "10"',
+      "    action:",
+      "      labels:",
+      '        - "yes"',
+      "        - Work",
+      "empty: []",
+      "none: null",
+      "",
+    ].join("\n"));
+    assert.deepEqual(parseYaml(text), value);
+  });
+});